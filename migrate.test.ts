@@ -0,0 +1,60 @@
+import Database from 'better-sqlite3';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { migrate } from './migrate';
+
+// garage.db as the builds before the migration runner left it: one table, bikes already in it
+function preMigrationDatabase() {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE motorcycles (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      category TEXT NOT NULL,
+      year INTEGER NOT NULL,
+      description TEXT,
+      modifications TEXT,
+      image TEXT,
+      engine TEXT,
+      power TEXT,
+      torque TEXT,
+      weight TEXT,
+      topSpeed TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    INSERT INTO motorcycles (id, name, category, year, description, modifications, image, engine, power)
+    VALUES ('legacy', 'King Tiger Scrambler', 'Honda', 2004, 'Daily scrambler', 'Knalpot racing, Shock YSS',
+      '/uploads/king.jpg', 'Honda 250cc', '16 HP @ 8500 rpm');
+  `);
+  return db;
+}
+
+const search = (db: Database.Database, query: string) =>
+  db.prepare('SELECT rowid FROM motorcycles_fts WHERE motorcycles_fts MATCH ?').all(query);
+
+test('upgrading a database that already has bikes indexes them for search', async () => {
+  const db = preMigrationDatabase();
+  await migrate(db, () => {});
+
+  assert.equal(search(db, '"king"*').length, 1);
+  db.prepare("UPDATE motorcycles SET name = 'Tiger Revo Tracker' WHERE id = 'legacy'").run();
+  assert.equal(search(db, '"king"*').length, 0);
+  assert.equal(search(db, '"revo"*').length, 1);
+  db.prepare("DELETE FROM motorcycles WHERE id = 'legacy'").run();
+  assert.equal(search(db, '"revo"*').length, 0);
+});
+
+test('upgrading a database that already has bikes backfills their specs, cover and modification log', async () => {
+  const db = preMigrationDatabase();
+  await migrate(db, () => {});
+
+  const bike: any = db.prepare("SELECT engine_value, power_base, power_rpm FROM motorcycles WHERE id = 'legacy'").get();
+  assert.deepEqual({ ...bike }, { engine_value: 250, power_base: 16, power_rpm: 8500 });
+  const images: any[] = db.prepare("SELECT url, is_cover FROM motorcycle_images WHERE motorcycle_id = 'legacy'").all();
+  assert.deepEqual(images.map(image => ({ ...image })), [{ url: '/uploads/king.jpg', is_cover: 1 }]);
+  const entries: any[] = db.prepare("SELECT part_name, category FROM modification_entries WHERE motorcycle_id = 'legacy' ORDER BY id").all();
+  assert.deepEqual(entries.map(entry => ({ ...entry })), [
+    { part_name: 'Knalpot racing', category: 'exhaust' },
+    { part_name: 'Shock YSS', category: 'suspension' }
+  ]);
+});
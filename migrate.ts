@@ -0,0 +1,130 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { slugify } from './src/slug';
+
+// Versioned schema changes for garage.db. Each file in migrations/ is named
+// <4-digit version>-<name>.ts and exports up(db); versions are applied in order, each in its own
+// transaction, and recorded in schema_migrations. There are no down migrations: restore a backup.
+//
+//   npm run migrate -- status          what is applied and what is pending
+//   npm run migrate -- up              apply pending migrations without starting the server
+//   npm run migrate -- create <name>   start a new migration file
+
+export const DATABASE_FILE = 'garage.db';
+
+const migrationsDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'migrations');
+const MIGRATION_FILE = /^(\d{4})-([a-z0-9-]+)\.ts$/;
+
+interface MigrationFile {
+  version: number;
+  name: string;
+  file: string;
+}
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+function listMigrations(): MigrationFile[] {
+  const migrations = fs.readdirSync(migrationsDir)
+    .map(file => ({ file, match: file.match(MIGRATION_FILE) }))
+    .filter(({ match }) => match)
+    .map(({ file, match }) => ({ version: Number(match![1]), name: match![2], file }))
+    .sort((a, b) => a.version - b.version);
+  const duplicate = migrations.find((migration, index) => index > 0 && migrations[index - 1].version === migration.version);
+  if (duplicate) throw new Error(`Two migrations share version ${duplicate.version}`);
+  return migrations;
+}
+
+function appliedMigrations(db: Database.Database): AppliedMigration[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+  return db.prepare('SELECT * FROM schema_migrations ORDER BY version').all() as AppliedMigration[];
+}
+
+/**
+ * Brings the database up to the newest migration. Throws, applying nothing, when the database
+ * has been migrated by a newer build than this one, since this code can't know that schema.
+ */
+export async function migrate(db: Database.Database, log: (message: string) => void = console.log) {
+  const migrations = listMigrations();
+  const applied = appliedMigrations(db);
+  const known = new Set(migrations.map(migration => migration.version));
+  const unknown = applied.filter(migration => !known.has(migration.version));
+  if (unknown.length > 0) {
+    const latest = migrations[migrations.length - 1]?.version ?? 0;
+    throw new Error(
+      `${DATABASE_FILE} has migrations this build doesn't know (${unknown.map(migration => `${String(migration.version).padStart(4, '0')}-${migration.name}`).join(', ')}); ` +
+      `the newest here is ${latest}. Run a newer build or restore a backup.`
+    );
+  }
+
+  const done = new Set(applied.map(migration => migration.version));
+  const record = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+  for (const migration of migrations.filter(migration => !done.has(migration.version))) {
+    const { up } = await import(pathToFileURL(path.join(migrationsDir, migration.file)).href);
+    db.transaction(() => {
+      up(db);
+      record.run(migration.version, migration.name, new Date().toISOString());
+    })();
+    log(`Applied migration ${migration.file}`);
+  }
+}
+
+function status(db: Database.Database) {
+  const applied = new Map(appliedMigrations(db).map(migration => [migration.version, migration]));
+  const migrations = listMigrations();
+  for (const migration of migrations) {
+    const row = applied.get(migration.version);
+    console.log(`${row ? 'applied' : 'pending'}  ${migration.file}${row ? `  (${row.applied_at})` : ''}`);
+    applied.delete(migration.version);
+  }
+  for (const row of applied.values()) {
+    console.log(`unknown  ${String(row.version).padStart(4, '0')}-${row.name}  (${row.applied_at}, from a newer build)`);
+  }
+  if (migrations.length === 0 && applied.size === 0) console.log('No migrations');
+}
+
+function create(name: string | undefined) {
+  const slug = slugify(name || '');
+  if (!slug) throw new Error('Usage: npm run migrate -- create <name>');
+  const last = listMigrations().pop()?.version ?? 0;
+  const file = `${String(last + 1).padStart(4, '0')}-${slug}.ts`;
+  fs.writeFileSync(path.join(migrationsDir, file), `import type Database from 'better-sqlite3';
+
+export function up(db: Database.Database) {
+  db.exec(\`
+  \`);
+}
+`);
+  console.log(`Created migrations/${file}`);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(path.resolve(process.argv[1])).href) {
+  const [command, name] = process.argv.slice(2);
+  try {
+    if (command === 'create') {
+      create(name);
+    } else if (command === 'status' || command === 'up') {
+      const db = new Database(DATABASE_FILE);
+      if (command === 'status') status(db);
+      else await migrate(db);
+      db.close();
+    } else {
+      console.log('Usage: npm run migrate -- status | up | create <name>');
+      process.exitCode = 1;
+    }
+  } catch (error: any) {
+    console.error(error.message);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,197 @@
+import type Database from 'better-sqlite3';
+
+// The schema as it stood when migrations were introduced. Databases created before then already
+// have some or all of it, so every statement tolerates what is already there and columns that
+// were bolted on over time are added to older tables.
+export function up(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      password_hash TEXT NOT NULL,
+      role TEXT NOT NULL DEFAULT 'member',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE TABLE IF NOT EXISTS sessions (
+      token_hash TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      expires_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS motorcycles (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      category TEXT NOT NULL,
+      year INTEGER NOT NULL,
+      description TEXT,
+      modifications TEXT,
+      image TEXT,
+      engine TEXT,
+      power TEXT,
+      torque TEXT,
+      weight TEXT,
+      topSpeed TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  // Each free-text spec has a parsed value, its unit and the value in the spec's base unit for sorting
+  addMissingColumns(db, 'motorcycles', {
+    engine_value: 'REAL', engine_unit: 'TEXT', engine_base: 'REAL',
+    power_value: 'REAL', power_unit: 'TEXT', power_base: 'REAL', power_rpm: 'INTEGER',
+    torque_value: 'REAL', torque_unit: 'TEXT', torque_base: 'REAL', torque_rpm: 'INTEGER',
+    weight_value: 'REAL', weight_unit: 'TEXT', weight_base: 'REAL',
+    topSpeed_value: 'REAL', topSpeed_unit: 'TEXT', topSpeed_base: 'REAL',
+    // Bikes created before accounts existed have no owner and can only be edited by an admin
+    owner_id: 'INTEGER REFERENCES users(id)',
+    style: 'TEXT',
+    // Soft delete: trashed bikes keep their row until restored or purged
+    deleted_at: 'TEXT'
+  });
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS motorcycle_images (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      motorcycle_id TEXT NOT NULL REFERENCES motorcycles(id) ON DELETE CASCADE,
+      url TEXT NOT NULL,
+      caption TEXT,
+      position INTEGER NOT NULL DEFAULT 0,
+      is_cover INTEGER NOT NULL DEFAULT 0,
+      source_url TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS idx_motorcycle_images_motorcycle ON motorcycle_images(motorcycle_id, position);
+  `);
+  // Where a mirrored image was copied from, kept for attribution
+  addMissingColumns(db, 'motorcycle_images', { source_url: 'TEXT' });
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS modification_entries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      motorcycle_id TEXT NOT NULL REFERENCES motorcycles(id) ON DELETE CASCADE,
+      date TEXT,
+      part_name TEXT NOT NULL,
+      category TEXT NOT NULL DEFAULT 'other',
+      cost REAL,
+      workshop TEXT,
+      notes TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS idx_modification_entries_motorcycle ON modification_entries(motorcycle_id, date);
+
+    CREATE TABLE IF NOT EXISTS service_records (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      motorcycle_id TEXT NOT NULL REFERENCES motorcycles(id) ON DELETE CASCADE,
+      service_type TEXT NOT NULL DEFAULT 'other',
+      title TEXT,
+      date TEXT NOT NULL,
+      odometer INTEGER,
+      interval_km INTEGER,
+      interval_months INTEGER,
+      parts TEXT NOT NULL DEFAULT '[]',
+      cost REAL,
+      workshop TEXT,
+      notes TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS idx_service_records_motorcycle ON service_records(motorcycle_id, date);
+    CREATE TABLE IF NOT EXISTS odometer_readings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      motorcycle_id TEXT NOT NULL REFERENCES motorcycles(id) ON DELETE CASCADE,
+      date TEXT NOT NULL,
+      km INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS idx_odometer_readings_motorcycle ON odometer_readings(motorcycle_id, date);
+
+    CREATE TABLE IF NOT EXISTS cost_entries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      motorcycle_id TEXT NOT NULL REFERENCES motorcycles(id) ON DELETE CASCADE,
+      date TEXT NOT NULL,
+      description TEXT NOT NULL,
+      kind TEXT NOT NULL DEFAULT 'parts',
+      category TEXT NOT NULL DEFAULT 'other',
+      amount REAL NOT NULL,
+      currency TEXT NOT NULL DEFAULT 'IDR',
+      vendor TEXT,
+      notes TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS idx_cost_entries_motorcycle ON cost_entries(motorcycle_id, date);
+    CREATE TABLE IF NOT EXISTS cost_receipts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      cost_entry_id INTEGER NOT NULL REFERENCES cost_entries(id) ON DELETE CASCADE,
+      url TEXT NOT NULL,
+      position INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE INDEX IF NOT EXISTS idx_cost_receipts_entry ON cost_receipts(cost_entry_id);
+
+    CREATE TABLE IF NOT EXISTS categories (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      slug TEXT NOT NULL UNIQUE,
+      logo TEXT,
+      sort_order INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE TABLE IF NOT EXISTS styles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      slug TEXT NOT NULL UNIQUE,
+      sort_order INTEGER NOT NULL DEFAULT 0
+    );
+
+    CREATE TABLE IF NOT EXISTS tags (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      slug TEXT NOT NULL UNIQUE
+    );
+    CREATE TABLE IF NOT EXISTS motorcycle_tags (
+      motorcycle_id TEXT NOT NULL REFERENCES motorcycles(id) ON DELETE CASCADE,
+      tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+      PRIMARY KEY (motorcycle_id, tag_id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_motorcycle_tags_tag ON motorcycle_tags(tag_id);
+
+    CREATE TABLE IF NOT EXISTS motorcycle_revisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      motorcycle_id TEXT NOT NULL REFERENCES motorcycles(id) ON DELETE CASCADE,
+      editor_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      action TEXT NOT NULL,
+      snapshot TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_motorcycle_revisions_motorcycle ON motorcycle_revisions(motorcycle_id, id);
+
+    -- Full-text index over the searchable text columns, kept in sync by triggers
+    CREATE VIRTUAL TABLE IF NOT EXISTS motorcycles_fts USING fts5(
+      name, description, modifications,
+      content='motorcycles', content_rowid='rowid',
+      tokenize='unicode61 remove_diacritics 2'
+    );
+    CREATE TRIGGER IF NOT EXISTS motorcycles_fts_ai AFTER INSERT ON motorcycles BEGIN
+      INSERT INTO motorcycles_fts(rowid, name, description, modifications)
+      VALUES (new.rowid, new.name, new.description, new.modifications);
+    END;
+    CREATE TRIGGER IF NOT EXISTS motorcycles_fts_ad AFTER DELETE ON motorcycles BEGIN
+      INSERT INTO motorcycles_fts(motorcycles_fts, rowid, name, description, modifications)
+      VALUES ('delete', old.rowid, old.name, old.description, old.modifications);
+    END;
+    CREATE TRIGGER IF NOT EXISTS motorcycles_fts_au AFTER UPDATE OF name, description, modifications ON motorcycles BEGIN
+      INSERT INTO motorcycles_fts(motorcycles_fts, rowid, name, description, modifications)
+      VALUES ('delete', old.rowid, old.name, old.description, old.modifications);
+      INSERT INTO motorcycles_fts(rowid, name, description, modifications)
+      VALUES (new.rowid, new.name, new.description, new.modifications);
+    END;
+    -- Rows saved before the index existed are not in it yet, and the delete trigger fails on them
+    INSERT INTO motorcycles_fts(motorcycles_fts) VALUES ('rebuild');
+  `);
+}
+
+function addMissingColumns(db: Database.Database, table: string, columns: Record<string, string>) {
+  const existing = new Set((db.prepare(`PRAGMA table_info(${table})`).all() as any[]).map(col => col.name));
+  for (const [name, type] of Object.entries(columns)) {
+    if (!existing.has(name)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import type Database from 'better-sqlite3';
+
+// When a bike's editable fields last changed, as an ISO timestamp. It doubles as the bike's
+// version for If-Match, so existing bikes start from the moment they were created.
+export function up(db: Database.Database) {
+  db.exec(`
+    ALTER TABLE motorcycles ADD COLUMN updated_at TEXT;
+    UPDATE motorcycles SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', COALESCE(created_at, 'now'));
+  `);
+}
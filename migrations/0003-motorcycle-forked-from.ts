@@ -0,0 +1,10 @@
+import type Database from 'better-sqlite3';
+
+// The bike a build was duplicated from. Purging that bike leaves the copy without a link
+// rather than taking it along.
+export function up(db: Database.Database) {
+  db.exec(`
+    ALTER TABLE motorcycles ADD COLUMN forked_from TEXT REFERENCES motorcycles(id) ON DELETE SET NULL;
+    CREATE INDEX IF NOT EXISTS idx_motorcycles_forked_from ON motorcycles(forked_from);
+  `);
+}
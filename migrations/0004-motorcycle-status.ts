@@ -0,0 +1,11 @@
+import type Database from 'better-sqlite3';
+
+// draft, published or archived. Every bike so far was public as soon as it was saved, so they
+// all start out published. publish_at holds back a published bike until that moment (ISO time).
+export function up(db: Database.Database) {
+  db.exec(`
+    ALTER TABLE motorcycles ADD COLUMN status TEXT NOT NULL DEFAULT 'published';
+    ALTER TABLE motorcycles ADD COLUMN publish_at TEXT;
+    CREATE INDEX IF NOT EXISTS idx_motorcycles_status ON motorcycles(status, publish_at);
+  `);
+}
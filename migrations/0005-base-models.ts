@@ -0,0 +1,31 @@
+import type Database from 'better-sqlite3';
+
+// Stock models with their factory specs, so a build can say what it started from. category is the
+// brand name, like motorcycles.category. Specs are kept as text with the same parsed columns as a
+// bike's, which lets the stock and modified figures be compared in base units.
+export function up(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE base_models (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      category TEXT NOT NULL,
+      name TEXT NOT NULL,
+      slug TEXT NOT NULL UNIQUE,
+      year_from INTEGER,
+      year_to INTEGER,
+      engine TEXT,
+      power TEXT,
+      torque TEXT,
+      weight TEXT,
+      topSpeed TEXT,
+      engine_value REAL, engine_unit TEXT, engine_base REAL,
+      power_value REAL, power_unit TEXT, power_base REAL, power_rpm INTEGER,
+      torque_value REAL, torque_unit TEXT, torque_base REAL, torque_rpm INTEGER,
+      weight_value REAL, weight_unit TEXT, weight_base REAL,
+      topSpeed_value REAL, topSpeed_unit TEXT, topSpeed_base REAL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX idx_base_models_category ON base_models(category, name);
+    ALTER TABLE motorcycles ADD COLUMN base_model_id INTEGER REFERENCES base_models(id) ON DELETE SET NULL;
+    CREATE INDEX idx_motorcycles_base_model ON motorcycles(base_model_id);
+  `);
+}
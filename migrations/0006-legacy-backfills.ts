@@ -0,0 +1,43 @@
+import type Database from 'better-sqlite3';
+import { parseSpec, SPEC_KEYS, RPM_SPECS } from '../src/specs';
+import { guessModificationCategory, splitModificationText } from '../src/modifications';
+
+// One-off backfills for data saved by builds older than the migration runner, which used to run on
+// every boot. Specs that still can't be parsed stay in the raw column and are reported as unparsed.
+export function up(db: Database.Database) {
+  const specColumns = SPEC_KEYS.flatMap(key => [
+    `${key} = ?`, `${key}_value = ?`, `${key}_unit = ?`, `${key}_base = ?`, ...(RPM_SPECS.includes(key) ? [`${key}_rpm = ?`] : [])
+  ]);
+  const writeSpecs = db.prepare(`UPDATE motorcycles SET ${specColumns.join(', ')} WHERE id = ?`);
+  const unparsed: any[] = db.prepare(`
+    SELECT * FROM motorcycles WHERE ${SPEC_KEYS.map(key => `(${key} IS NOT NULL AND ${key} != '' AND ${key}_value IS NULL)`).join(' OR ')}
+  `).all();
+  for (const bike of unparsed) {
+    const values = SPEC_KEYS.flatMap(key => {
+      const spec = parseSpec(key, bike[key]);
+      return [spec.raw, spec.value, spec.unit, spec.base, ...(RPM_SPECS.includes(key) ? [spec.rpm] : [])];
+    });
+    writeSpecs.run(...values, bike.id);
+  }
+
+  // Bikes saved before galleries existed only have the single `image` column; give them a cover row
+  db.exec(`
+    INSERT INTO motorcycle_images (motorcycle_id, url, position, is_cover)
+    SELECT id, image, 0, 1 FROM motorcycles
+    WHERE image IS NOT NULL AND image != ''
+      AND id NOT IN (SELECT motorcycle_id FROM motorcycle_images)
+  `);
+
+  // Turn the old comma-separated modifications field into log entries
+  const insertEntry = db.prepare('INSERT INTO modification_entries (motorcycle_id, part_name, category) VALUES (?, ?, ?)');
+  const legacy: any[] = db.prepare(`
+    SELECT id, modifications FROM motorcycles
+    WHERE modifications IS NOT NULL AND modifications != ''
+      AND id NOT IN (SELECT motorcycle_id FROM modification_entries)
+  `).all();
+  for (const bike of legacy) {
+    for (const part of splitModificationText(bike.modifications)) {
+      insertEntry.run(bike.id, part, guessModificationCategory(part));
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import type Database from 'better-sqlite3';
+
+// Who stored each file in uploads/, so dropping a reference only ever deletes the dropper's own
+// files. url is the one bikes store: the full JPEG for pipeline uploads. Files already in use are
+// credited to the owner of the oldest bike using them; brand logos belong to no one.
+export function up(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE uploads (
+      url TEXT PRIMARY KEY,
+      owner_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    INSERT OR IGNORE INTO uploads (url, owner_id)
+    SELECT url, owner_id FROM (
+      SELECT m.image AS url, m.owner_id, m.created_at FROM motorcycles m
+      UNION ALL SELECT i.url, m.owner_id, m.created_at FROM motorcycle_images i JOIN motorcycles m ON m.id = i.motorcycle_id
+      UNION ALL SELECT r.url, m.owner_id, m.created_at FROM cost_receipts r
+        JOIN cost_entries e ON e.id = r.cost_entry_id JOIN motorcycles m ON m.id = e.motorcycle_id
+      UNION ALL SELECT json_extract(v.snapshot, '$.image'), m.owner_id, m.created_at FROM motorcycle_revisions v
+        JOIN motorcycles m ON m.id = v.motorcycle_id
+    )
+    WHERE url LIKE '/uploads/%'
+      AND url NOT GLOB '*-thumb.*' AND url NOT GLOB '*-card.*' AND url NOT GLOB '*-full.webp'
+    ORDER BY created_at;
+    INSERT OR IGNORE INTO uploads (url, owner_id) SELECT logo, NULL FROM categories WHERE logo LIKE '/uploads/%';
+  `);
+}
@@ -5,6 +5,21 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import multer from 'multer';
 import fs from 'fs';
+import crypto from 'crypto';
+import os from 'os';
+import dns from 'dns';
+import net from 'net';
+import http from 'http';
+import https from 'https';
+import sharp from 'sharp';
+import { zipSync, strToU8, Unzip, UnzipInflate } from 'fflate';
+import { SPEC_KEYS, RPM_SPECS, SpecKey, parseSpec, formatSpec } from './src/specs';
+import { IMAGE_SIZES, ImageSize, pipelineBase, variantBase, variantUrl } from './src/images';
+import { slugify } from './src/slug';
+import { guessModificationCategory, splitModificationText } from './src/modifications';
+import { DATABASE_FILE, migrate } from './migrate';
+import { FieldErrors, MIN_YEAR, MOTORCYCLE_SCHEMA, STATUS_VALUES, normalizeTags, validateMotorcycle } from './src/validation';
+import { toCsv, parseCsv, MOTORCYCLE_CSV_COLUMNS, MotorcycleCsvColumn, motorcycleCsvColumn } from './src/csv';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -15,13 +30,18 @@ if (!fs.existsSync(uploadsDir)) {
   fs.mkdirSync(uploadsDir);
 }
 
+// Raw uploads wait here until they are processed; only the pipeline output lands in uploadsDir
+const incomingDir = path.join(os.tmpdir(), 'garage-uploads');
+
 // Configure multer
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_UPLOAD_FILES = 10;
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
-    if (!fs.existsSync(uploadsDir)) {
-      fs.mkdirSync(uploadsDir, { recursive: true });
+    if (!fs.existsSync(incomingDir)) {
+      fs.mkdirSync(incomingDir, { recursive: true });
     }
-    cb(null, uploadsDir);
+    cb(null, incomingDir);
   },
   filename: (req, file, cb) => {
     const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
@@ -30,168 +50,2875 @@ const storage = multer.diskStorage({
 });
 const upload = multer({ 
   storage,
-  limits: { fileSize: 5 * 1024 * 1024 } // 5MB limit
+  limits: { fileSize: MAX_IMAGE_BYTES, files: MAX_UPLOAD_FILES } // 5MB limit
 });
 
-const db = new Database('garage.db');
-
-// Initialize Database
-db.exec(`
-  CREATE TABLE IF NOT EXISTS motorcycles (
-    id TEXT PRIMARY KEY,
-    name TEXT NOT NULL,
-    category TEXT NOT NULL,
-    year INTEGER NOT NULL,
-    description TEXT,
-    modifications TEXT,
-    image TEXT,
-    engine TEXT,
-    power TEXT,
-    torque TEXT,
-    weight TEXT,
-    topSpeed TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  )
-`);
+// Image types recognised by their leading bytes, so a renamed or mislabeled file can't slip through
+function sniffImageType(buffer: Buffer) {
+  const ascii = (start: number, end: number) => buffer.toString('latin1', start, end);
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'image/jpeg';
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') return 'image/png';
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'image/gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (['heic', 'heix', 'mif1', 'msf1'].includes(brand)) return 'image/heif';
+  }
+  return null;
+}
 
-async function startServer() {
-  const app = express();
-  const PORT = 3000;
+/**
+ * Decodes an uploaded image and writes every size in IMAGE_SIZES as WebP and JPEG.
+ * The file type is taken from the data itself, never from the file name or the
+ * Content-Type the client claimed. sharp drops
+ * EXIF (including GPS), XMP and IPTC metadata unless asked to keep it, so only the
+ * orientation is applied before it goes. Resolves to the URL of the full JPEG.
+ */
+async function processImage(buffer: Buffer) {
+  if (!sniffImageType(buffer)) {
+    throw Object.assign(new Error('File is not a supported image (JPEG, PNG, WebP, GIF, AVIF or HEIF)'), { status: 400 });
+  }
+  await sharp(buffer).metadata().catch(() => {
+    throw Object.assign(new Error('File is not a valid image'), { status: 400 });
+  });
 
-  app.use(express.json({ limit: '10mb' }));
-  app.use(express.urlencoded({ extended: true, limit: '10mb' }));
-  
-  // Serve uploaded files
-  app.use('/uploads', express.static(uploadsDir));
+  const base = Date.now() + '-' + Math.round(Math.random() * 1E9);
+  await Promise.all((Object.keys(IMAGE_SIZES) as ImageSize[]).flatMap(size => {
+    const resized = sharp(buffer).rotate().resize({ width: IMAGE_SIZES[size], withoutEnlargement: true });
+    return [
+      resized.clone().webp({ quality: 80 }).toFile(path.join(uploadsDir, path.basename(variantUrl(base, size, 'webp')))),
+      resized.clone().flatten({ background: '#121212' }).jpeg({ quality: 82, mozjpeg: true }).toFile(path.join(uploadsDir, path.basename(variantUrl(base, size, 'jpg'))))
+    ];
+  }));
+  return variantUrl(base, 'full', 'jpg');
+}
 
-  // API Routes
-  app.post('/api/upload', (req, res) => {
-    console.log('--- Base64 Upload Start ---');
-    const { image, fileName } = req.body;
+// Remote image mirroring. Only public addresses may be fetched, so a bike's image URL can't be
+// used to probe the server's own network. MIRROR_ALLOW_PRIVATE_NETWORKS=true lifts that for local testing.
+const MIRROR_TIMEOUT = 10_000;
+const MIRROR_MAX_REDIRECTS = 3;
+const mirrorAllowsPrivate = process.env.MIRROR_ALLOW_PRIVATE_NETWORKS === 'true';
+
+const privateNetworks = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  privateNetworks.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  privateNetworks.addSubnet(prefix, bits, 'ipv6');
+}
+
+function isPrivateAddress(address: string) {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return privateNetworks.check(mapped[1], 'ipv4');
+  return privateNetworks.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+function blockedAddressError(address: string) {
+  return Object.assign(new Error(`Refusing to fetch images from private address ${address}`), { status: 400 });
+}
+
+function remoteError(message: string) {
+  return Object.assign(new Error(message), { status: 502 });
+}
+
+// Checks the address the socket will actually connect to, so DNS can't hand out a
+// public address for the check and a private one for the request
+const guardedLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, options, (error, address: any, family) => {
+    if (error) return callback(error, address, family);
+    const entries: { address: string }[] = Array.isArray(address) ? address : [{ address }];
+    const blocked = entries.find(entry => isPrivateAddress(entry.address));
+    if (blocked && !mirrorAllowsPrivate) return callback(blockedAddressError(blocked.address), address, family);
+    callback(null, address, family);
+  });
+}) as net.LookupFunction;
+
+function fetchRemoteImage(url: string, redirects = 0): Promise<Buffer> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return Promise.reject(Object.assign(new Error('Image URL is not valid'), { status: 400 }));
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return Promise.reject(Object.assign(new Error('Only http and https image URLs can be mirrored'), { status: 400 }));
+  }
+  // IP literals never reach the lookup
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isPrivateAddress(host) && !mirrorAllowsPrivate) {
+    return Promise.reject(blockedAddressError(host));
+  }
+
+  return new Promise((resolve, reject) => {
+    const client = parsed.protocol === 'https:' ? https : http;
+    const request = client.get(parsed, {
+      lookup: guardedLookup,
+      timeout: MIRROR_TIMEOUT,
+      headers: { 'User-Agent': 'CustomGarage-ImageMirror/1.0', Accept: 'image/*' }
+    }, response => {
+      const status = response.statusCode || 0;
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        if (redirects >= MIRROR_MAX_REDIRECTS) return reject(remoteError('Remote image redirected too many times'));
+        // Every hop goes through the same checks
+        return resolve(fetchRemoteImage(new URL(response.headers.location, parsed).toString(), redirects + 1));
+      }
+      if (status !== 200) {
+        response.resume();
+        return reject(remoteError(`Remote server answered ${status} for the image`));
+      }
+      if (Number(response.headers['content-length']) > MAX_IMAGE_BYTES) {
+        request.destroy();
+        return reject(Object.assign(new Error('Remote image is larger than 5MB'), { status: 400 }));
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_IMAGE_BYTES) {
+          request.destroy();
+          reject(Object.assign(new Error('Remote image is larger than 5MB'), { status: 400 }));
+        } else {
+          chunks.push(chunk);
+        }
+      });
+      response.on('end', () => resolve(Buffer.concat(chunks)));
+      response.on('error', error => reject(remoteError(`Could not download remote image: ${error.message}`)));
+    });
+    request.on('timeout', () => request.destroy(remoteError('Timed out fetching remote image')));
+    request.on('error', (error: any) => {
+      reject(error.status ? error : remoteError(`Could not fetch remote image: ${error.message}`));
+    });
+  });
+}
+
+// Downloads an external image and stores it through the upload pipeline
+async function mirrorRemoteImage(url: string, uploaderId: number) {
+  const imageUrl = await processImage(await fetchRemoteImage(url));
+  recordUpload(imageUrl, uploaderId);
+  return imageUrl;
+}
+
+function isRemoteUrl(url: unknown): url is string {
+  return typeof url === 'string' && /^https?:\/\//i.test(url);
+}
+
+function removeIncoming(files: Express.Multer.File[]) {
+  for (const file of files) {
+    fs.rm(file.path, { force: true }, (error) => {
+      if (error) console.error('Failed to remove incoming upload:', file.path, error);
+    });
+  }
+}
+
+// Every file on disk that belongs to an uploaded image URL
+function uploadFilesFor(url: string) {
+  const base = pipelineBase(url);
+  if (!base) return [path.basename(url)];
+  return (Object.keys(IMAGE_SIZES) as ImageSize[]).flatMap(size =>
+    (['webp', 'jpg'] as const).map(format => path.basename(variantUrl(base, size, format)))
+  );
+}
+
+const db = new Database(DATABASE_FILE);
+
+// Schema changes live in migrations/; a database migrated by a newer build is left alone
+try {
+  await migrate(db);
+} catch (error: any) {
+  console.error(error.message);
+  process.exit(1);
+}
+db.pragma('foreign_keys = ON');
+
+// Bikes and catalog base models keep their specs in the same columns
+function writeSpecs(id: string | number, specs: Partial<Record<SpecKey, string>>, table: 'motorcycles' | 'base_models' = 'motorcycles') {
+  const assignments: string[] = [];
+  const values: unknown[] = [];
+  for (const key of SPEC_KEYS) {
+    const spec = parseSpec(key, specs[key]);
+    assignments.push(`${key} = ?`, `${key}_value = ?`, `${key}_unit = ?`, `${key}_base = ?`);
+    values.push(spec.raw, spec.value, spec.unit, spec.base);
+    if (RPM_SPECS.includes(key)) {
+      assignments.push(`${key}_rpm = ?`);
+      values.push(spec.rpm);
+    }
+  }
+  db.prepare(`UPDATE ${table} SET ${assignments.join(', ')} WHERE id = ?`).run(...values, id);
+}
+
+function formatSpecData(bike: any) {
+  return Object.fromEntries(SPEC_KEYS.map(key => [key, {
+    raw: bike[key] || '',
+    value: bike[`${key}_value`],
+    unit: bike[`${key}_unit`],
+    base: bike[`${key}_base`],
+    rpm: RPM_SPECS.includes(key) ? bike[`${key}_rpm`] : null,
+    unparsed: !!bike[key] && bike[`${key}_value`] === null
+  }]));
+}
+
+const MODIFICATION_CATEGORIES = ['engine', 'exhaust', 'intake', 'suspension', 'brakes', 'wheels', 'electrical', 'body', 'paint', 'other'];
+
+function normalizeModificationCategory(category: unknown) {
+  const value = String(category || '').toLowerCase();
+  return MODIFICATION_CATEGORIES.includes(value) ? value : 'other';
+}
+
+function insertModificationsFromText(motorcycleId: string, text: string) {
+  const stmt = db.prepare('INSERT INTO modification_entries (motorcycle_id, part_name, category) VALUES (?, ?, ?)');
+  splitModificationText(text).forEach(part => {
+    stmt.run(motorcycleId, part, guessModificationCategory(part));
+  });
+}
+
+// Undated entries (mostly migrated from the old text field) come first, then chronological
+const MODIFICATION_ORDER = 'date IS NOT NULL, date, id';
+
+function getModificationLog(motorcycleId: string) {
+  return db.prepare(`SELECT * FROM modification_entries WHERE motorcycle_id = ? ORDER BY ${MODIFICATION_ORDER}`)
+    .all(motorcycleId)
+    .map(formatModification);
+}
+
+function formatModification(row: any) {
+  return {
+    id: row.id,
+    date: row.date,
+    partName: row.part_name,
+    category: row.category,
+    cost: row.cost,
+    workshop: row.workshop || '',
+    notes: row.notes || ''
+  };
+}
+
+// motorcycles.modifications is kept as a comma summary of the log so the grid card and search keep working
+function syncModificationSummary(motorcycleId: string) {
+  const summary = getModificationLog(motorcycleId).map(entry => entry.partName).join(', ');
+  db.prepare('UPDATE motorcycles SET modifications = ? WHERE id = ?').run(summary, motorcycleId);
+}
+
+// Date and cost may be left empty; anything given has to be a real date and a non-negative amount
+function normalizeModificationEntry(body: any): { entry: any } | { errors: FieldErrors } {
+  const errors: FieldErrors = {};
+  const partName = String(body.partName || '').trim();
+  if (!partName) errors.partName = 'Missing part name';
+  const date = body.date === '' || body.date == null ? null : body.date;
+  if (date !== null && !isIsoDate(date)) errors.date = 'Date must be a YYYY-MM-DD date';
+  const cost = body.cost === '' || body.cost == null ? null : Number(body.cost);
+  if (cost !== null && !(Number.isFinite(cost) && cost >= 0)) errors.cost = 'Cost must be a number of at least 0';
+  if (Object.keys(errors).length > 0) return { errors };
+
+  return {
+    entry: {
+      date,
+      partName,
+      category: normalizeModificationCategory(body.category),
+      cost,
+      workshop: body.workshop || '',
+      notes: body.notes || ''
+    }
+  };
+}
+
+// Maintenance: service records and odometer readings. Unlike the modification log these are
+// the owner's own bookkeeping, so they are only readable by the owner and admins.
+const SERVICE_TYPES = ['oil', 'chain', 'tyres', 'brakes', 'tune-up', 'tax', 'other'];
+const MAX_SERVICE_PARTS = 20;
+// How close a service has to be before it shows up on the due-soon dashboard
+const DUE_SOON_KM = 500;
+const DUE_SOON_DAYS = 30;
+
+const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+
+// '' and null clear a field; anything else has to be a whole number of at least `min`
+function parseWholeNumber(value: unknown, min: number): number | null | undefined {
+  if (value === '' || value == null) return null;
+  const number = Number(value);
+  return Number.isInteger(number) && number >= min ? number : undefined;
+}
+
+function normalizeServiceRecord(body: any): { record: any } | { error: string } {
+  if (!isIsoDate(body.date)) return { error: 'Service date must be a YYYY-MM-DD date' };
+  const odometer = parseWholeNumber(body.odometer, 0);
+  if (odometer === undefined) return { error: 'Odometer must be a whole number of kilometres' };
+  const intervalKm = parseWholeNumber(body.intervalKm, 1);
+  const intervalMonths = parseWholeNumber(body.intervalMonths, 1);
+  if (intervalKm === undefined || intervalMonths === undefined) {
+    return { error: 'Service intervals must be positive whole numbers' };
+  }
+  if (body.parts != null && !Array.isArray(body.parts)) return { error: 'Parts must be a list' };
+  const parts = [...new Set<string>((body.parts || []).map((part: unknown) => String(part).trim()).filter(Boolean))];
+  if (parts.length > MAX_SERVICE_PARTS) return { error: `A service record can list at most ${MAX_SERVICE_PARTS} parts` };
+  const serviceType = String(body.serviceType || '').toLowerCase();
+
+  return {
+    record: {
+      serviceType: SERVICE_TYPES.includes(serviceType) ? serviceType : 'other',
+      title: String(body.title || '').trim(),
+      date: body.date,
+      odometer,
+      intervalKm,
+      intervalMonths,
+      parts,
+      cost: body.cost === '' || body.cost == null ? null : Number(body.cost),
+      workshop: body.workshop || '',
+      notes: body.notes || ''
+    }
+  };
+}
+
+function formatServiceRecord(row: any) {
+  return {
+    id: row.id,
+    serviceType: row.service_type,
+    title: row.title || '',
+    date: row.date,
+    odometer: row.odometer,
+    intervalKm: row.interval_km,
+    intervalMonths: row.interval_months,
+    parts: JSON.parse(row.parts || '[]'),
+    cost: row.cost,
+    workshop: row.workshop || '',
+    notes: row.notes || ''
+  };
+}
+
+type ServiceRecord = ReturnType<typeof formatServiceRecord>;
+
+// The most recent reading wins, whether it was logged on its own or with a service
+function latestOdometer(motorcycleId: string): { km: number, date: string } | null {
+  return (db.prepare(`
+    SELECT km, date FROM odometer_readings WHERE motorcycle_id = ?
+    UNION ALL
+    SELECT odometer AS km, date FROM service_records WHERE motorcycle_id = ? AND odometer IS NOT NULL
+    ORDER BY date DESC, km DESC LIMIT 1
+  `).get(motorcycleId, motorcycleId) as any) || null;
+}
+
+const REMINDER_RANK = { overdue: 0, 'due-soon': 1, ok: 2 };
+type ReminderStatus = keyof typeof REMINDER_RANK;
+
+// Overdue first, then due soon, each by date
+function compareReminders(a: { status: ReminderStatus, remainingDays: number | null }, b: { status: ReminderStatus, remainingDays: number | null }) {
+  return REMINDER_RANK[a.status] - REMINDER_RANK[b.status] || (a.remainingDays ?? Infinity) - (b.remainingDays ?? Infinity);
+}
+
+function addMonths(date: string, months: number) {
+  const d = new Date(date + 'T00:00:00Z');
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  // 31 Jan + 1 month lands on the last day of February, not in March
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, lastDay));
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Works out when each kind of service is next due from the most recent record of that kind
+ * and its interval: by distance from the odometer reading at that service, by time from its
+ * date, whichever comes first. Services without an interval never come due. "Other" services
+ * are told apart by their title, so "Ganti aki" and "Servis CVT" each get their own reminder.
+ */
+function computeReminders(records: ServiceRecord[], odometer: { km: number } | null, now = new Date()) {
+  const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  const latest = new Map<string, ServiceRecord>();
+  for (const record of records) {
+    const key = record.serviceType === 'other' ? `other:${record.title.toLowerCase()}` : record.serviceType;
+    const current = latest.get(key);
+    if (!current || record.date > current.date || (record.date === current.date && record.id > current.id)) {
+      latest.set(key, record);
+    }
+  }
+
+  return [...latest.values()]
+    .filter(record => record.intervalKm || record.intervalMonths)
+    .map(record => {
+      const dueOdometer = record.intervalKm && record.odometer != null ? record.odometer + record.intervalKm : null;
+      const dueDate = record.intervalMonths ? addMonths(record.date, record.intervalMonths) : null;
+      const remainingKm = dueOdometer != null && odometer ? dueOdometer - odometer.km : null;
+      const remainingDays = dueDate ? Math.round((Date.parse(dueDate) - today) / DAY) : null;
+      const status: ReminderStatus =
+        (remainingKm != null && remainingKm <= 0) || (remainingDays != null && remainingDays <= 0) ? 'overdue'
+        : (remainingKm != null && remainingKm <= DUE_SOON_KM) || (remainingDays != null && remainingDays <= DUE_SOON_DAYS) ? 'due-soon'
+        : 'ok';
+      return {
+        recordId: record.id,
+        serviceType: record.serviceType,
+        title: record.title,
+        lastDate: record.date,
+        lastOdometer: record.odometer,
+        dueDate,
+        dueOdometer,
+        remainingKm,
+        remainingDays,
+        status
+      };
+    })
+    .sort(compareReminders);
+}
+
+function getServiceLog(motorcycleId: string) {
+  const records = db.prepare('SELECT * FROM service_records WHERE motorcycle_id = ? ORDER BY date DESC, id DESC')
+    .all(motorcycleId)
+    .map(formatServiceRecord);
+  const readings = db.prepare('SELECT id, date, km FROM odometer_readings WHERE motorcycle_id = ? ORDER BY date DESC, id DESC')
+    .all(motorcycleId);
+  const odometer = latestOdometer(motorcycleId);
+  return { records, readings, odometer, reminders: computeReminders(records, odometer) };
+}
+
+// Build costs: a ledger of parts and labour per bike, each line in its own currency with
+// optional photos of the receipt. Like service records, it is private to the owner and admins.
+const COST_KINDS = ['parts', 'labour'];
+const DEFAULT_CURRENCY = 'IDR';
+const MAX_RECEIPTS = 5;
+
+// `stored` are the receipts the entry already has, which may be kept as they are
+function normalizeCostEntry(body: any, user: SessionUser, stored: string[] = []): { entry: any } | { error: string } {
+  if (!isIsoDate(body.date)) return { error: 'Cost date must be a YYYY-MM-DD date' };
+  const description = String(body.description || '').trim();
+  if (!description) return { error: 'Missing description' };
+  const amount = Number(body.amount);
+  if (body.amount === '' || body.amount == null || !Number.isFinite(amount) || amount < 0) {
+    return { error: 'Amount must be a number of at least 0' };
+  }
+  const currency = String(body.currency || DEFAULT_CURRENCY).trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(currency)) return { error: 'Currency must be a three-letter code such as IDR' };
+  if (body.receipts != null && !Array.isArray(body.receipts)) return { error: 'Receipts must be a list' };
+  const receipts = [...new Set<string>(body.receipts || [])];
+  if (receipts.length > MAX_RECEIPTS) return { error: `A cost entry can have at most ${MAX_RECEIPTS} receipts` };
+  // Receipts go through /api/upload like any other photo; outside links aren't kept, and an older
+  // single-file upload is only taken from the user who stored it
+  const isReceipt = (url: unknown) => typeof url === 'string' &&
+    (!!pipelineBase(url) || stored.includes(url) || (url.startsWith('/uploads/') && ownsUpload(url, user)));
+  if (!receipts.every(isReceipt)) {
+    return { error: 'Receipts must be uploaded images' };
+  }
+  const kind = String(body.kind || '').toLowerCase();
+
+  return {
+    entry: {
+      date: body.date,
+      description,
+      kind: COST_KINDS.includes(kind) ? kind : 'parts',
+      category: normalizeModificationCategory(body.category),
+      amount,
+      currency,
+      vendor: String(body.vendor || '').trim(),
+      notes: body.notes || '',
+      receipts
+    }
+  };
+}
+
+// Replaces an entry's receipts and deletes the files of the ones that were dropped
+function setCostReceipts(entryId: number | bigint, urls: string[], uploaderId: number | null) {
+  const previous = (db.prepare('SELECT url FROM cost_receipts WHERE cost_entry_id = ?').all(entryId) as any[]).map(row => row.url);
+  db.prepare('DELETE FROM cost_receipts WHERE cost_entry_id = ?').run(entryId);
+  const insert = db.prepare('INSERT INTO cost_receipts (cost_entry_id, url, position) VALUES (?, ?, ?)');
+  urls.forEach((url, position) => insert.run(entryId, url, position));
+  removeUnreferencedUploads(previous.filter(url => !urls.includes(url)), uploaderId);
+}
+
+function formatCostEntry(row: any, receipts: string[]) {
+  return {
+    id: row.id,
+    date: row.date,
+    description: row.description,
+    kind: row.kind,
+    category: row.category,
+    amount: row.amount,
+    currency: row.currency,
+    vendor: row.vendor || '',
+    notes: row.notes || '',
+    receipts
+  };
+}
+
+function getCostEntries(motorcycleId: string) {
+  const rows: any[] = db.prepare('SELECT * FROM cost_entries WHERE motorcycle_id = ? ORDER BY date DESC, id DESC').all(motorcycleId);
+  const receipts = new Map<number, string[]>();
+  const receiptRows: any[] = db.prepare(`
+    SELECT r.cost_entry_id, r.url FROM cost_receipts r
+    JOIN cost_entries e ON e.id = r.cost_entry_id
+    WHERE e.motorcycle_id = ? ORDER BY r.position
+  `).all(motorcycleId);
+  for (const row of receiptRows) {
+    if (!receipts.has(row.cost_entry_id)) receipts.set(row.cost_entry_id, []);
+    receipts.get(row.cost_entry_id)!.push(row.url);
+  }
+  return rows.map(row => formatCostEntry(row, receipts.get(row.id) || []));
+}
+
+type CostGroup = 'bike' | 'category' | 'month';
+
+const COST_GROUPS: Record<CostGroup, { key: string, label: string }> = {
+  bike: { key: 'm.id', label: 'm.name' },
+  category: { key: 'e.category', label: 'e.category' },
+  month: { key: 'substr(e.date, 1, 7)', label: 'substr(e.date, 1, 7)' },
+};
+
+/**
+ * Sums the ledger by bike, category or month (YYYY-MM). Amounts are never converted, so every
+ * group has one row per currency and the grand totals are per currency too. Trashed bikes are
+ * left out. `scope` limits the report to one bike or to one owner's bikes.
+ */
+function costReport(groupBy: CostGroup, scope: { motorcycleId?: string, ownerId?: number }) {
+  const { key, label } = COST_GROUPS[groupBy];
+  const where = ['m.deleted_at IS NULL'];
+  const params: unknown[] = [];
+  if (scope.motorcycleId) {
+    where.push('m.id = ?');
+    params.push(scope.motorcycleId);
+  }
+  if (scope.ownerId !== undefined) {
+    where.push('m.owner_id = ?');
+    params.push(scope.ownerId);
+  }
+  const from = `FROM cost_entries e JOIN motorcycles m ON m.id = e.motorcycle_id WHERE ${where.join(' AND ')}`;
+
+  const groups = db.prepare(`
+    SELECT ${key} AS key, ${label} AS label, e.currency, SUM(e.amount) AS total, COUNT(*) AS count
+    ${from}
+    GROUP BY ${key}, e.currency
+    ORDER BY ${groupBy === 'month' ? 'key' : 'total DESC'}
+  `).all(...params);
+  const totals = db.prepare(`
+    SELECT e.currency, SUM(e.amount) AS total, COUNT(*) AS count ${from} GROUP BY e.currency ORDER BY total DESC
+  `).all(...params);
+  return { groupBy, groups, totals };
+}
+
+function getCostLedger(motorcycleId: string) {
+  const byCategory = costReport('category', { motorcycleId });
+  return {
+    entries: getCostEntries(motorcycleId),
+    totals: byCategory.totals,
+    byCategory: byCategory.groups,
+    byMonth: costReport('month', { motorcycleId }).groups
+  };
+}
+
+function costReportCsv(report: ReturnType<typeof costReport>) {
+  const heading = { bike: 'Bike', category: 'Category', month: 'Month' }[report.groupBy];
+  return toCsv([
+    [heading, 'Currency', 'Total', 'Entries'],
+    ...(report.groups as any[]).map(row => [row.label, row.currency, row.total, row.count]),
+    ...(report.totals as any[]).map(row => ['Total', row.currency, row.total, row.count])
+  ]);
+}
+
+function purgeExpiredSessions() {
+  db.prepare('DELETE FROM sessions WHERE expires_at < ?').run(Date.now());
+}
+
+purgeExpiredSessions();
+
+const SESSION_COOKIE = 'garage_session';
+const SESSION_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+interface SessionUser {
+  id: number;
+  username: string;
+  role: 'admin' | 'member';
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: SessionUser;
+    }
+  }
+}
+
+function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+// Only a hash of the token is stored, so a leaked database can't be used to hijack sessions
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+function createSession(res: express.Response, userId: number) {
+  const token = crypto.randomBytes(32).toString('base64url');
+  db.prepare('INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)')
+    .run(hashToken(token), userId, Date.now() + SESSION_TTL);
+  // SameSite=Lax keeps other sites from riding the session on POST requests
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: SESSION_TTL,
+    path: '/'
+  });
+}
+
+function readCookie(req: express.Request, name: string) {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key !== name) continue;
+    // A mangled cookie counts as no cookie rather than failing every request
+    try {
+      return decodeURIComponent(value.join('='));
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+function formatUser(row: any): SessionUser {
+  return { id: row.id, username: row.username, role: row.role };
+}
+
+function loadSession(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const token = readCookie(req, SESSION_COOKIE);
+  if (token) {
+    const row: any = db.prepare(`
+      SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id
+      WHERE sessions.token_hash = ? AND sessions.expires_at > ?
+    `).get(hashToken(token), Date.now());
+    if (row) req.user = formatUser(row);
+  }
+  next();
+}
+
+function requireAuth(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Login required' });
+  }
+  next();
+}
+
+function ownerGuard({ allowTrashed }: { allowTrashed: boolean }) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Login required' });
+    }
+    const bike: any = db.prepare('SELECT owner_id, deleted_at FROM motorcycles WHERE id = ?').get(req.params.id);
+    if (!bike || (bike.deleted_at && !allowTrashed)) {
+      return res.status(404).json({ error: 'Motorcycle not found' });
+    }
+    if (req.user.role !== 'admin' && bike.owner_id !== req.user.id) {
+      return res.status(403).json({ error: 'Only the owner can modify this motorcycle' });
+    }
+    next();
+  };
+}
+
+// Guards every write under /api/motorcycles/:id: only the bike's owner or an admin may change it,
+// and a bike in the trash is left alone until it is restored
+const requireOwner = ownerGuard({ allowTrashed: false });
+// For restoring and purging, the only things that can happen to a bike in the trash
+const requireTrashOwner = ownerGuard({ allowTrashed: true });
+
+function requireAdmin(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Login required' });
+  }
+  if (req.user.role !== 'admin') {
+    return res.status(403).json({ error: 'Only admins can do this' });
+  }
+  next();
+}
+
+// Brands (categories) and build styles are lists managed by admins. Bikes store the name,
+// so search and history keep working as plain text; renames are carried over to the bikes.
+interface Taxonomy {
+  table: 'categories' | 'styles';
+  // Column on motorcycles holding the name
+  column: 'category' | 'style';
+  label: string;
+  hasLogo: boolean;
+}
+
+const TAXONOMIES: Record<string, Taxonomy> = {
+  categories: { table: 'categories', column: 'category', label: 'Category', hasLogo: true },
+  styles: { table: 'styles', column: 'style', label: 'Style', hasLogo: false },
+};
+
+// First boot: the brands the app used to hardcode, plus whatever older bikes already use
+(() => {
+  const { count }: any = db.prepare('SELECT COUNT(*) AS count FROM categories').get();
+  if (count > 0) return;
+  const used = (db.prepare('SELECT DISTINCT category FROM motorcycles').all() as any[]).map(row => row.category);
+  const insert = db.prepare('INSERT OR IGNORE INTO categories (name, slug, sort_order) VALUES (?, ?, ?)');
+  [...new Set(['Yamaha', 'Suzuki', 'Honda', 'Piaggio', ...used])].forEach((name, index) => {
+    insert.run(name, slugify(name) || `category-${index + 1}`, index);
+  });
+})();
+
+(() => {
+  const { count }: any = db.prepare('SELECT COUNT(*) AS count FROM styles').get();
+  if (count > 0) return;
+  const insert = db.prepare('INSERT INTO styles (name, slug, sort_order) VALUES (?, ?, ?)');
+  ['Cafe Racer', 'Bobber', 'Scrambler', 'Tracker', 'Chopper', 'Brat Style'].forEach((name, index) => {
+    insert.run(name, slugify(name), index);
+  });
+})();
+
+function formatTaxonomyItem(taxonomy: Taxonomy, row: any) {
+  return {
+    id: row.id,
+    name: row.name,
+    slug: row.slug,
+    ...(taxonomy.hasLogo ? { logo: row.logo || null } : {}),
+    sortOrder: row.sort_order,
+    bikeCount: row.bike_count ?? 0
+  };
+}
+
+function listTaxonomy(taxonomy: Taxonomy) {
+  return (db.prepare(`
+    SELECT t.*, (SELECT COUNT(*) FROM motorcycles m WHERE m.${taxonomy.column} = t.name AND m.deleted_at IS NULL) AS bike_count
+    FROM ${taxonomy.table} t ORDER BY t.sort_order, t.name
+  `).all() as any[]).map(row => formatTaxonomyItem(taxonomy, row));
+}
+
+/**
+ * Checks a bike's category (required) and style (optional) against the managed lists and
+ * rewrites them to the stored spelling. Returns the message for the failing field, or null when valid.
+ */
+function normalizeTaxonomyFields(bike: any): FieldErrors | null {
+  const category: any = typeof bike.category === 'string' && bike.category.trim()
+    ? db.prepare('SELECT name FROM categories WHERE name = ? OR slug = ?').get(bike.category.trim(), bike.category.trim())
+    : null;
+  if (!category) {
+    return { category: bike.category ? `Unknown category: ${bike.category}` : 'category is required' };
+  }
+  bike.category = category.name;
+
+  if (bike.style === undefined || bike.style === null || bike.style === '') {
+    bike.style = null;
+    return null;
+  }
+  const style: any = typeof bike.style === 'string'
+    ? db.prepare('SELECT name FROM styles WHERE name = ? OR slug = ?').get(bike.style.trim(), bike.style.trim())
+    : null;
+  if (!style) {
+    return { style: `Unknown style: ${bike.style}` };
+  }
+  bike.style = style.name;
+  return null;
+}
+
+// Stock models a build can start from, with their factory specs. A bike points at one through
+// base_model_id and its detail view shows how far the build has moved from the stock figures.
+// category is a brand name, like on motorcycles; admins keep the catalog.
+function formatBaseModel(row: any) {
+  return {
+    id: row.id,
+    category: row.category,
+    name: row.name,
+    slug: row.slug,
+    yearFrom: row.year_from,
+    yearTo: row.year_to,
+    specs: Object.fromEntries(SPEC_KEYS.map(key => [key, row[key] || ''])),
+    specData: formatSpecData(row)
+  };
+}
+
+function listBaseModels() {
+  return (db.prepare('SELECT * FROM base_models ORDER BY category, name').all() as any[]).map(formatBaseModel);
+}
+
+function insertBaseModel(model: { category: string, name: string, slug: string, yearFrom: number | null, yearTo: number | null, specs: Partial<Record<SpecKey, string>> }) {
+  const { lastInsertRowid } = db.prepare('INSERT INTO base_models (category, name, slug, year_from, year_to) VALUES (?, ?, ?, ?, ?)')
+    .run(model.category, model.name, model.slug, model.yearFrom, model.yearTo);
+  writeSpecs(Number(lastInsertRowid), model.specs, 'base_models');
+  return Number(lastInsertRowid);
+}
+
+// First boot: common starting points for local builds, with the factory figures usually quoted
+// for them. Models of a brand that isn't in the list are left out.
+const BASE_MODEL_SEED: { category: string, name: string, yearFrom: number, yearTo: number | null, specs: Record<SpecKey, string> }[] = [
+  { category: 'Yamaha', name: 'RX-King', yearFrom: 1983, yearTo: 2009, specs: { engine: '132 cc', power: '18.3 PS @ 8500 rpm', torque: '15.7 Nm @ 7500 rpm', weight: '101 kg', topSpeed: '125 km/h' } },
+  { category: 'Yamaha', name: 'Scorpio Z', yearFrom: 2006, yearTo: 2017, specs: { engine: '223 cc', power: '19 PS @ 7500 rpm', torque: '19.2 Nm @ 6500 rpm', weight: '128 kg', topSpeed: '130 km/h' } },
+  { category: 'Yamaha', name: 'XSR155', yearFrom: 2019, yearTo: null, specs: { engine: '155 cc', power: '19.3 PS @ 10000 rpm', torque: '14.7 Nm @ 8500 rpm', weight: '134 kg', topSpeed: '130 km/h' } },
+  { category: 'Honda', name: 'CB100', yearFrom: 1970, yearTo: 1984, specs: { engine: '99 cc', power: '11.5 PS @ 10500 rpm', torque: '7.8 Nm @ 9000 rpm', weight: '94 kg', topSpeed: '105 km/h' } },
+  { category: 'Honda', name: 'GL Pro', yearFrom: 1986, yearTo: 2004, specs: { engine: '156 cc', power: '13.5 PS @ 8500 rpm', torque: '12.5 Nm @ 7000 rpm', weight: '115 kg', topSpeed: '115 km/h' } },
+  { category: 'Honda', name: 'Tiger', yearFrom: 1993, yearTo: 2013, specs: { engine: '197 cc', power: '16.5 PS @ 8500 rpm', torque: '15.3 Nm @ 6500 rpm', weight: '132 kg', topSpeed: '125 km/h' } },
+  { category: 'Suzuki', name: 'Thunder 125', yearFrom: 2004, yearTo: 2016, specs: { engine: '124 cc', power: '11.2 PS @ 9000 rpm', torque: '9.3 Nm @ 6000 rpm', weight: '109 kg', topSpeed: '110 km/h' } },
+  { category: 'Suzuki', name: 'GS150R', yearFrom: 2008, yearTo: 2018, specs: { engine: '149 cc', power: '14.1 PS @ 8500 rpm', torque: '13.5 Nm @ 6500 rpm', weight: '125 kg', topSpeed: '120 km/h' } },
+  { category: 'Piaggio', name: 'Vespa PX 150', yearFrom: 1977, yearTo: 2016, specs: { engine: '150 cc', power: '8.9 PS @ 6000 rpm', torque: '10.8 Nm @ 5000 rpm', weight: '110 kg', topSpeed: '90 km/h' } },
+];
+
+(() => {
+  const { count }: any = db.prepare('SELECT COUNT(*) AS count FROM base_models').get();
+  if (count > 0) return;
+  const brands = new Set((db.prepare('SELECT name FROM categories').all() as any[]).map(row => row.name));
+  db.transaction(() => {
+    for (const model of BASE_MODEL_SEED.filter(model => brands.has(model.category))) {
+      insertBaseModel({ ...model, slug: slugify(`${model.category} ${model.name}`) });
+    }
+  })();
+})();
+
+/**
+ * Checks the body of POST /api/base-models or a PATCH merged over the stored model. Returns the
+ * model with the stored brand spelling and its slug, or the message for every failing field.
+ */
+function checkBaseModel(input: any): { model: any } | { errors: FieldErrors } {
+  const errors: FieldErrors = {};
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name || name.length > 120) errors.name = 'name is required (at most 120 characters)';
+  const category: any = typeof input.category === 'string' && input.category.trim()
+    ? db.prepare('SELECT name FROM categories WHERE name = ? OR slug = ?').get(input.category.trim(), input.category.trim())
+    : null;
+  if (!category) errors.category = input.category ? `Unknown category: ${input.category}` : 'category is required';
+
+  const maxYear = new Date().getFullYear() + 1;
+  const readYear = (field: 'yearFrom' | 'yearTo') => {
+    const value = input[field];
+    if (value === undefined || value === null || value === '') return null;
+    if (!Number.isInteger(value) || value < MIN_YEAR || value > maxYear) {
+      errors[field] = `${field} must be a whole number from ${MIN_YEAR} to ${maxYear}`;
+    }
+    return value;
+  };
+  const yearFrom = readYear('yearFrom');
+  const yearTo = readYear('yearTo');
+  if (!errors.yearFrom && !errors.yearTo && yearFrom !== null && yearTo !== null && yearTo < yearFrom) {
+    errors.yearTo = 'yearTo must not be before yearFrom';
+  }
+
+  const specs = input.specs && typeof input.specs === 'object' && !Array.isArray(input.specs) ? input.specs : {};
+  for (const key of SPEC_KEYS) {
+    const value = specs[key] ?? '';
+    if (typeof value !== 'string' || value.trim().length > MOTORCYCLE_SCHEMA.specs.maxLength) {
+      errors[`specs.${key}`] = `specs.${key} must be text of at most ${MOTORCYCLE_SCHEMA.specs.maxLength} characters`;
+    }
+  }
+  if (Object.keys(errors).length > 0) return { errors };
+
+  const slug = slugify(`${category.name} ${name}`);
+  if (!slug) return { errors: { name: 'name needs at least one letter or digit' } };
+  return {
+    model: {
+      category: category.name,
+      name,
+      slug,
+      yearFrom,
+      yearTo,
+      specs: Object.fromEntries(SPEC_KEYS.map(key => [key, (specs[key] ?? '').trim()]))
+    }
+  };
+}
+
+// Replaces the tags of a bike; tags no bike uses any more are dropped
+function setBikeTags(motorcycleId: string, names: string[]) {
+  const findTag = db.prepare('SELECT id FROM tags WHERE name = ? OR slug = ?');
+  const insertTag = db.prepare('INSERT INTO tags (name, slug) VALUES (?, ?)');
+  const link = db.prepare('INSERT OR IGNORE INTO motorcycle_tags (motorcycle_id, tag_id) VALUES (?, ?)');
+  db.prepare('DELETE FROM motorcycle_tags WHERE motorcycle_id = ?').run(motorcycleId);
+  for (const name of names) {
+    const slug = slugify(name);
+    const existing: any = findTag.get(name, slug);
+    link.run(motorcycleId, existing ? existing.id : insertTag.run(name, slug).lastInsertRowid);
+  }
+  db.exec('DELETE FROM tags WHERE id NOT IN (SELECT tag_id FROM motorcycle_tags)');
+}
+
+function getTags(motorcycleId: string) {
+  return (db.prepare(`
+    SELECT tags.name FROM motorcycle_tags JOIN tags ON tags.id = motorcycle_tags.tag_id
+    WHERE motorcycle_id = ? ORDER BY tags.name
+  `).all(motorcycleId) as any[]).map(row => row.name);
+}
+
+// Soft delete: trashed bikes keep their row until restored or purged
+const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+const DAY = 24 * 60 * 60 * 1000;
+
+// Who stored an upload; see migrations/0007. Pipeline URLs of any size are recorded as the full JPEG.
+function uploadKey(url: string) {
+  const base = variantBase(url);
+  return base ? variantUrl(base, 'full', 'jpg') : url;
+}
+
+function recordUpload(url: string, uploaderId: number | null) {
+  db.prepare('INSERT OR IGNORE INTO uploads (url, owner_id) VALUES (?, ?)').run(uploadKey(url), uploaderId);
+}
+
+function ownsUpload(url: string, user: SessionUser) {
+  const upload: any = db.prepare('SELECT owner_id FROM uploads WHERE url = ?').get(uploadKey(url));
+  return !!upload && upload.owner_id === user.id;
+}
+
+// Whose uploads a request may delete: its own, or anyone's for an admin
+const uploaderScope = (user: SessionUser) => user.role === 'admin' ? null : user.id;
+
+/**
+ * Removes files in uploads/ that no gallery, receipt, cover, brand logo or revision refers to any
+ * more. A reference to any size of a pipeline image keeps all of them. With an `uploaderId` only
+ * that user's uploads are removed, so a URL copied from someone else's bike can't take their
+ * files with it; admins and background jobs pass null.
+ */
+function removeUnreferencedUploads(urls: string[], uploaderId: number | null) {
+  for (const url of new Set(urls.filter(url => url.startsWith('/uploads/')).map(uploadKey))) {
+    const upload: any = db.prepare('SELECT owner_id FROM uploads WHERE url = ?').get(url);
+    if (uploaderId !== null && upload?.owner_id !== uploaderId) continue;
+    const base = pipelineBase(url);
+    const prefix = base ? `/uploads/${base}-` : url;
+    // A rollback must never bring back a cover whose file is gone
+    const stillUsed = db.prepare(`
+      SELECT 1 FROM (
+        SELECT url AS ref FROM motorcycle_images
+        UNION ALL SELECT url FROM cost_receipts
+        UNION ALL SELECT image FROM motorcycles
+        UNION ALL SELECT logo FROM categories
+        UNION ALL SELECT json_extract(snapshot, '$.image') FROM motorcycle_revisions
+      )
+      WHERE ref = ? OR substr(ref, 1, length(?)) = ?
+      LIMIT 1
+    `).get(url, prefix, prefix);
+    if (stillUsed) continue;
+    db.prepare('DELETE FROM uploads WHERE url = ?').run(url);
+    for (const fileName of uploadFilesFor(url)) {
+      const filePath = path.join(uploadsDir, fileName);
+      fs.rm(filePath, { force: true }, (error) => {
+        if (error) console.error('Failed to remove upload:', filePath, error);
+      });
+    }
+  }
+}
+
+// Permanently deletes a bike; images and log entries go with it through ON DELETE CASCADE
+function purgeMotorcycle(id: string, uploaderId: number | null) {
+  const urls = (db.prepare(`
+    SELECT url FROM motorcycle_images WHERE motorcycle_id = ?
+    UNION SELECT r.url FROM cost_receipts r JOIN cost_entries e ON e.id = r.cost_entry_id WHERE e.motorcycle_id = ?
+    UNION SELECT json_extract(snapshot, '$.image') FROM motorcycle_revisions WHERE motorcycle_id = ?
+  `).all(id, id, id) as any[]).map(row => row.url).filter((url: unknown): url is string => typeof url === 'string');
+  const bike: any = db.prepare('SELECT image FROM motorcycles WHERE id = ?').get(id);
+  if (bike?.image) urls.push(bike.image);
+  const result = db.prepare('DELETE FROM motorcycles WHERE id = ?').run(id);
+  removeUnreferencedUploads(urls, uploaderId);
+  return result.changes > 0;
+}
+
+function purgeExpiredTrash() {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * DAY).toISOString();
+  const expired = db.prepare('SELECT id FROM motorcycles WHERE deleted_at IS NOT NULL AND deleted_at < ?').all(cutoff) as any[];
+  for (const { id } of expired) {
+    purgeMotorcycle(id, null);
+  }
+  if (expired.length > 0) {
+    console.log(`Purged ${expired.length} motorcycle(s) from trash`);
+  }
+}
+
+const badRequest = (message: string) => Object.assign(new Error(message), { status: 400 });
+
+const SORT_FIELDS: Record<string, { expr: string, order: 'asc' | 'desc', nullable?: boolean }> = {
+  created: { expr: 'm.created_at', order: 'desc' },
+  name: { expr: 'm.name COLLATE NOCASE', order: 'asc' },
+  year: { expr: 'm.year', order: 'desc' },
+  relevance: { expr: 'bm25(motorcycles_fts)', order: 'asc' },
+  ...Object.fromEntries(SPEC_KEYS.map(key => [key, { expr: `m.${key}_base`, order: 'desc' as const, nullable: true }]))
+};
+
+const PAGE_SIZE = 12;
+const MAX_PAGE_SIZE = 50;
+
+// Every word must match, as a prefix so "knal" finds "knalpot"
+function toFtsQuery(text: string) {
+  return text.split(/\s+/).map(word => word.replace(/"/g, '')).filter(Boolean).map(word => `"${word}"*`).join(' ');
+}
+
+function parseNumberParam(query: any, name: string) {
+  if (query[name] === undefined || query[name] === '') return undefined;
+  const value = Number(query[name]);
+  if (!Number.isFinite(value)) throw badRequest(`${name} must be a number`);
+  return value;
+}
+
+function encodeCursor(value: unknown, rowid: number) {
+  return Buffer.from(JSON.stringify([value, rowid])).toString('base64url');
+}
+
+function decodeCursor(cursor: string) {
+  try {
+    const [value, rowid] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof rowid !== 'number') throw new Error();
+    return { value, rowid };
+  } catch {
+    throw badRequest('Invalid cursor');
+  }
+}
+
+/**
+ * Builds the search for GET /api/motorcycles from its query string:
+ * q, category, style, tags/tagMode, yearMin/yearMax, <spec>Min/<spec>Max (in base units), sort, order, cursor, limit.
+ * Pagination is keyset based on (sort value, rowid) so pages stay stable while bikes are added.
+ */
+function searchMotorcycles(query: any) {
+  const where: string[] = ['m.deleted_at IS NULL', PUBLISHED_SQL];
+  const params: unknown[] = [];
+  const search = toFtsQuery(String(query.q || ''));
+
+  if (search) {
+    where.push('motorcycles_fts MATCH ?');
+    params.push(search);
+  }
+  // category and style accept a slug or a name
+  for (const taxonomy of Object.values(TAXONOMIES)) {
+    const value = query[taxonomy.column];
+    if (value) {
+      where.push(`m.${taxonomy.column} IN (SELECT name FROM ${taxonomy.table} WHERE slug = ? OR name = ?)`);
+      params.push(String(value), String(value));
+    }
+  }
+  // tags=<slug>,<slug> with tagMode=and (every tag, the default) or or (any of them)
+  const tagSlugs = [...new Set(String(query.tags || '').split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+  if (tagSlugs.length > 0) {
+    const tagMode = String(query.tagMode || 'and');
+    if (tagMode !== 'and' && tagMode !== 'or') {
+      throw badRequest('tagMode must be "and" or "or"');
+    }
+    where.push(`m.id IN (
+      SELECT motorcycle_tags.motorcycle_id FROM motorcycle_tags JOIN tags ON tags.id = motorcycle_tags.tag_id
+      WHERE tags.slug IN (${tagSlugs.map(() => '?').join(', ')})
+      GROUP BY motorcycle_tags.motorcycle_id
+      ${tagMode === 'and' ? 'HAVING COUNT(*) = ?' : ''}
+    )`);
+    params.push(...tagSlugs, ...(tagMode === 'and' ? [tagSlugs.length] : []));
+  }
+  const ranges: [string, string][] = [['year', 'm.year'], ...SPEC_KEYS.map(key => [key, `m.${key}_base`] as [string, string])];
+  for (const [name, column] of ranges) {
+    const min = parseNumberParam(query, `${name}Min`);
+    const max = parseNumberParam(query, `${name}Max`);
+    if (min !== undefined) {
+      where.push(`${column} >= ?`);
+      params.push(min);
+    }
+    if (max !== undefined) {
+      where.push(`${column} <= ?`);
+      params.push(max);
+    }
+  }
+
+  const sortName = String(query.sort || (search ? 'relevance' : 'created'));
+  const sort = SORT_FIELDS[sortName];
+  if (!sort || (sortName === 'relevance' && !search)) {
+    throw badRequest(`Unknown sort field: ${sortName}`);
+  }
+  if (query.order && query.order !== 'asc' && query.order !== 'desc') {
+    throw badRequest('order must be asc or desc');
+  }
+  const order: 'asc' | 'desc' = query.order || sort.order;
+  // Bikes without a parsed value for the sorted spec always go last
+  const sortExpr = sort.nullable ? `COALESCE(${sort.expr}, ${order === 'desc' ? '-1e308' : '1e308'})` : sort.expr;
+
+  const from = search
+    ? 'FROM motorcycles m JOIN motorcycles_fts ON motorcycles_fts.rowid = m.rowid'
+    : 'FROM motorcycles m';
+  const filterSql = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+  const { total }: any = db.prepare(`SELECT COUNT(*) AS total ${from} ${filterSql}`).get(...params);
+
+  const pageWhere = [...where];
+  const pageParams = [...params];
+  if (query.cursor) {
+    const cursor = decodeCursor(String(query.cursor));
+    const cmp = order === 'desc' ? '<' : '>';
+    pageWhere.push(`(${sortExpr} ${cmp} ? OR (${sortExpr} = ? AND m.rowid ${cmp} ?))`);
+    pageParams.push(cursor.value, cursor.value, cursor.rowid);
+  }
+
+  const requestedLimit = parseNumberParam(query, 'limit') ?? PAGE_SIZE;
+  if (!Number.isInteger(requestedLimit)) throw badRequest('limit must be an integer');
+  const limit = Math.min(Math.max(requestedLimit, 1), MAX_PAGE_SIZE);
+  const rows: any[] = db.prepare(`
+    SELECT m.*, m.rowid AS _rowid, ${sortExpr} AS _sort ${from}
+    ${pageWhere.length > 0 ? `WHERE ${pageWhere.join(' AND ')}` : ''}
+    ORDER BY _sort ${order}, m.rowid ${order}
+    LIMIT ?
+  `).all(...pageParams, limit + 1);
+
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    rows: page,
+    total,
+    nextCursor: hasMore ? encodeCursor(last._sort, last._rowid) : null
+  };
+}
+
+function getImages(motorcycleId: string) {
+  return db.prepare('SELECT * FROM motorcycle_images WHERE motorcycle_id = ? ORDER BY position, id')
+    .all(motorcycleId)
+    .map(formatImage);
+}
+
+function formatImage(row: any) {
+  return {
+    id: row.id,
+    url: row.url,
+    caption: row.caption || '',
+    position: row.position,
+    isCover: !!row.is_cover,
+    sourceUrl: row.source_url || null
+  };
+}
+
+function formatBike(bike: any, relations: { images: any[], modificationLog: any[], tags: string[] }) {
+  return {
+    id: bike.id,
+    name: bike.name,
+    category: bike.category,
+    style: bike.style || null,
+    year: bike.year,
+    description: bike.description,
+    modifications: bike.modifications,
+    image: bike.image,
+    ownerId: bike.owner_id,
+    deletedAt: bike.deleted_at,
+    updatedAt: bike.updated_at,
+    forkedFrom: bike.forked_from || null,
+    status: bike.status,
+    publishAt: bike.publish_at || null,
+    baseModelId: bike.base_model_id ?? null,
+    images: relations.images,
+    modificationLog: relations.modificationLog,
+    tags: relations.tags,
+    specs: {
+      engine: bike.engine,
+      power: bike.power,
+      torque: bike.torque,
+      weight: bike.weight,
+      topSpeed: bike.topSpeed
+    },
+    specData: formatSpecData(bike)
+  };
+}
+
+function groupByBike<T>(rows: any[], format: (row: any) => T) {
+  const grouped = new Map<string, T[]>();
+  for (const row of rows) {
+    if (!grouped.has(row.motorcycle_id)) grouped.set(row.motorcycle_id, []);
+    grouped.get(row.motorcycle_id)!.push(format(row));
+  }
+  return grouped;
+}
+
+function getBike(id: string) {
+  const bike = db.prepare('SELECT * FROM motorcycles WHERE id = ?').get(id);
+  if (!bike) return null;
+  return formatBike(bike, {
+    images: getImages(id),
+    modificationLog: getModificationLog(id),
+    tags: getTags(id)
+  });
+}
+
+// Public means published and past its publish time. Drafts, archived bikes and scheduled ones are
+// only seen by their owner and admins. The SQL form expects the table to be aliased as m.
+const PUBLISHED_SQL = `m.status = 'published' AND (m.publish_at IS NULL OR m.publish_at <= strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))`;
+
+function isPublished(bike: { status: string, publishAt: string | null }) {
+  return bike.status === 'published' && (!bike.publishAt || Date.parse(bike.publishAt) <= Date.now());
+}
+
+function canView(bike: { ownerId: number | null, status: string, publishAt: string | null }, user: SessionUser | undefined) {
+  return isPublished(bike) || (!!user && (user.role === 'admin' || bike.ownerId === user.id));
+}
+
+// The bike behind a read route, or null when it doesn't exist, is in the trash or `user` may not see it
+function getViewableBike(id: string, user: SessionUser | undefined) {
+  const bike = getBike(id);
+  return bike && !bike.deletedAt && canView(bike, user) ? bike : null;
+}
+
+// Always later than the stored version, so two saves within the same millisecond still differ
+function nextUpdatedAt(id: string) {
+  const row: any = db.prepare('SELECT updated_at FROM motorcycles WHERE id = ?').get(id);
+  const previous = row?.updated_at ? Date.parse(row.updated_at) : 0;
+  return new Date(Math.max(Date.now(), previous + 1)).toISOString();
+}
+
+function bikeETag(bike: { updatedAt: string }) {
+  return `"${bike.updatedAt}"`;
+}
+
+/**
+ * The versions a save may overwrite: the ETags in If-Match, or `updatedAt` in the body for
+ * clients that send the bike back as they loaded it. Null means the client didn't ask for a check.
+ */
+function expectedVersions(req: express.Request): string[] | null {
+  const header = req.get('If-Match');
+  if (header) {
+    if (header.trim() === '*') return null;
+    return header.split(',').map(tag => tag.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1'));
+  }
+  return typeof req.body?.updatedAt === 'string' ? [req.body.updatedAt] : null;
+}
+
+// Writes the editable columns of a bike and moves it to a new version; shared by PUT, PATCH and
+// revision rollback
+function updateMotorcycle(id: string, bike: any) {
+  const stmt = db.prepare(`
+    UPDATE motorcycles 
+    SET name = ?, category = ?, style = ?, year = ?, description = ?, image = ?, 
+        engine = ?, power = ?, torque = ?, weight = ?, topSpeed = ?, updated_at = ?
+    WHERE id = ?
+  `);
+  stmt.run(
+    bike.name,
+    bike.category,
+    bike.style ?? null,
+    bike.year,
+    bike.description,
+    bike.image,
+    bike.specs.engine,
+    bike.specs.power,
+    bike.specs.torque,
+    bike.specs.weight,
+    bike.specs.topSpeed,
+    nextUpdatedAt(id),
+    id
+  );
+  writeSpecs(id, bike.specs);
+  setCoverUrl(id, bike.image, bike.imageSourceUrl);
+  // Leaves tags alone when they aren't sent (older clients and pre-tag revisions)
+  if (Array.isArray(bike.tags)) setBikeTags(id, bike.tags);
+  // Same for the status, which revisions don't record, so a rollback never publishes or hides a bike
+  if (bike.status !== undefined) {
+    db.prepare('UPDATE motorcycles SET status = ?, publish_at = ? WHERE id = ?').run(bike.status, bike.publishAt ?? null, id);
+  }
+  if (bike.baseModelId !== undefined) {
+    db.prepare('UPDATE motorcycles SET base_model_id = ? WHERE id = ?').run(bike.baseModelId, id);
+  }
+}
+
+// With `mirrorImage: true` an external cover URL is swapped for a local copy before saving
+async function mirrorBikeImage(bike: any, uploaderId: number) {
+  if (!bike.mirrorImage || !isRemoteUrl(bike.image)) return;
+  bike.imageSourceUrl = bike.image;
+  bike.image = await mirrorRemoteImage(bike.image, uploaderId);
+}
+
+// The fields PUT overwrites; galleries and the modification log keep their own records
+const REVISION_FIELDS = ['name', 'category', 'style', 'year', 'description', 'image', 'tags', ...SPEC_KEYS.map(key => `specs.${key}`)];
+
+function takeSnapshot(id: string) {
+  const bike: any = db.prepare('SELECT * FROM motorcycles WHERE id = ?').get(id);
+  return {
+    name: bike.name,
+    category: bike.category,
+    style: bike.style,
+    year: bike.year,
+    description: bike.description,
+    image: bike.image,
+    tags: getTags(id),
+    specs: Object.fromEntries(SPEC_KEYS.map(key => [key, bike[key] || '']))
+  };
+}
+
+// action is 'create', 'update', 'rollback', or 'baseline' for the state of a bike saved before history existed
+function recordRevision(id: string, editorId: number | null, action: string) {
+  db.prepare('INSERT INTO motorcycle_revisions (motorcycle_id, editor_id, action, snapshot, created_at) VALUES (?, ?, ?, ?, ?)')
+    .run(id, editorId, action, JSON.stringify(takeSnapshot(id)), new Date().toISOString());
+}
+
+function ensureBaselineRevision(id: string) {
+  const existing = db.prepare('SELECT 1 FROM motorcycle_revisions WHERE motorcycle_id = ? LIMIT 1').get(id);
+  if (!existing) recordRevision(id, null, 'baseline');
+}
+
+function formatRevision(row: any) {
+  return {
+    id: row.id,
+    action: row.action,
+    createdAt: row.created_at,
+    editor: row.editor_id ? { id: row.editor_id, username: row.username } : null,
+    snapshot: JSON.parse(row.snapshot)
+  };
+}
+
+function getRevision(motorcycleId: string, revisionId: unknown) {
+  const row = db.prepare(`
+    SELECT motorcycle_revisions.*, users.username FROM motorcycle_revisions
+    LEFT JOIN users ON users.id = motorcycle_revisions.editor_id
+    WHERE motorcycle_revisions.id = ? AND motorcycle_id = ?
+  `).get(revisionId, motorcycleId);
+  return row ? formatRevision(row) : null;
+}
+
+function diffSnapshots(before: any, after: any) {
+  const read = (snapshot: any, field: string) => {
+    const value = field.split('.').reduce((value, key) => value?.[key], snapshot) ?? '';
+    return Array.isArray(value) ? value.join(', ') : value;
+  };
+  return REVISION_FIELDS
+    .map(field => ({ field, before: read(before, field), after: read(after, field) }))
+    .filter(change => change.before !== change.after);
+}
+
+// Keeps exactly one cover per bike and mirrors its URL into motorcycles.image for the grid card
+function syncCover(motorcycleId: string) {
+  const images: any[] = db.prepare('SELECT * FROM motorcycle_images WHERE motorcycle_id = ? ORDER BY position, id').all(motorcycleId);
+  let cover = images.find(img => img.is_cover);
+  if (!cover && images.length > 0) {
+    cover = images[0];
+  }
+  db.prepare('UPDATE motorcycle_images SET is_cover = CASE WHEN id = ? THEN 1 ELSE 0 END WHERE motorcycle_id = ?')
+    .run(cover ? cover.id : null, motorcycleId);
+  db.prepare('UPDATE motorcycles SET image = ? WHERE id = ?').run(cover ? cover.url : '', motorcycleId);
+}
+
+// The form still edits a single `image`; make sure that URL is in the gallery and is the cover
+function setCoverUrl(motorcycleId: string, url: string, sourceUrl?: string) {
+  if (!url) return;
+  const existing: any = db.prepare('SELECT id FROM motorcycle_images WHERE motorcycle_id = ? AND url = ?').get(motorcycleId, url);
+  let coverId = existing?.id;
+  if (!coverId && sourceUrl) {
+    // A mirrored copy takes the place of the remote original instead of becoming an extra photo
+    const original: any = db.prepare('SELECT id FROM motorcycle_images WHERE motorcycle_id = ? AND url = ?').get(motorcycleId, sourceUrl);
+    if (original) {
+      db.prepare('UPDATE motorcycle_images SET url = ?, source_url = ? WHERE id = ?').run(url, sourceUrl, original.id);
+      coverId = original.id;
+    }
+  }
+  if (!coverId) {
+    const { maxPos }: any = db.prepare('SELECT MAX(position) AS maxPos FROM motorcycle_images WHERE motorcycle_id = ?').get(motorcycleId);
+    coverId = db.prepare('INSERT INTO motorcycle_images (motorcycle_id, url, position, source_url) VALUES (?, ?, ?, ?)')
+      .run(motorcycleId, url, maxPos === null ? 0 : maxPos + 1, sourceUrl || null).lastInsertRowid;
+  }
+  db.prepare('UPDATE motorcycle_images SET is_cover = CASE WHEN id = ? THEN 1 ELSE 0 END WHERE motorcycle_id = ?')
+    .run(coverId, motorcycleId);
+  syncCover(motorcycleId);
+}
+
+// Share pages. Link previews (WhatsApp, Instagram, ...) don't run JavaScript, so /bike/:id is
+// answered with index.html carrying that build's Open Graph tags and a plain summary, which the
+// app replaces when it boots.
+const SHARE_CARD_WIDTH = 1200;
+const SHARE_CARD_HEIGHT = 630;
+const SHARE_CARD_SPECS: SpecKey[] = ['engine', 'power', 'weight', 'topSpeed'];
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+function truncate(text: string, length: number) {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > length ? clean.slice(0, length - 1).trimEnd() + '…' : clean;
+}
+
+function publicOrigin(req: express.Request) {
+  return process.env.APP_URL?.replace(/\/+$/, '') || `${req.protocol}://${req.get('host')}`;
+}
+
+function shareSpecs(bike: ReturnType<typeof formatBike>) {
+  return SHARE_CARD_SPECS
+    .map(key => formatSpec(key, bike.specData[key], 'metric'))
+    .filter(value => value !== '-');
+}
+
+// Changes whenever something drawn on the card does, so previews don't keep a stale image
+function shareCardVersion(bike: ReturnType<typeof formatBike>) {
+  return crypto.createHash('sha1')
+    .update(JSON.stringify([bike.name, bike.category, bike.year, bike.image, bike.specs]))
+    .digest('hex').slice(0, 10);
+}
+
+function renderSharePage(template: string, bike: ReturnType<typeof formatBike>, origin: string) {
+  const title = `${bike.name} (${bike.year})`;
+  const description = truncate(bike.description || [bike.category, bike.style, ...shareSpecs(bike)].filter(Boolean).join(' · '), 200);
+  const url = `${origin}/bike/${encodeURIComponent(bike.id)}`;
+  const image = `${origin}/api/motorcycles/${encodeURIComponent(bike.id)}/share-card.jpg?v=${shareCardVersion(bike)}`;
+  const meta = [
+    ['name', 'description', description],
+    ['property', 'og:type', 'article'],
+    ['property', 'og:site_name', 'garasikita'],
+    ['property', 'og:title', title],
+    ['property', 'og:description', description],
+    ['property', 'og:url', url],
+    ['property', 'og:image', image],
+    ['property', 'og:image:width', String(SHARE_CARD_WIDTH)],
+    ['property', 'og:image:height', String(SHARE_CARD_HEIGHT)],
+    ['property', 'og:image:alt', bike.name],
+    ['name', 'twitter:card', 'summary_large_image'],
+  ].map(([attr, key, value]) => `<meta ${attr}="${key}" content="${escapeHtml(value)}" />`);
+  const summary = `<article><h1>${escapeHtml(title)}</h1><p>${escapeHtml(description)}</p><img src="${escapeHtml(bike.image)}" alt="${escapeHtml(bike.name)}" width="600" /></article>`;
+
+  return template
+    // Replacer functions, so a "$&" in a build's text isn't read as a substitution pattern
+    .replace(/<title>[\s\S]*?<\/title>/, () => `<title>${escapeHtml(bike.name)} · garasikita</title>`)
+    .replace('</head>', () => `  <link rel="canonical" href="${escapeHtml(url)}" />\n    ${meta.join('\n    ')}\n  </head>`)
+    .replace('<div id="root"></div>', () => `<div id="root">${summary}</div>`);
+}
+
+async function loadCardPhoto(url: string) {
+  try {
+    if (url.startsWith('/uploads/')) return await fs.promises.readFile(path.join(uploadsDir, path.basename(url)));
+    if (isRemoteUrl(url)) return await fetchRemoteImage(url);
+  } catch (error) {
+    console.warn('Share card photo unavailable:', url, (error as Error).message);
+  }
+  return null;
+}
+
+/**
+ * Draws the 1200x630 preview image for a build: its cover photo cropped to fill, darkened
+ * towards the bottom, with the brand, name and key specs written over it. A build without a
+ * usable photo gets the same text on the showroom's dark background.
+ */
+async function renderShareCard(bike: ReturnType<typeof formatBike>) {
+  const photo = await loadCardPhoto(bike.image);
+  const background = photo
+    ? await sharp(photo).rotate().resize(SHARE_CARD_WIDTH, SHARE_CARD_HEIGHT, { fit: 'cover' }).toBuffer().catch(() => null)
+    : null;
+
+  const label = [bike.category, bike.style, bike.year].filter(Boolean).join('  ·  ').toUpperCase();
+  const overlay = `<svg width="${SHARE_CARD_WIDTH}" height="${SHARE_CARD_HEIGHT}" xmlns="http://www.w3.org/2000/svg">
+    <defs>
+      <linearGradient id="shade" x1="0" y1="0" x2="0" y2="1">
+        <stop offset="0.25" stop-color="#000" stop-opacity="0" />
+        <stop offset="1" stop-color="#000" stop-opacity="0.92" />
+      </linearGradient>
+    </defs>
+    <rect width="100%" height="100%" fill="url(#shade)" />
+    <g font-family="Inter, Helvetica, Arial, sans-serif">
+      <text x="64" y="68" font-size="26" font-weight="700" fill="#fff" letter-spacing="2">garasikita</text>
+      <text x="64" y="436" font-size="24" font-weight="700" fill="#10b981" letter-spacing="3">${escapeHtml(label)}</text>
+      <text x="64" y="506" font-size="60" font-weight="800" fill="#fff">${escapeHtml(truncate(bike.name, 34))}</text>
+      <text x="64" y="566" font-size="28" fill="#d4d4d8">${escapeHtml(shareSpecs(bike).join('   ·   '))}</text>
+    </g>
+  </svg>`;
+
+  return sharp(background || {
+    create: { width: SHARE_CARD_WIDTH, height: SHARE_CARD_HEIGHT, channels: 3, background: '#121212' }
+  })
+    .composite([{ input: Buffer.from(overlay) }])
+    .jpeg({ quality: 85, mozjpeg: true })
+    .toBuffer();
+}
+
+// Ids are made here rather than by clients; 64 random bits, checked against the table anyway
+function newMotorcycleId() {
+  let id: string;
+  do {
+    id = crypto.randomBytes(8).toString('base64url');
+  } while (db.prepare('SELECT 1 FROM motorcycles WHERE id = ?').get(id));
+  return id;
+}
+
+// A new bike with everything hanging off it: parsed specs, cover photo, tags, the log built
+// from the modifications text and the first revision
+function insertMotorcycle(bike: any, ownerId: number) {
+  db.prepare(`
+    INSERT INTO motorcycles (id, name, category, style, year, description, modifications, image, engine, power, torque, weight, topSpeed, owner_id, updated_at, forked_from, status, publish_at, base_model_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    bike.id,
+    bike.name,
+    bike.category,
+    bike.style,
+    bike.year,
+    bike.description,
+    bike.modifications,
+    bike.image,
+    bike.specs.engine,
+    bike.specs.power,
+    bike.specs.torque,
+    bike.specs.weight,
+    bike.specs.topSpeed,
+    ownerId,
+    new Date().toISOString(),
+    bike.forkedFrom ?? null,
+    // Clients that predate drafts expect a new bike to show up right away
+    bike.status ?? 'published',
+    bike.publishAt ?? null,
+    bike.baseModelId ?? null
+  );
+  writeSpecs(bike.id, bike.specs);
+  setCoverUrl(bike.id, bike.image, bike.imageSourceUrl);
+  setBikeTags(bike.id, bike.tags || []);
+  insertModificationsFromText(bike.id, bike.modifications || '');
+  syncModificationSummary(bike.id);
+  recordRevision(bike.id, ownerId, 'create');
+}
+
+/**
+ * Inserts `bike` as a copy of `source`: the modification log comes over entry by entry, and with
+ * `withImages` the whole gallery, captions and order included. Photos are shared with the
+ * original rather than copied on disk, since an upload is only removed once no bike uses it.
+ * Costs, service history and revisions stay with the original.
+ */
+function duplicateMotorcycle(source: any, bike: any, ownerId: number, withImages: boolean) {
+  const cover = source.images.find((image: any) => image.url === bike.image);
+  insertMotorcycle({ ...bike, imageSourceUrl: cover?.sourceUrl || undefined }, ownerId);
+  if (withImages) {
+    const insertImage = db.prepare('INSERT INTO motorcycle_images (motorcycle_id, url, caption, position, source_url) VALUES (?, ?, ?, ?, ?)');
+    for (const image of source.images) {
+      if (image.url === bike.image) {
+        db.prepare('UPDATE motorcycle_images SET caption = ?, position = ? WHERE motorcycle_id = ? AND url = ?')
+          .run(image.caption, image.position, bike.id, image.url);
+      } else {
+        insertImage.run(bike.id, image.url, image.caption, image.position, image.sourceUrl);
+      }
+    }
+  }
+  const insertModification = db.prepare(`
+    INSERT INTO modification_entries (motorcycle_id, date, part_name, category, cost, workshop, notes) VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const entry of source.modificationLog) {
+    insertModification.run(bike.id, entry.date, entry.partName, entry.category, entry.cost, entry.workshop, entry.notes);
+  }
+  syncModificationSummary(bike.id);
+}
+
+const MAX_LINEAGE_DEPTH = 20;
+
+// The bikes a build was duplicated from, nearest first, and the builds duplicated from it, as far
+// as `user` may see them
+function getLineage(id: string, user: SessionUser | undefined) {
+  const ancestors: { id: string, name: string | null, available: boolean }[] = [];
+  let row: any = db.prepare('SELECT forked_from FROM motorcycles WHERE id = ?').get(id);
+  while (row?.forked_from && ancestors.length < MAX_LINEAGE_DEPTH) {
+    row = db.prepare('SELECT id, name, owner_id, status, publish_at, deleted_at, forked_from FROM motorcycles WHERE id = ?').get(row.forked_from);
+    if (!row) break;
+    const visible = canView({ ownerId: row.owner_id, status: row.status, publishAt: row.publish_at }, user);
+    ancestors.push({ id: row.id, name: visible ? row.name : null, available: visible && !row.deleted_at });
+  }
+  const forks = (db.prepare('SELECT id, name, owner_id, status, publish_at FROM motorcycles WHERE forked_from = ? AND deleted_at IS NULL ORDER BY created_at, rowid').all(id) as any[])
+    .filter(fork => canView({ ownerId: fork.owner_id, status: fork.status, publishAt: fork.publish_at }, user))
+    .map(fork => ({ id: fork.id, name: fork.name }));
+  return { ancestors, forks };
+}
+
+/**
+ * The shared schema from src/validation plus the checks that need the database, with every
+ * failing field reported at once. On success the bike is trimmed, defaulted and carries the
+ * stored spelling of its brand and style.
+ */
+function checkMotorcycle(input: unknown, { withId }: { withId: boolean }): { bike: any } | { errors: FieldErrors } {
+  const draft: any = input && typeof input === 'object' && !Array.isArray(input) ? { ...input } : {};
+  const taxonomyErrors = normalizeTaxonomyFields(draft);
+  const result = validateMotorcycle(draft, { withId });
+  if ('bike' in result && result.bike.baseModelId && !db.prepare('SELECT 1 FROM base_models WHERE id = ?').get(result.bike.baseModelId)) {
+    return { errors: { ...taxonomyErrors, baseModelId: `Unknown base model: ${result.bike.baseModelId}` } };
+  }
+  if ('bike' in result && !taxonomyErrors) {
+    if (withId && db.prepare('SELECT 1 FROM motorcycles WHERE id = ?').get(result.bike.id)) {
+      return { errors: { id: `id "${result.bike.id}" is already taken` } };
+    }
+    return { bike: result.bike };
+  }
+  return { errors: { ...('errors' in result ? result.errors : {}), ...taxonomyErrors } };
+}
+
+// A 400 with a message per field; `error` repeats the first so a client showing one line still says what's wrong
+function invalidFields(res: express.Response, fields: FieldErrors) {
+  return res.status(400).json({ error: Object.values(fields)[0], fields });
+}
+
+const staleVersion = () => Object.assign(new Error('Motorcycle was changed by someone else since it was loaded'), { status: 412 });
+
+/**
+ * The write half of PUT and PATCH: mirrors the cover if asked, then saves the bike unless its
+ * stored version is not one of `expected`. A 412 carries the current bike so the client can
+ * show what changed instead of overwriting it.
+ */
+async function saveMotorcycle(req: express.Request, res: express.Response, bike: any, expected: string[] | null) {
+  const { id } = req.params;
+  try {
+    await mirrorBikeImage(bike, req.user!.id);
+  } catch (error: any) {
+    return res.status(error.status || 500).json({ error: error.message });
+  }
+  try {
+    db.transaction(() => {
+      const stored: any = db.prepare('SELECT updated_at, status FROM motorcycles WHERE id = ? AND deleted_at IS NULL').get(id);
+      if (!stored) throw Object.assign(new Error('Motorcycle not found'), { status: 404 });
+      if (expected && !expected.includes(stored.updated_at)) throw staleVersion();
+      // The form autosaves drafts while they are written; only saves that publish or change a
+      // bike outside draft go into its history
+      const staysDraft = stored.status === 'draft' && (bike.status ?? stored.status) === 'draft';
+      if (!staysDraft) ensureBaselineRevision(id);
+      updateMotorcycle(id, bike);
+      if (!staysDraft) recordRevision(id, req.user!.id, 'update');
+    })();
+    const saved = getBike(id)!;
+    res.set('ETag', bikeETag(saved)).json(saved);
+  } catch (error: any) {
+    if (bike.imageSourceUrl) removeUnreferencedUploads([bike.image], req.user!.id);
+    if (error.status === 404) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.status === 412) {
+      const current = getBike(id)!;
+      return res.status(412).set('ETag', bikeETag(current)).json({ error: error.message, current });
+    }
+    res.status(500).json({ error: 'Failed to update motorcycle' });
+  }
+}
+
+// Bulk entry through CSV; see MOTORCYCLE_CSV_COLUMNS for the layout
+const CSV_REQUIRED_COLUMNS: MotorcycleCsvColumn[] = ['name', 'year', 'category'];
+const MAX_CSV_ROWS = 1000;
+
+function motorcycleCsv(rows: any[]) {
+  return toCsv([
+    [...MOTORCYCLE_CSV_COLUMNS],
+    ...rows.map(bike => MOTORCYCLE_CSV_COLUMNS.map(column => column === 'tags' ? getTags(bike.id).join(', ') : bike[column] ?? ''))
+  ]);
+}
+
+/**
+ * Checks every row of an uploaded CSV against the same rules as the add form and returns the
+ * bikes ready to insert next to a per-row report. `row` is the spreadsheet row number, so the
+ * header is row 1. Problems with the file as a whole are thrown as 400s.
+ */
+function readMotorcycleCsv(text: string) {
+  let rows: string[][];
+  try {
+    rows = parseCsv(text);
+  } catch (error: any) {
+    throw badRequest(error.message);
+  }
+  if (rows.length < 2) throw badRequest('CSV has no rows below the header');
+  const [header, ...records] = rows;
+  if (records.length > MAX_CSV_ROWS) throw badRequest(`Import at most ${MAX_CSV_ROWS} rows at a time`);
+  const columns = header.map(motorcycleCsvColumn);
+  const missing = CSV_REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) throw badRequest(`Missing columns: ${missing.join(', ')}`);
+
+  const seenIds = new Set<string>();
+  const bikes: any[] = [];
+  const report = records.map((cells, index) => {
+    const value = (column: MotorcycleCsvColumn) => {
+      const position = columns.indexOf(column);
+      return position === -1 ? '' : (cells[position] ?? '').trim();
+    };
+    let id = value('id');
+    const duplicate = id && seenIds.has(id);
+    while (!id || (!value('id') && seenIds.has(id))) id = newMotorcycleId();
+    seenIds.add(id);
+
+    // Photos aren't mirrored in bulk; a link or an existing upload is stored as given
+    const checked = checkMotorcycle({
+      id,
+      name: value('name'),
+      year: value('year'),
+      category: value('category'),
+      style: value('style'),
+      image: value('image'),
+      description: value('description'),
+      modifications: value('modifications'),
+      specs: Object.fromEntries(SPEC_KEYS.map(key => [key, value(key)])),
+      tags: value('tags').split(',')
+    }, { withId: true });
+    const errors = 'errors' in checked ? Object.values(checked.errors) : [];
+    if (duplicate) errors.push(`id "${id}" appears more than once`);
+    if ('bike' in checked && !duplicate) bikes.push(checked.bike);
+    return { row: index + 2, id, name: value('name'), errors };
+  });
+
+  return {
+    columns: columns.filter((column): column is MotorcycleCsvColumn => column !== null),
+    ignoredColumns: header.filter((_, index) => !columns[index]),
+    rows: report,
+    valid: bikes.length,
+    invalid: report.length - bikes.length,
+    bikes
+  };
+}
+
+// Garage archives: a ZIP with manifest.json (every bike with its gallery, logs, tags, service
+// book, costs and edit history, plus the brand and style lists and the base model catalog) and
+// the uploads it refers to.
+// The manifest carries a version so archives made now stay readable after the format grows.
+const ARCHIVE_FORMAT = 'garasikita-garage';
+const ARCHIVE_VERSION = 1;
+const MAX_ARCHIVE_BYTES = 200 * 1024 * 1024;
+// Guards against archives that inflate to far more than they weigh
+const MAX_ARCHIVE_UNPACKED_BYTES = 1024 * 1024 * 1024;
+// Uploads are stored resized, so a single photo this large is not one the export wrote
+const MAX_ARCHIVE_ENTRY_BYTES = 25 * 1024 * 1024;
+const MAX_MANIFEST_BYTES = 50 * 1024 * 1024;
+const MAX_ARCHIVE_ERRORS = 20;
+const ARCHIVE_FILE = /^uploads\/([A-Za-z0-9._-]+)$/;
+const VARIANT_FILE = new RegExp(`^(.+)-(${Object.keys(IMAGE_SIZES).join('|')})\\.(webp|jpg)$`);
+
+const archiveUpload = multer({
+  storage,
+  limits: { fileSize: MAX_ARCHIVE_BYTES, files: 1 }
+});
+
+const withoutId = ({ id, ...rest }: any) => rest;
+
+const isUploadUrl = (url: unknown): url is string => typeof url === 'string' && url.startsWith('/uploads/');
+
+// Local URLs a bike depends on: its cover, gallery and receipts
+function bikeUploadUrls(bike: any): string[] {
+  return [
+    bike.image,
+    ...(bike.images || []).map((image: any) => image?.url),
+    ...(bike.costs || []).flatMap((entry: any) => entry?.receipts || [])
+  ].filter(isUploadUrl);
+}
+
+function buildManifest() {
+  const rows: any[] = db.prepare(`
+    SELECT motorcycles.*, users.username AS owner, base_models.slug AS base_model FROM motorcycles
+    LEFT JOIN users ON users.id = motorcycles.owner_id
+    LEFT JOIN base_models ON base_models.id = motorcycles.base_model_id
+    ORDER BY motorcycles.created_at, motorcycles.rowid
+  `).all();
+  const motorcycles = rows.map(bike => {
+    const service = getServiceLog(bike.id);
+    return {
+      id: bike.id,
+      name: bike.name,
+      category: bike.category,
+      style: bike.style || null,
+      year: bike.year,
+      description: bike.description || '',
+      modifications: bike.modifications || '',
+      image: bike.image || '',
+      owner: bike.owner || null,
+      createdAt: bike.created_at,
+      deletedAt: bike.deleted_at || null,
+      forkedFrom: bike.forked_from || null,
+      status: bike.status,
+      publishAt: bike.publish_at || null,
+      // Catalog ids differ between garages, so the model is referred to by slug
+      baseModel: bike.base_model || null,
+      specs: Object.fromEntries(SPEC_KEYS.map(key => [key, bike[key] || ''])),
+      tags: getTags(bike.id),
+      images: getImages(bike.id).map(withoutId),
+      modificationLog: getModificationLog(bike.id).map(withoutId),
+      serviceRecords: service.records.map(withoutId),
+      odometerReadings: service.readings.map(withoutId),
+      costs: getCostEntries(bike.id).map(withoutId),
+      revisions: (db.prepare(`
+        SELECT motorcycle_revisions.*, users.username FROM motorcycle_revisions
+        LEFT JOIN users ON users.id = motorcycle_revisions.editor_id
+        WHERE motorcycle_id = ? ORDER BY motorcycle_revisions.id
+      `).all(bike.id) as any[]).map(row => ({
+        action: row.action,
+        createdAt: row.created_at,
+        editor: row.username || null,
+        snapshot: JSON.parse(row.snapshot)
+      }))
+    };
+  });
+  const categories = listTaxonomy(TAXONOMIES.categories).map(({ name, logo, sortOrder }: any) => ({ name, logo, sortOrder }));
+  const styles = listTaxonomy(TAXONOMIES.styles).map(({ name, sortOrder }: any) => ({ name, sortOrder }));
+  const baseModels = listBaseModels().map(({ id, specData, ...model }) => model);
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    categories,
+    styles,
+    baseModels,
+    motorcycles
+  };
+}
+
+// Every file behind the manifest's local URLs, all sizes included. Images only older revisions
+// point at may have been cleaned up already; those are carried along when still on disk.
+function manifestFiles(manifest: ReturnType<typeof buildManifest>) {
+  const urls = new Set([
+    ...manifest.motorcycles.flatMap(bikeUploadUrls),
+    ...manifest.motorcycles.flatMap(bike => bike.revisions.map(revision => revision.snapshot.image)).filter(isUploadUrl),
+    ...manifest.categories.map(category => category.logo).filter(isUploadUrl)
+  ]);
+  const names = new Set([...urls].flatMap(uploadFilesFor));
+  return [...names].filter(name => fs.existsSync(path.join(uploadsDir, name)));
+}
+
+async function buildArchive() {
+  const manifest = buildManifest();
+  const entries: Record<string, Uint8Array | [Uint8Array, { level: 0 }]> = {
+    'manifest.json': strToU8(JSON.stringify(manifest, null, 2))
+  };
+  for (const name of manifestFiles(manifest)) {
+    // Images are compressed already; storing them keeps export fast
+    entries[`uploads/${name}`] = [await fs.promises.readFile(path.join(uploadsDir, name)), { level: 0 }];
+  }
+  return zipSync(entries);
+}
+
+const archiveError = (message: string) => Object.assign(new Error(message), { status: 400 });
+
+/**
+ * Accepts a ZIP made by the export or a bare manifest.json; the latter can only point at uploads
+ * this server already has. A ZIP is unpacked entry by entry into `dir` while the upload streams
+ * off disk, so only manifest.json is ever held in memory. Returns the manifest and the path of
+ * every unpacked upload by file name.
+ */
+async function readArchive(filePath: string, dir: string) {
+  const handle = await fs.promises.open(filePath, 'r');
+  const head = Buffer.alloc(4);
+  try {
+    await handle.read(head, 0, 4, 0);
+  } finally {
+    await handle.close();
+  }
+  const files = new Map<string, string>();
+  let manifestText: string;
+  if (head.toString('binary') === 'PK\x03\x04') {
+    manifestText = await unpackArchive(filePath, dir, files);
+  } else {
+    if ((await fs.promises.stat(filePath)).size > MAX_MANIFEST_BYTES) throw archiveError('manifest.json is larger than 50MB');
+    manifestText = await fs.promises.readFile(filePath, 'utf-8');
+  }
+
+  try {
+    return { manifest: JSON.parse(manifestText), files };
+  } catch {
+    throw archiveError('manifest.json is not valid JSON');
+  }
+}
+
+// Inflates each entry as its bytes arrive, stopping at the first entry or total over its cap
+function unpackArchive(filePath: string, dir: string, files: Map<string, string>) {
+  return new Promise<string>((resolve, reject) => {
+    const input = fs.createReadStream(filePath);
+    const open = new Set<number>();
+    const manifest: Uint8Array[] = [];
+    let hasManifest = false;
+    let unpacked = 0;
+    let failed = false;
+    const fail = (error: any) => {
+      if (failed) return;
+      failed = true;
+      input.destroy();
+      for (const fd of open) fs.closeSync(fd);
+      open.clear();
+      reject(error.status ? error : archiveError('Archive is not a valid ZIP file'));
+    };
+
+    const unzip = new Unzip(entry => {
+      if (failed || entry.name.endsWith('/')) return;
+      const isManifest = entry.name === 'manifest.json';
+      const match = entry.name.match(ARCHIVE_FILE);
+      if (!isManifest && !match) return fail(archiveError(`Unexpected file in archive: ${entry.name}`));
+      const limit = isManifest ? MAX_MANIFEST_BYTES : MAX_ARCHIVE_ENTRY_BYTES;
+      const tooLarge = () => archiveError(`${entry.name} is larger than ${Math.round(limit / 1024 / 1024)}MB`);
+      if ((entry.originalSize ?? 0) > limit) return fail(tooLarge());
+
+      let fd: number | null = null;
+      if (match) {
+        const target = path.join(dir, match[1]);
+        fd = fs.openSync(target, 'w');
+        open.add(fd);
+        files.set(match[1], target);
+      } else {
+        hasManifest = true;
+      }
+      let size = 0;
+      entry.ondata = (error, chunk, final) => {
+        if (failed) return;
+        if (error) return fail(error);
+        size += chunk.length;
+        unpacked += chunk.length;
+        if (size > limit) return fail(tooLarge());
+        if (unpacked > MAX_ARCHIVE_UNPACKED_BYTES) return fail(archiveError('Archive unpacks to more than 1GB'));
+        if (fd === null) {
+          manifest.push(chunk);
+        } else {
+          fs.writeSync(fd, chunk);
+          if (final) {
+            fs.closeSync(fd);
+            open.delete(fd);
+          }
+        }
+      };
+      entry.start();
+    });
+    unzip.register(UnzipInflate);
+
+    input.on('data', chunk => {
+      try {
+        unzip.push(chunk as Buffer);
+      } catch (error) {
+        fail(error);
+      }
+    });
+    input.on('end', () => {
+      try {
+        unzip.push(new Uint8Array(0), true);
+      } catch (error) {
+        return fail(error);
+      }
+      if (failed) return;
+      for (const fd of open) fs.closeSync(fd);
+      open.clear();
+      if (!hasManifest) return fail(archiveError('Archive has no manifest.json'));
+      resolve(Buffer.concat(manifest).toString('utf-8'));
+    });
+    input.on('error', fail);
+  });
+}
+
+// The first bytes of an unpacked file, enough to tell which image format it is
+function readFileHead(filePath: string) {
+  const head = Buffer.alloc(16);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    return head.subarray(0, fs.readSync(fd, head, 0, head.length, 0));
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function validateManifest(manifest: any, files: Map<string, string>) {
+  if (manifest?.format !== ARCHIVE_FORMAT || !Number.isInteger(manifest.version)) {
+    return ['Not a garage archive'];
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    return [`Archive version ${manifest.version} was made by a newer release; this server reads up to version ${ARCHIVE_VERSION}`];
+  }
+  if (!Array.isArray(manifest.motorcycles) || !Array.isArray(manifest.categories ?? []) || !Array.isArray(manifest.styles ?? []) || !Array.isArray(manifest.baseModels ?? [])) {
+    return ['Manifest must list motorcycles, categories, styles and base models'];
+  }
+
+  const errors: string[] = [];
+  (manifest.baseModels || []).forEach((model: any, index: number) => {
+    const where = `baseModels[${index}]`;
+    if (typeof model?.slug !== 'string' || !model.slug.trim()) return errors.push(`${where}: missing slug`);
+    if (typeof model.name !== 'string' || !model.name.trim()) errors.push(`${where}: missing name`);
+    if (typeof model.category !== 'string' || !model.category.trim()) errors.push(`${where}: missing category`);
+  });
+  const ids = new Set<string>();
+  manifest.motorcycles.forEach((bike: any, index: number) => {
+    const where = `motorcycles[${index}]`;
+    if (typeof bike?.id !== 'string' || !bike.id.trim()) return errors.push(`${where}: missing id`);
+    if (ids.has(bike.id)) errors.push(`${where}: duplicate id "${bike.id}"`);
+    ids.add(bike.id);
+    if (typeof bike.name !== 'string' || !bike.name.trim()) errors.push(`${where}: missing name`);
+    if (typeof bike.category !== 'string' || !bike.category.trim()) errors.push(`${where}: missing category`);
+    if (!Number.isInteger(Number(bike.year))) errors.push(`${where}: year must be a whole number`);
+    for (const list of ['images', 'modificationLog', 'serviceRecords', 'odometerReadings', 'costs', 'revisions', 'tags']) {
+      if (bike[list] != null && !Array.isArray(bike[list])) errors.push(`${where}: ${list} must be a list`);
+    }
+  });
+  if (errors.length > 0) return errors.slice(0, MAX_ARCHIVE_ERRORS);
+
+  for (const [name, source] of files) {
+    if (!sniffImageType(readFileHead(source))) errors.push(`uploads/${name} is not an image`);
+  }
+  const referenced = [
+    ...manifest.motorcycles.flatMap(bikeUploadUrls),
+    ...(manifest.categories || []).map((category: any) => category?.logo).filter(isUploadUrl)
+  ];
+  for (const url of new Set<string>(referenced)) {
+    const name = path.basename(url);
+    // Bare manifests may reuse uploads that are already on this server
+    if (!files.has(name) && !(files.size === 0 && fs.existsSync(path.join(uploadsDir, name)))) {
+      errors.push(`Missing file for ${url}`);
+    }
+  }
+  return errors.slice(0, MAX_ARCHIVE_ERRORS);
+}
+
+type ImportMode = 'merge' | 'replace';
+
+/**
+ * Works out what importing the archive would do without writing anything. Bikes keep their
+ * ids unless merging would collide with a bike already here, in which case they get a
+ * suffixed id. Every uploaded file gets a fresh name so nothing on disk is overwritten.
+ * `apply` then writes it all in one transaction.
+ */
+function planImport(manifest: any, files: Map<string, string>, mode: ImportMode, importerId: number) {
+  const existingIds = new Set((db.prepare('SELECT id FROM motorcycles').all() as any[]).map(row => row.id));
+  const takenIds = mode === 'merge' ? new Set(existingIds) : new Set<string>();
+  const idMap = new Map<string, string>();
+  const renamedIds: { from: string, to: string }[] = [];
+  for (const bike of manifest.motorcycles) {
+    let id = bike.id;
+    while (takenIds.has(id)) id = `${bike.id}-${crypto.randomBytes(3).toString('hex')}`;
+    if (id !== bike.id) renamedIds.push({ from: bike.id, to: id });
+    takenIds.add(id);
+    idMap.set(bike.id, id);
+  }
+
+  // Variants of one upload share a base name, so they are renamed together
+  const bases = new Map<string, string>();
+  const fileNames = new Map<string, string>();
+  for (const name of files.keys()) {
+    const match = name.match(VARIANT_FILE);
+    const oldBase = match ? match[1] : name;
+    if (!bases.has(oldBase)) bases.set(oldBase, Date.now() + '-' + Math.round(Math.random() * 1E9));
+    fileNames.set(name, match ? `${bases.get(oldBase)}-${match[2]}.${match[3]}` : `${bases.get(oldBase)}${path.extname(name)}`);
+  }
+  const mapUrl = (url: unknown) => {
+    if (!isUploadUrl(url)) return url;
+    const renamed = fileNames.get(path.basename(url));
+    return renamed ? `/uploads/${renamed}` : url;
+  };
+
+  const existingNames = (table: string) =>
+    mode === 'replace' ? new Set<string>() : new Set((db.prepare(`SELECT name FROM ${table}`).all() as any[]).map(row => row.name.toLowerCase()));
+  const newNames = (table: string, names: unknown[]) => {
+    const existing = existingNames(table);
+    const added: string[] = [];
+    for (const name of names) {
+      if (typeof name !== 'string' || !name.trim() || existing.has(name.trim().toLowerCase())) continue;
+      existing.add(name.trim().toLowerCase());
+      added.push(name.trim());
+    }
+    return added;
+  };
+  // Brands and styles are matched to the stored lists by slug, which is what keeps them unique.
+  // A name spelled differently from the stored one ("honda" for "Honda") takes the stored
+  // spelling and is reported; names not stored yet are added.
+  const resolveNames = (table: 'categories' | 'styles', names: unknown[]) => {
+    const stored = new Map<string, string>(mode === 'replace' ? [] : (db.prepare(`SELECT name, slug FROM ${table}`).all() as any[]).map(row => [row.slug, row.name]));
+    const resolved = new Map<string, string>();
+    const added: string[] = [];
+    const renamed: { from: string, to: string }[] = [];
+    for (const raw of names) {
+      if (typeof raw !== 'string' || !raw.trim() || resolved.has(raw.trim())) continue;
+      const name = raw.trim();
+      const match = stored.get(slugify(name));
+      if (match === undefined) {
+        stored.set(slugify(name), name);
+        added.push(name);
+      } else if (match !== name) {
+        renamed.push({ from: name, to: match });
+      }
+      resolved.set(name, match ?? name);
+    }
+    const resolve = (name: unknown) => typeof name === 'string' && name.trim() ? resolved.get(name.trim())! : null;
+    return { added, renamed, resolve };
+  };
+  // Catalog models are matched by slug; the ones this garage doesn't have yet are added
+  const knownModels = mode === 'replace' ? new Set<string>() : new Set((db.prepare('SELECT slug FROM base_models').all() as any[]).map(row => row.slug));
+  const baseModels = (manifest.baseModels || []).filter((model: any) => {
+    if (knownModels.has(model.slug)) return false;
+    knownModels.add(model.slug);
+    return true;
+  });
+  // Brands and styles used by a bike or model but missing from the lists are added as well
+  const categories = resolveNames('categories', [
+    ...(manifest.categories || []).map((category: any) => category?.name),
+    ...manifest.motorcycles.map((bike: any) => bike.category),
+    ...baseModels.map((model: any) => model.category)
+  ]);
+  const styles = resolveNames('styles', [
+    ...(manifest.styles || []).map((style: any) => style?.name),
+    ...manifest.motorcycles.map((bike: any) => bike.style)
+  ]);
+  const tags = newNames('tags', manifest.motorcycles.flatMap((bike: any) => bike.tags || []));
+
+  const report = {
+    mode,
+    motorcycles: {
+      imported: manifest.motorcycles.length,
+      removed: mode === 'replace' ? existingIds.size : 0,
+      renamedIds
+    },
+    categories: { added: categories.added, renamed: categories.renamed },
+    styles: { added: styles.added, renamed: styles.renamed },
+    tags: { added: tags },
+    baseModels: { added: baseModels.map((model: any) => `${model.category.trim()} ${model.name.trim()}`) },
+    files: files.size
+  };
+
+  const apply = async () => {
+    const written: string[] = [];
+    try {
+      for (const [name, source] of files) {
+        const target = path.join(uploadsDir, fileNames.get(name)!);
+        await fs.promises.copyFile(source, target);
+        written.push(target);
+      }
+      const previousUploads = mode === 'replace' ? allUploadUrls() : [];
+      db.transaction(() => {
+        if (mode === 'replace') {
+          db.exec('DELETE FROM motorcycles; DELETE FROM base_models; DELETE FROM categories; DELETE FROM styles; DELETE FROM tags;');
+        }
+        importTaxonomies(manifest, categories.added, styles.added, mapUrl);
+        for (const model of baseModels) importBaseModel({ ...model, category: categories.resolve(model.category) });
+        const users = new Map((db.prepare('SELECT id, username FROM users').all() as any[]).map(row => [row.username.toLowerCase(), row.id]));
+        const userId = (username: unknown) => typeof username === 'string' ? users.get(username.toLowerCase()) ?? null : null;
+        for (const bike of manifest.motorcycles) {
+          const named = { ...bike, category: categories.resolve(bike.category), style: styles.resolve(bike.style) };
+          importMotorcycle(named, idMap.get(bike.id)!, userId(bike.owner) ?? importerId, userId, mapUrl);
+        }
+        // Linked once every bike is in, since a copy can come before its original; links to bikes
+        // that are in neither the archive nor the garage are dropped
+        const linkFork = db.prepare('UPDATE motorcycles SET forked_from = ? WHERE id = ? AND EXISTS (SELECT 1 FROM motorcycles WHERE id = ?)');
+        for (const bike of manifest.motorcycles) {
+          if (typeof bike.forkedFrom !== 'string') continue;
+          const original = idMap.get(bike.forkedFrom) ?? bike.forkedFrom;
+          linkFork.run(original, idMap.get(bike.id), original);
+        }
+        const linkBaseModel = db.prepare('UPDATE motorcycles SET base_model_id = (SELECT id FROM base_models WHERE slug = ?) WHERE id = ?');
+        for (const bike of manifest.motorcycles) {
+          if (typeof bike.baseModel === 'string') linkBaseModel.run(bike.baseModel, idMap.get(bike.id));
+        }
+      })();
+      removeUnreferencedUploads(previousUploads, null);
+    } catch (error) {
+      for (const target of written) fs.rm(target, { force: true }, () => {});
+      throw error;
+    }
+  };
+
+  return { report, apply };
+}
+
+function allUploadUrls() {
+  return (db.prepare(`
+    SELECT url FROM motorcycle_images UNION SELECT url FROM cost_receipts
+    UNION SELECT image FROM motorcycles UNION SELECT logo FROM categories
+  `).all() as any[]).map(row => row.url).filter((url: unknown): url is string => typeof url === 'string');
+}
+
+function importTaxonomies(manifest: any, categories: string[], styles: string[], mapUrl: (url: unknown) => unknown) {
+  const listed = (items: any[], name: string) => (items || []).find(item => item?.name?.trim().toLowerCase() === name.toLowerCase());
+  for (const [table, names, items] of [['categories', categories, manifest.categories], ['styles', styles, manifest.styles]] as const) {
+    const { maxOrder }: any = db.prepare(`SELECT MAX(sort_order) AS maxOrder FROM ${table}`).get();
+    let order = maxOrder === null ? 0 : maxOrder + 1;
+    for (const name of names) {
+      const item = listed(items, name);
+      const logo = table === 'categories' && typeof item?.logo === 'string' ? mapUrl(item.logo) : null;
+      db.prepare(`INSERT INTO ${table} (name, slug${table === 'categories' ? ', logo' : ''}, sort_order) VALUES (?, ?${table === 'categories' ? ', ?' : ''}, ?)`)
+        .run(name, slugify(name), ...(table === 'categories' ? [logo] : []), order++);
+    }
+  }
+}
+
+function importBaseModel(model: any) {
+  const year = (value: unknown) => Number.isInteger(value) ? value as number : null;
+  const specs = model.specs && typeof model.specs === 'object' ? model.specs : {};
+  insertBaseModel({
+    category: model.category.trim(),
+    name: model.name.trim(),
+    slug: model.slug.trim(),
+    yearFrom: year(model.yearFrom),
+    yearTo: year(model.yearTo),
+    specs: Object.fromEntries(SPEC_KEYS.map(key => [key, typeof specs[key] === 'string' ? specs[key] : '']))
+  });
+}
+
+function importMotorcycle(bike: any, id: string, ownerId: number, userId: (username: unknown) => number | null, mapUrl: (url: unknown) => unknown) {
+  const text = (value: unknown) => value == null ? '' : String(value);
+  db.prepare(`
+    INSERT INTO motorcycles (id, name, category, style, year, description, modifications, image, owner_id, created_at, deleted_at, updated_at, status, publish_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP), ?, ?, ?, ?)
+  `).run(
+    id, bike.name.trim(), bike.category.trim(), bike.style ? String(bike.style).trim() : null, Number(bike.year),
+    text(bike.description), text(bike.modifications), mapUrl(text(bike.image)), ownerId,
+    bike.createdAt || null, bike.deletedAt || null, new Date().toISOString(),
+    // Archives from before drafts only held public bikes
+    STATUS_VALUES.includes(bike.status) ? bike.status : 'published',
+    typeof bike.publishAt === 'string' && !Number.isNaN(Date.parse(bike.publishAt)) ? new Date(bike.publishAt).toISOString() : null
+  );
+  writeSpecs(id, bike.specs || {});
+  setBikeTags(id, (bike.tags || []).filter((tag: unknown) => typeof tag === 'string' && tag.trim()));
+
+  const insertImage = db.prepare('INSERT INTO motorcycle_images (motorcycle_id, url, caption, position, is_cover, source_url) VALUES (?, ?, ?, ?, ?, ?)');
+  (bike.images || []).forEach((image: any, index: number) => {
+    insertImage.run(id, mapUrl(text(image.url)), text(image.caption), Number(image.position ?? index), image.isCover ? 1 : 0, image.sourceUrl || null);
+  });
+
+  const insertModification = db.prepare(`
+    INSERT INTO modification_entries (motorcycle_id, date, part_name, category, cost, workshop, notes) VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const entry of bike.modificationLog || []) {
+    insertModification.run(id, entry.date || null, text(entry.partName), normalizeModificationCategory(entry.category),
+      entry.cost == null ? null : Number(entry.cost), text(entry.workshop), text(entry.notes));
+  }
+
+  const insertService = db.prepare(`
+    INSERT INTO service_records (motorcycle_id, service_type, title, date, odometer, interval_km, interval_months, parts, cost, workshop, notes)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const record of bike.serviceRecords || []) {
+    insertService.run(id, SERVICE_TYPES.includes(record.serviceType) ? record.serviceType : 'other', text(record.title), text(record.date),
+      record.odometer ?? null, record.intervalKm ?? null, record.intervalMonths ?? null, JSON.stringify(record.parts || []),
+      record.cost ?? null, text(record.workshop), text(record.notes));
+  }
+  const insertReading = db.prepare('INSERT INTO odometer_readings (motorcycle_id, date, km) VALUES (?, ?, ?)');
+  for (const reading of bike.odometerReadings || []) {
+    insertReading.run(id, text(reading.date), Number(reading.km) || 0);
+  }
+
+  const insertCost = db.prepare(`
+    INSERT INTO cost_entries (motorcycle_id, date, description, kind, category, amount, currency, vendor, notes)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertReceipt = db.prepare('INSERT INTO cost_receipts (cost_entry_id, url, position) VALUES (?, ?, ?)');
+  for (const entry of bike.costs || []) {
+    const { lastInsertRowid } = insertCost.run(id, text(entry.date), text(entry.description), COST_KINDS.includes(entry.kind) ? entry.kind : 'parts',
+      normalizeModificationCategory(entry.category), Number(entry.amount) || 0, text(entry.currency || DEFAULT_CURRENCY), text(entry.vendor), text(entry.notes));
+    (entry.receipts || []).forEach((url: unknown, position: number) => insertReceipt.run(lastInsertRowid, mapUrl(url), position));
+  }
+
+  const insertRevision = db.prepare('INSERT INTO motorcycle_revisions (motorcycle_id, editor_id, action, snapshot, created_at) VALUES (?, ?, ?, ?, ?)');
+  for (const revision of bike.revisions || []) {
+    const snapshot = { ...revision.snapshot, image: mapUrl(revision.snapshot?.image) };
+    insertRevision.run(id, userId(revision.editor), text(revision.action), JSON.stringify(snapshot), revision.createdAt || new Date().toISOString());
+  }
+
+  // Files from the archive count as the owner's uploads, as if they had been uploaded here
+  for (const url of bikeUploadUrls(bike)) recordUpload(String(mapUrl(url)), ownerId);
+}
+
+async function startServer() {
+  const app = express();
+  const PORT = 3000;
+
+  app.use(express.json({ limit: '1mb' }));
+  app.use(express.urlencoded({ extended: true, limit: '1mb' }));
+  
+  app.use(loadSession);
+
+  // Serve uploaded files
+  app.use('/uploads', express.static(uploadsDir));
+
+  // Auth Routes
+  app.post('/api/auth/register', (req, res) => {
+    const { username, password } = req.body;
+
+    if (typeof username !== 'string' || !/^[a-zA-Z0-9_.-]{3,32}$/.test(username)) {
+      return res.status(400).json({ error: 'Username must be 3-32 letters, numbers, dots, dashes or underscores' });
+    }
+    if (typeof password !== 'string' || password.length < 8) {
+      return res.status(400).json({ error: 'Password must be at least 8 characters' });
+    }
+
+    try {
+      const existing = db.prepare('SELECT id FROM users WHERE username = ?').get(username);
+      if (existing) {
+        return res.status(409).json({ error: 'Username is already taken' });
+      }
+
+      // The first account becomes the garage admin
+      const { count }: any = db.prepare('SELECT COUNT(*) AS count FROM users').get();
+      const role = count === 0 ? 'admin' : 'member';
+      const result = db.prepare('INSERT INTO users (username, password_hash, role) VALUES (?, ?, ?)')
+        .run(username, hashPassword(password), role);
+      createSession(res, Number(result.lastInsertRowid));
+      res.status(201).json({ id: Number(result.lastInsertRowid), username, role });
+    } catch (error) {
+      console.error('Register error:', error);
+      res.status(500).json({ error: 'Failed to create account' });
+    }
+  });
+
+  app.post('/api/auth/login', (req, res) => {
+    const { username, password } = req.body;
+    try {
+      const user: any = db.prepare('SELECT * FROM users WHERE username = ?').get(String(username || ''));
+      if (!user || !verifyPassword(String(password || ''), user.password_hash)) {
+        return res.status(401).json({ error: 'Invalid username or password' });
+      }
+      createSession(res, user.id);
+      res.json(formatUser(user));
+    } catch (error) {
+      console.error('Login error:', error);
+      res.status(500).json({ error: 'Failed to log in' });
+    }
+  });
+
+  app.post('/api/auth/logout', (req, res) => {
+    const token = readCookie(req, SESSION_COOKIE);
+    if (token) {
+      db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(hashToken(token));
+    }
+    res.clearCookie(SESSION_COOKIE, { path: '/' });
+    res.status(204).send();
+  });
+
+  app.get('/api/auth/me', (req, res) => {
+    res.json(req.user || null);
+  });
+
+  // Brand and style lists. /api/categories and /api/styles share these routes; reads are public,
+  // changes are admin only. Every write answers with the whole list in display order.
+  for (const [route, taxonomy] of Object.entries(TAXONOMIES)) {
+    const findItem = (itemId: string): any => db.prepare(`SELECT * FROM ${taxonomy.table} WHERE id = ?`).get(itemId);
+
+    const readName = (value: unknown) => {
+      const name = typeof value === 'string' ? value.trim() : '';
+      if (!name || name.length > 60) return { error: 'Name is required (at most 60 characters)' };
+      const slug = slugify(name);
+      if (!slug) return { error: 'Name needs at least one letter or digit' };
+      return { name, slug };
+    };
+
+    app.get(`/api/${route}`, (req, res) => {
+      try {
+        res.json(listTaxonomy(taxonomy));
+      } catch (error) {
+        res.status(500).json({ error: `Failed to fetch ${route}` });
+      }
+    });
+
+    app.post(`/api/${route}`, requireAdmin, (req, res) => {
+      const { logo, sortOrder } = req.body;
+      const parsed = readName(req.body.name);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      try {
+        const existing = db.prepare(`SELECT 1 FROM ${taxonomy.table} WHERE name = ? OR slug = ?`).get(parsed.name, parsed.slug);
+        if (existing) {
+          return res.status(409).json({ error: `${taxonomy.label} "${parsed.name}" already exists` });
+        }
+        const { maxOrder }: any = db.prepare(`SELECT MAX(sort_order) AS maxOrder FROM ${taxonomy.table}`).get();
+        const order = Number.isInteger(sortOrder) ? sortOrder : (maxOrder ?? -1) + 1;
+        if (taxonomy.hasLogo) {
+          db.prepare(`INSERT INTO ${taxonomy.table} (name, slug, logo, sort_order) VALUES (?, ?, ?, ?)`)
+            .run(parsed.name, parsed.slug, logo || null, order);
+        } else {
+          db.prepare(`INSERT INTO ${taxonomy.table} (name, slug, sort_order) VALUES (?, ?, ?)`)
+            .run(parsed.name, parsed.slug, order);
+        }
+        res.status(201).json(listTaxonomy(taxonomy));
+      } catch (error) {
+        console.error(`Add ${taxonomy.column} error:`, error);
+        res.status(500).json({ error: `Failed to add ${taxonomy.column}` });
+      }
+    });
+
+    // { order: [itemId, ...] } sets sort_order to each id's position in the array
+    app.put(`/api/${route}/order`, requireAdmin, (req, res) => {
+      const { order } = req.body;
+      if (!Array.isArray(order)) {
+        return res.status(400).json({ error: 'order must be an array of ids' });
+      }
+      try {
+        const stmt = db.prepare(`UPDATE ${taxonomy.table} SET sort_order = ? WHERE id = ?`);
+        db.transaction(() => {
+          order.forEach((itemId: number, index: number) => stmt.run(index, itemId));
+        })();
+        res.json(listTaxonomy(taxonomy));
+      } catch (error) {
+        res.status(500).json({ error: `Failed to reorder ${route}` });
+      }
+    });
+
+    // { name?, logo?, sortOrder? }; a rename is applied to every bike using the old name
+    app.patch(`/api/${route}/:itemId`, requireAdmin, (req, res) => {
+      const current = findItem(req.params.itemId);
+      if (!current) {
+        return res.status(404).json({ error: `${taxonomy.label} not found` });
+      }
+      const parsed = req.body.name === undefined ? { name: current.name, slug: current.slug } : readName(req.body.name);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      try {
+        const conflict = db.prepare(`SELECT 1 FROM ${taxonomy.table} WHERE (name = ? OR slug = ?) AND id != ?`)
+          .get(parsed.name, parsed.slug, current.id);
+        if (conflict) {
+          return res.status(409).json({ error: `${taxonomy.label} "${parsed.name}" already exists` });
+        }
+        const order = Number.isInteger(req.body.sortOrder) ? req.body.sortOrder : current.sort_order;
+        db.transaction(() => {
+          db.prepare(`UPDATE ${taxonomy.table} SET name = ?, slug = ?, sort_order = ? WHERE id = ?`)
+            .run(parsed.name, parsed.slug, order, current.id);
+          if (taxonomy.hasLogo && req.body.logo !== undefined) {
+            db.prepare(`UPDATE ${taxonomy.table} SET logo = ? WHERE id = ?`).run(req.body.logo || null, current.id);
+          }
+          if (parsed.name !== current.name) {
+            db.prepare(`UPDATE motorcycles SET ${taxonomy.column} = ? WHERE ${taxonomy.column} = ?`).run(parsed.name, current.name);
+            if (taxonomy.column === 'category') {
+              db.prepare('UPDATE base_models SET category = ? WHERE category = ?').run(parsed.name, current.name);
+            }
+          }
+        })();
+        res.json(listTaxonomy(taxonomy));
+      } catch (error) {
+        console.error(`Update ${taxonomy.column} error:`, error);
+        res.status(500).json({ error: `Failed to update ${taxonomy.column}` });
+      }
+    });
+
+    // Refused while any bike (trashed ones included) or catalog model still uses it
+    const removeItem = (req: express.Request, res: express.Response) => {
+      const current = findItem(req.params.itemId);
+      if (!current) {
+        return res.status(404).json({ error: `${taxonomy.label} not found` });
+      }
+      try {
+        const { count }: any = db.prepare(`SELECT COUNT(*) AS count FROM motorcycles WHERE ${taxonomy.column} = ?`).get(current.name);
+        if (count > 0) {
+          return res.status(409).json({ error: `${taxonomy.label} "${current.name}" is used by ${count} motorcycle(s)` });
+        }
+        if (taxonomy.column === 'category') {
+          const { models }: any = db.prepare('SELECT COUNT(*) AS models FROM base_models WHERE category = ?').get(current.name);
+          if (models > 0) {
+            return res.status(409).json({ error: `${taxonomy.label} "${current.name}" is used by ${models} base model(s)` });
+          }
+        }
+        db.prepare(`DELETE FROM ${taxonomy.table} WHERE id = ?`).run(current.id);
+        res.json(listTaxonomy(taxonomy));
+      } catch (error) {
+        res.status(500).json({ error: `Failed to delete ${taxonomy.column}` });
+      }
+    };
+
+    app.post(`/api/${route}/:itemId/delete`, requireAdmin, removeItem);
+    app.delete(`/api/${route}/:itemId`, requireAdmin, removeItem);
+  }
+
+  // Stock model catalog. Reads are public, changes are admin only, and like the brand and style
+  // lists every write answers with the whole catalog.
+  // Body: { category, name, yearFrom?, yearTo?, specs? }
+  app.get('/api/base-models', (req, res) => {
+    try {
+      res.json(listBaseModels());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch base models' });
+    }
+  });
+
+  app.post('/api/base-models', requireAdmin, (req, res) => {
+    const checked = checkBaseModel(req.body && typeof req.body === 'object' ? req.body : {});
+    if ('errors' in checked) {
+      return invalidFields(res, checked.errors);
+    }
+    try {
+      if (db.prepare('SELECT 1 FROM base_models WHERE slug = ?').get(checked.model.slug)) {
+        return res.status(409).json({ error: `Base model "${checked.model.category} ${checked.model.name}" already exists` });
+      }
+      db.transaction(() => insertBaseModel(checked.model))();
+      res.status(201).json(listBaseModels());
+    } catch (error) {
+      console.error('Add base model error:', error);
+      res.status(500).json({ error: 'Failed to add base model' });
+    }
+  });
+
+  // Fields left out keep their value; specs are merged key by key
+  app.patch('/api/base-models/:modelId', requireAdmin, (req, res) => {
+    const row = db.prepare('SELECT * FROM base_models WHERE id = ?').get(req.params.modelId);
+    if (!row) {
+      return res.status(404).json({ error: 'Base model not found' });
+    }
+    const current = formatBaseModel(row);
+    const changes = req.body && typeof req.body === 'object' && !Array.isArray(req.body) ? req.body : {};
+    const checked = checkBaseModel({
+      ...current,
+      ...changes,
+      specs: changes.specs && typeof changes.specs === 'object' ? { ...current.specs, ...changes.specs } : current.specs
+    });
+    if ('errors' in checked) {
+      return invalidFields(res, checked.errors);
+    }
+    const { model } = checked;
+    try {
+      if (db.prepare('SELECT 1 FROM base_models WHERE slug = ? AND id != ?').get(model.slug, current.id)) {
+        return res.status(409).json({ error: `Base model "${model.category} ${model.name}" already exists` });
+      }
+      db.transaction(() => {
+        db.prepare('UPDATE base_models SET category = ?, name = ?, slug = ?, year_from = ?, year_to = ? WHERE id = ?')
+          .run(model.category, model.name, model.slug, model.yearFrom, model.yearTo, current.id);
+        writeSpecs(current.id, model.specs, 'base_models');
+      })();
+      res.json(listBaseModels());
+    } catch (error) {
+      console.error('Update base model error:', error);
+      res.status(500).json({ error: 'Failed to update base model' });
+    }
+  });
+
+  // Bikes built on the model keep their specs and lose only the link
+  app.delete('/api/base-models/:modelId', requireAdmin, (req, res) => {
+    try {
+      const { changes } = db.prepare('DELETE FROM base_models WHERE id = ?').run(req.params.modelId);
+      if (changes === 0) {
+        return res.status(404).json({ error: 'Base model not found' });
+      }
+      res.json(listBaseModels());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete base model' });
+    }
+  });
+
+  // Tags in use with their number of public bikes, most used first.
+  // ?q= keeps tags whose name starts with it, for autocomplete; ?limit= caps the list.
+  app.get('/api/tags', (req, res) => {
+    try {
+      const prefix = String(req.query.q || '').trim();
+      const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+      const rows: any[] = db.prepare(`
+        SELECT tags.name, tags.slug, COUNT(m.id) AS count FROM tags
+        JOIN motorcycle_tags ON motorcycle_tags.tag_id = tags.id
+        LEFT JOIN motorcycles m ON m.id = motorcycle_tags.motorcycle_id AND m.deleted_at IS NULL AND ${PUBLISHED_SQL}
+        WHERE tags.name LIKE ? ESCAPE '\\'
+        GROUP BY tags.id
+        HAVING count > 0
+        ORDER BY count DESC, tags.name
+        LIMIT ?
+      `).all(prefix.replace(/[\\%_]/g, '\\$&') + '%', limit);
+      res.json(rows.map(row => ({ name: row.name, slug: row.slug, count: row.count })));
+    } catch (error) {
+      console.error('Tags error:', error);
+      res.status(500).json({ error: 'Failed to fetch tags' });
+    }
+  });
+
+  // API Routes
+  // multipart/form-data with one or more files in the "images" field. Either every file
+  // is stored or none is: a bad file fails the request and drops what was already processed.
+  app.post('/api/upload', requireAuth, (req, res) => {
+    upload.array('images', MAX_UPLOAD_FILES)(req, res, async (err: any) => {
+      const files = (req.files || []) as Express.Multer.File[];
+      if (err) {
+        removeIncoming(files);
+        if (err instanceof multer.MulterError) {
+          const message = err.code === 'LIMIT_FILE_SIZE' ? 'File is larger than 5MB'
+            : err.code === 'LIMIT_FILE_COUNT' || err.code === 'LIMIT_UNEXPECTED_FILE' ? `Upload at most ${MAX_UPLOAD_FILES} files in the "images" field`
+            : err.message;
+          return res.status(err.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({ error: message });
+        }
+        console.error('Multipart Upload Error:', err);
+        return res.status(500).json({ error: 'Failed to receive upload' });
+      }
+      if (files.length === 0) {
+        return res.status(400).json({ error: 'No files in the "images" field' });
+      }
+
+      const images: { fileName: string, imageUrl: string }[] = [];
+      try {
+        // One at a time: sharp already uses every core for a single image
+        for (const file of files) {
+          const buffer = await fs.promises.readFile(file.path);
+          const imageUrl = await processImage(buffer).catch(error => {
+            if (error.status === 400) error.message = `${file.originalname}: ${error.message}`;
+            throw error;
+          });
+          recordUpload(imageUrl, req.user!.id);
+          images.push({ fileName: file.originalname, imageUrl });
+        }
+        res.json({ images });
+      } catch (error: any) {
+        removeUnreferencedUploads(images.map(image => image.imageUrl), req.user!.id);
+        if (error.status === 400) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error('Upload Processing Error:', error);
+        res.status(500).json({ error: 'Failed to save uploaded image' });
+      } finally {
+        removeIncoming(files);
+      }
+    });
+  });
+
+  app.get('/api/motorcycles', (req, res) => {
+    try {
+      const { rows, total, nextCursor } = searchMotorcycles(req.query);
+      const ids = rows.map(bike => bike.id);
+      const inIds = ids.map(() => '?').join(', ');
+      const imagesByBike = groupByBike(
+        db.prepare(`SELECT * FROM motorcycle_images WHERE motorcycle_id IN (${inIds}) ORDER BY position, id`).all(...ids),
+        formatImage
+      );
+      const logByBike = groupByBike(
+        db.prepare(`SELECT * FROM modification_entries WHERE motorcycle_id IN (${inIds}) ORDER BY ${MODIFICATION_ORDER}`).all(...ids),
+        formatModification
+      );
+      const tagsByBike = groupByBike(
+        db.prepare(`
+          SELECT motorcycle_tags.motorcycle_id, tags.name FROM motorcycle_tags JOIN tags ON tags.id = motorcycle_tags.tag_id
+          WHERE motorcycle_id IN (${inIds}) ORDER BY tags.name
+        `).all(...ids),
+        row => row.name as string
+      );
+      // Map flat DB structure back to nested specs object
+      const items = rows.map((bike: any) => formatBike(bike, {
+        images: imagesByBike.get(bike.id) || [],
+        modificationLog: logByBike.get(bike.id) || [],
+        tags: tagsByBike.get(bike.id) || []
+      }));
+      res.json({ items, total, nextCursor });
+    } catch (error: any) {
+      if (error.status === 400) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Search error:', error);
+      res.status(500).json({ error: 'Failed to fetch motorcycles' });
+    }
+  });
+
+  // The list as CSV, with the same filters and sort as GET /api/motorcycles but every page at once
+  app.get('/api/motorcycles/export.csv', (req, res) => {
+    try {
+      const rows: any[] = [];
+      let cursor: string | null = null;
+      do {
+        const page = searchMotorcycles({ ...req.query, cursor, limit: MAX_PAGE_SIZE });
+        rows.push(...page.rows);
+        cursor = page.nextCursor;
+      } while (cursor);
+      res.attachment('motorcycles.csv');
+      res.type('csv').send(motorcycleCsv(rows));
+    } catch (error: any) {
+      if (error.status === 400) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Motorcycle export error:', error);
+      res.status(500).json({ error: 'Failed to export motorcycles' });
+    }
+  });
+
+  // The CSV as a text/csv body. ?dryRun=true only reports what each row would do; otherwise
+  // every row is saved in one transaction, and nothing is unless every row passes.
+  app.post('/api/motorcycles/import', requireAuth, express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }), (req, res) => {
+    if (typeof req.body !== 'string') {
+      return res.status(400).json({ error: 'Send the CSV as a text/csv body' });
+    }
+    try {
+      const { bikes, ...report } = readMotorcycleCsv(req.body);
+      if (req.query.dryRun === 'true' || req.query.dryRun === '1') {
+        return res.json(report);
+      }
+      if (report.invalid > 0) {
+        return res.status(400).json({ error: `${report.invalid} of ${report.rows.length} rows have errors`, ...report });
+      }
+      db.transaction(() => {
+        for (const bike of bikes) insertMotorcycle(bike, req.user!.id);
+      })();
+      res.status(201).json({ ...report, imported: bikes.length });
+    } catch (error: any) {
+      if (error.status === 400) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Motorcycle import error:', error);
+      res.status(500).json({ error: 'Failed to import motorcycles' });
+    }
+  });
+
+  app.get('/api/motorcycles/:id', (req, res) => {
+    try {
+      const bike = getViewableBike(req.params.id, req.user);
+      if (!bike) {
+        return res.status(404).json({ error: 'Motorcycle not found' });
+      }
+      res.set('ETag', bikeETag(bike)).json(bike);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch motorcycle' });
+    }
+  });
+
+  app.get('/api/motorcycles/:id/share-card.jpg', async (req, res) => {
+    try {
+      const bike = getBike(req.params.id);
+      if (!bike || bike.deletedAt || !isPublished(bike)) {
+        return res.status(404).json({ error: 'Motorcycle not found' });
+      }
+      const card = await renderShareCard(bike);
+      // The URL carries a version, so crawlers and browsers may keep it for a long time
+      res.set('Cache-Control', 'public, max-age=604800');
+      res.type('jpg').send(card);
+    } catch (error) {
+      console.error('Failed to render share card:', error);
+      res.status(500).json({ error: 'Failed to render share card' });
+    }
+  });
+
+  // Any id in the body is ignored; the new bike's id comes back with the rest of it
+  app.post('/api/motorcycles', requireAuth, async (req, res) => {
+    const checked = checkMotorcycle(req.body, { withId: false });
+    if ('errors' in checked) {
+      return invalidFields(res, checked.errors);
+    }
+    const bike = { ...checked.bike, id: newMotorcycleId(), mirrorImage: req.body.mirrorImage === true };
+    try {
+      await mirrorBikeImage(bike, req.user!.id);
+    } catch (error: any) {
+      return res.status(error.status || 500).json({ error: error.message });
+    }
+    try {
+      insertMotorcycle(bike, req.user!.id);
+      const saved = getBike(bike.id)!;
+      res.status(201).set('ETag', bikeETag(saved)).location(`/api/motorcycles/${saved.id}`).json(saved);
+    } catch (error) {
+      if (bike.imageSourceUrl) removeUnreferencedUploads([bike.image], req.user!.id);
+      res.status(500).json({ error: 'Failed to add motorcycle' });
+    }
+  });
+
+  // Send If-Match with the bike's ETag (or its `updatedAt` in the body) to avoid overwriting someone else's edit
+  app.put('/api/motorcycles/:id', requireOwner, async (req, res) => {
+    const checked = checkMotorcycle(req.body, { withId: false });
+    if ('errors' in checked) {
+      return invalidFields(res, checked.errors);
+    }
+    const bike = { ...checked.bike, mirrorImage: req.body.mirrorImage === true };
+    await saveMotorcycle(req, res, bike, expectedVersions(req));
+  });
 
-    if (!image || !fileName) {
-      return res.status(400).json({ error: 'Missing image data or file name' });
+  // Only the fields sent change; specs are merged key by key and omitted tags are kept
+  app.patch('/api/motorcycles/:id', requireOwner, async (req, res) => {
+    const current: any = getBike(req.params.id);
+    const changes = req.body && typeof req.body === 'object' && !Array.isArray(req.body) ? req.body : {};
+    const draft: any = Object.fromEntries(Object.keys(MOTORCYCLE_SCHEMA)
+      .filter(field => field !== 'id')
+      .map(field => [field, field in changes ? changes[field] : current[field]]));
+    if (changes.specs && typeof changes.specs === 'object' && !Array.isArray(changes.specs)) {
+      draft.specs = { ...current.specs, ...changes.specs };
     }
+    const checked = checkMotorcycle(draft, { withId: false });
+    if ('errors' in checked) {
+      return invalidFields(res, checked.errors);
+    }
+    const bike = { ...checked.bike, mirrorImage: changes.mirrorImage === true };
+    // Without a precondition the merge still must not land on a newer version than it was built from
+    await saveMotorcycle(req, res, bike, expectedVersions(req) ?? [current.updatedAt]);
+  });
 
+  // Starts a new build from any bike the user can see; the copy is a draft that belongs to whoever made it.
+  // Body: { name?: string, images?: boolean }
+  app.post('/api/motorcycles/:id/duplicate', requireAuth, (req, res) => {
+    const source: any = getBike(req.params.id);
+    if (!source || source.deletedAt || !canView(source, req.user)) {
+      return res.status(404).json({ error: 'Motorcycle not found' });
+    }
+    const options = req.body && typeof req.body === 'object' ? req.body : {};
+    const withImages = options.images === true;
+    const checked = checkMotorcycle({
+      ...source,
+      name: options.name === undefined ? source.name : options.name,
+      image: withImages ? source.image : '',
+      modifications: '',
+      status: 'draft',
+      publishAt: null
+    }, { withId: false });
+    if ('errors' in checked) {
+      return invalidFields(res, checked.errors);
+    }
     try {
-      // Remove header (e.g., data:image/png;base64,)
-      const base64Data = image.replace(/^data:image\/\w+;base64,/, "");
-      const buffer = Buffer.from(base64Data, 'base64');
-      
-      const fileExt = path.extname(fileName) || '.jpg';
-      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-      const newFileName = uniqueSuffix + fileExt;
-      const filePath = path.join(uploadsDir, newFileName);
-
-      fs.writeFileSync(filePath, buffer);
-      
-      const imageUrl = `/uploads/${newFileName}`;
-      console.log('Generated URL:', imageUrl);
-      res.json({ imageUrl });
+      const bike = { ...checked.bike, id: newMotorcycleId(), forkedFrom: source.id };
+      db.transaction(() => duplicateMotorcycle(source, bike, req.user!.id, withImages))();
+      const saved = getBike(bike.id)!;
+      res.status(201).set('ETag', bikeETag(saved)).location(`/api/motorcycles/${saved.id}`).json(saved);
     } catch (error) {
-      console.error('Base64 Upload Error:', error);
-      res.status(500).json({ error: 'Failed to save uploaded image' });
+      console.error('Duplicate error:', error);
+      res.status(500).json({ error: 'Failed to duplicate motorcycle' });
     }
   });
 
-  app.get('/api/motorcycles', (req, res) => {
+  app.get('/api/motorcycles/:id/lineage', (req, res) => {
     try {
-      const bikes = db.prepare('SELECT * FROM motorcycles ORDER BY created_at DESC').all();
-      // Map flat DB structure back to nested specs object
-      const formattedBikes = bikes.map((bike: any) => ({
-        id: bike.id,
-        name: bike.name,
-        category: bike.category,
-        year: bike.year,
-        description: bike.description,
-        modifications: bike.modifications,
-        image: bike.image,
-        specs: {
-          engine: bike.engine,
-          power: bike.power,
-          torque: bike.torque,
-          weight: bike.weight,
-          topSpeed: bike.topSpeed
-        }
-      }));
-      res.json(formattedBikes);
+      const bike = getViewableBike(req.params.id, req.user);
+      if (!bike) {
+        return res.status(404).json({ error: 'Motorcycle not found' });
+      }
+      res.json(getLineage(bike.id, req.user));
     } catch (error) {
-      res.status(500).json({ error: 'Failed to fetch motorcycles' });
+      res.status(500).json({ error: 'Failed to fetch lineage' });
     }
   });
 
-  app.post('/api/motorcycles', (req, res) => {
-    const bike = req.body;
-    try {
-      const stmt = db.prepare(`
-        INSERT INTO motorcycles (id, name, category, year, description, modifications, image, engine, power, torque, weight, topSpeed)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `);
-      stmt.run(
-        bike.id,
-        bike.name,
-        bike.category,
-        bike.year,
-        bike.description,
-        bike.modifications,
-        bike.image,
-        bike.specs.engine,
-        bike.specs.power,
-        bike.specs.torque,
-        bike.specs.weight,
-        bike.specs.topSpeed
-      );
-      res.status(201).json(bike);
+  // Revision Routes
+  app.get('/api/motorcycles/:id/revisions', (req, res) => {
+    try {
+      if (!getViewableBike(req.params.id, req.user)) {
+        return res.status(404).json({ error: 'Motorcycle not found' });
+      }
+      const rows = db.prepare(`
+        SELECT motorcycle_revisions.*, users.username FROM motorcycle_revisions
+        LEFT JOIN users ON users.id = motorcycle_revisions.editor_id
+        WHERE motorcycle_id = ? ORDER BY motorcycle_revisions.id DESC
+      `).all(req.params.id);
+      res.json(rows.map(formatRevision));
     } catch (error) {
-      res.status(500).json({ error: 'Failed to add motorcycle' });
+      res.status(500).json({ error: 'Failed to fetch revisions' });
     }
   });
 
-  app.put('/api/motorcycles/:id', (req, res) => {
+  // ?from=<revisionId>&to=<revisionId>; without `to` the current state of the bike is compared
+  app.get('/api/motorcycles/:id/revisions/diff', (req, res) => {
     const { id } = req.params;
-    const bike = req.body;
-    try {
-      const stmt = db.prepare(`
-        UPDATE motorcycles 
-        SET name = ?, category = ?, year = ?, description = ?, modifications = ?, image = ?, 
-            engine = ?, power = ?, torque = ?, weight = ?, topSpeed = ?
-        WHERE id = ?
-      `);
-      stmt.run(
-        bike.name,
-        bike.category,
-        bike.year,
-        bike.description,
-        bike.modifications,
-        bike.image,
-        bike.specs.engine,
-        bike.specs.power,
-        bike.specs.torque,
-        bike.specs.weight,
-        bike.specs.topSpeed,
-        id
-      );
-      res.json(bike);
+    try {
+      if (!getViewableBike(id, req.user)) {
+        return res.status(404).json({ error: 'Motorcycle not found' });
+      }
+      const from = getRevision(id, req.query.from);
+      if (!from) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      let after;
+      if (req.query.to) {
+        const to = getRevision(id, req.query.to);
+        if (!to) {
+          return res.status(404).json({ error: 'Revision not found' });
+        }
+        after = to.snapshot;
+      } else {
+        after = takeSnapshot(id);
+      }
+      res.json({ from: from.id, to: req.query.to ? Number(req.query.to) : null, changes: diffSnapshots(from.snapshot, after) });
     } catch (error) {
-      res.status(500).json({ error: 'Failed to update motorcycle' });
+      console.error('Diff error:', error);
+      res.status(500).json({ error: 'Failed to diff revisions' });
     }
   });
 
-  app.post('/api/motorcycles/:id/delete', (req, res) => {
-    const { id } = req.params;
-    console.log('DELETE (POST) request for ID:', id);
+  // Takes If-Match like PUT and PATCH, so a rollback can't undo an edit the history panel hasn't seen
+  app.post('/api/motorcycles/:id/revisions/:revisionId/rollback', requireOwner, (req, res) => {
+    const { id, revisionId } = req.params;
     try {
-      // Log all IDs to see what's in the DB
-      const allIds = db.prepare('SELECT id FROM motorcycles').all().map((row: any) => row.id);
-      console.log('Current IDs in DB:', allIds);
+      const revision = getRevision(id, revisionId);
+      if (!revision) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      // The brand or style of an old revision may have been deleted since
+      const invalid = normalizeTaxonomyFields(revision.snapshot);
+      if (invalid) {
+        return res.status(409).json({ error: `Cannot roll back: ${Object.values(invalid)[0]}` });
+      }
+      const expected = expectedVersions(req);
+      db.transaction(() => {
+        const stored: any = db.prepare('SELECT updated_at FROM motorcycles WHERE id = ?').get(id);
+        if (expected && !expected.includes(stored.updated_at)) throw staleVersion();
+        ensureBaselineRevision(id);
+        updateMotorcycle(id, revision.snapshot);
+        recordRevision(id, req.user!.id, 'rollback');
+      })();
+      const saved = getBike(id)!;
+      res.set('ETag', bikeETag(saved)).json(saved);
+    } catch (error: any) {
+      if (error.status === 412) {
+        const current = getBike(id)!;
+        return res.status(412).set('ETag', bikeETag(current)).json({ error: error.message, current });
+      }
+      console.error('Rollback error:', error);
+      res.status(500).json({ error: 'Failed to roll back motorcycle' });
+    }
+  });
 
-      const result = db.prepare('DELETE FROM motorcycles WHERE id = ?').run(id);
-      console.log('Delete result:', result);
-      
-      if (result.changes > 0) {
+  // Deleting moves a bike to the trash; it can be restored until it is purged
+  const trashMotorcycle = (id: string) =>
+    db.prepare('UPDATE motorcycles SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL').run(new Date().toISOString(), id).changes > 0;
+
+  app.post('/api/motorcycles/:id/delete', requireOwner, (req, res) => {
+    const { id } = req.params;
+    try {
+      if (trashMotorcycle(id)) {
         res.status(200).json({ success: true });
       } else {
-        console.warn(`ID ${id} not found in DB. Available IDs:`, allIds);
         res.status(404).json({ error: `Motorcycle with ID ${id} not found` });
       }
     } catch (error) {
@@ -200,12 +2927,10 @@ async function startServer() {
     }
   });
 
-  app.delete('/api/motorcycles/:id', (req, res) => {
+  app.delete('/api/motorcycles/:id', requireOwner, (req, res) => {
     const { id } = req.params;
-    console.log('DELETE request for ID:', id);
     try {
-      const result = db.prepare('DELETE FROM motorcycles WHERE id = ?').run(id);
-      if (result.changes > 0) {
+      if (trashMotorcycle(id)) {
         res.status(204).send();
       } else {
         res.status(404).json({ error: 'Motorcycle not found' });
@@ -215,30 +2940,638 @@ async function startServer() {
     }
   });
 
-  // Seeding logic removed - user will add their own data
-  
-  // Error handler
-  app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-    console.error('Unhandled Error:', err);
-    res.status(err.status || 500).json({ 
-      error: err.message || 'Internal Server Error' 
+  // Bikes that aren't public: drafts, scheduled and archived. Admins see everyone's, like the trash.
+  app.get('/api/drafts', requireAuth, (req, res) => {
+    try {
+      const rows: any[] = req.user!.role === 'admin'
+        ? db.prepare(`SELECT m.* FROM motorcycles m WHERE m.deleted_at IS NULL AND NOT (${PUBLISHED_SQL}) ORDER BY m.updated_at DESC`).all()
+        : db.prepare(`SELECT m.* FROM motorcycles m WHERE m.deleted_at IS NULL AND NOT (${PUBLISHED_SQL}) AND m.owner_id = ? ORDER BY m.updated_at DESC`).all(req.user!.id);
+      const items = rows.map(bike => formatBike(bike, { images: getImages(bike.id), modificationLog: getModificationLog(bike.id), tags: getTags(bike.id) }));
+      res.json({ items });
+    } catch (error) {
+      console.error('Drafts error:', error);
+      res.status(500).json({ error: 'Failed to fetch drafts' });
+    }
+  });
+
+  // Trash Routes
+  app.get('/api/trash', requireAuth, (req, res) => {
+    try {
+      const rows: any[] = req.user!.role === 'admin'
+        ? db.prepare('SELECT * FROM motorcycles WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC').all()
+        : db.prepare('SELECT * FROM motorcycles WHERE deleted_at IS NOT NULL AND owner_id = ? ORDER BY deleted_at DESC').all(req.user!.id);
+      const items = rows.map(bike => ({
+        ...formatBike(bike, { images: getImages(bike.id), modificationLog: getModificationLog(bike.id), tags: getTags(bike.id) }),
+        purgeAt: new Date(new Date(bike.deleted_at).getTime() + TRASH_RETENTION_DAYS * DAY).toISOString()
+      }));
+      res.json({ items, retentionDays: TRASH_RETENTION_DAYS });
+    } catch (error) {
+      console.error('Trash error:', error);
+      res.status(500).json({ error: 'Failed to fetch trash' });
+    }
+  });
+
+  app.post('/api/motorcycles/:id/restore', requireTrashOwner, (req, res) => {
+    const { id } = req.params;
+    try {
+      const result = db.prepare('UPDATE motorcycles SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL').run(id);
+      if (result.changes === 0) {
+        return res.status(409).json({ error: 'Motorcycle is not in the trash' });
+      }
+      res.json(getBike(id));
+    } catch (error) {
+      console.error('Restore error:', error);
+      res.status(500).json({ error: 'Failed to restore motorcycle' });
+    }
+  });
+
+  app.post('/api/motorcycles/:id/purge', requireTrashOwner, (req, res) => {
+    const { id } = req.params;
+    try {
+      const bike: any = db.prepare('SELECT deleted_at FROM motorcycles WHERE id = ?').get(id);
+      if (!bike.deleted_at) {
+        return res.status(409).json({ error: 'Move the motorcycle to the trash before purging it' });
+      }
+      purgeMotorcycle(id, uploaderScope(req.user!));
+      res.status(204).send();
+    } catch (error) {
+      console.error('Purge error:', error);
+      res.status(500).json({ error: 'Failed to purge motorcycle' });
+    }
+  });
+
+  // Gallery Routes
+  app.get('/api/motorcycles/:id/images', (req, res) => {
+    try {
+      if (!getViewableBike(req.params.id, req.user)) {
+        return res.status(404).json({ error: 'Motorcycle not found' });
+      }
+      res.json(getImages(req.params.id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch images' });
+    }
+  });
+
+  // { url, caption?, isCover?, mirror? }: with `mirror` an external url is copied into uploads first
+  app.post('/api/motorcycles/:id/images', requireOwner, async (req, res) => {
+    const { id } = req.params;
+    const { caption, isCover, mirror } = req.body;
+    let { url } = req.body;
+
+    if (!url) {
+      return res.status(400).json({ error: 'Missing image url' });
+    }
+    // Local images are stored by the URL /api/upload returned, never by one of its other sizes
+    if (!isRemoteUrl(url) && !pipelineBase(url)) {
+      return res.status(400).json({ error: 'Image url must be an uploaded image or an http(s) URL' });
+    }
+
+    const bike = db.prepare('SELECT id FROM motorcycles WHERE id = ?').get(id);
+    if (!bike) {
+      return res.status(404).json({ error: 'Motorcycle not found' });
+    }
+
+    let sourceUrl: string | null = null;
+    if (mirror && isRemoteUrl(url)) {
+      try {
+        sourceUrl = url;
+        url = await mirrorRemoteImage(url, req.user!.id);
+      } catch (error: any) {
+        return res.status(error.status || 500).json({ error: error.message });
+      }
+    }
+
+    try {
+      const { maxPos }: any = db.prepare('SELECT MAX(position) AS maxPos FROM motorcycle_images WHERE motorcycle_id = ?').get(id);
+      const result = db.prepare('INSERT INTO motorcycle_images (motorcycle_id, url, caption, position, source_url) VALUES (?, ?, ?, ?, ?)')
+        .run(id, url, caption || '', maxPos === null ? 0 : maxPos + 1, sourceUrl);
+      if (isCover) {
+        db.prepare('UPDATE motorcycle_images SET is_cover = CASE WHEN id = ? THEN 1 ELSE 0 END WHERE motorcycle_id = ?')
+          .run(result.lastInsertRowid, id);
+      }
+      syncCover(id);
+      res.status(201).json(getImages(id));
+    } catch (error) {
+      if (sourceUrl) removeUnreferencedUploads([url], req.user!.id);
+      console.error('Add image error:', error);
+      res.status(500).json({ error: 'Failed to add image' });
+    }
+  });
+
+  app.put('/api/motorcycles/:id/images/order', requireOwner, (req, res) => {
+    const { id } = req.params;
+    const { order } = req.body;
+
+    if (!Array.isArray(order)) {
+      return res.status(400).json({ error: 'Order must be an array of image IDs' });
+    }
+
+    try {
+      const current = new Set(getImages(id).map(img => img.id));
+      if (order.length !== current.size || !order.every((imageId: number) => current.has(imageId))) {
+        return res.status(400).json({ error: 'Order must list every image of this motorcycle exactly once' });
+      }
+
+      const stmt = db.prepare('UPDATE motorcycle_images SET position = ? WHERE id = ? AND motorcycle_id = ?');
+      db.transaction(() => {
+        order.forEach((imageId: number, index: number) => stmt.run(index, imageId, id));
+      })();
+      syncCover(id);
+      res.json(getImages(id));
+    } catch (error) {
+      console.error('Reorder images error:', error);
+      res.status(500).json({ error: 'Failed to reorder images' });
+    }
+  });
+
+  app.patch('/api/motorcycles/:id/images/:imageId', requireOwner, (req, res) => {
+    const { id, imageId } = req.params;
+    const { caption, isCover } = req.body;
+    try {
+      const image = db.prepare('SELECT id FROM motorcycle_images WHERE id = ? AND motorcycle_id = ?').get(imageId, id);
+      if (!image) {
+        return res.status(404).json({ error: 'Image not found' });
+      }
+
+      if (caption !== undefined) {
+        db.prepare('UPDATE motorcycle_images SET caption = ? WHERE id = ?').run(caption, imageId);
+      }
+      if (isCover) {
+        db.prepare('UPDATE motorcycle_images SET is_cover = CASE WHEN id = ? THEN 1 ELSE 0 END WHERE motorcycle_id = ?')
+          .run(imageId, id);
+      }
+      syncCover(id);
+      res.json(getImages(id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update image' });
+    }
+  });
+
+  const deleteImage = (req: express.Request, res: express.Response) => {
+    const { id, imageId } = req.params;
+    try {
+      const image: any = db.prepare('SELECT url FROM motorcycle_images WHERE id = ? AND motorcycle_id = ?').get(imageId, id);
+      if (!image) {
+        return res.status(404).json({ error: 'Image not found' });
+      }
+      db.prepare('DELETE FROM motorcycle_images WHERE id = ?').run(imageId);
+      syncCover(id);
+      removeUnreferencedUploads([image.url], uploaderScope(req.user!));
+      res.json(getImages(id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete image' });
+    }
+  };
+  app.delete('/api/motorcycles/:id/images/:imageId', requireOwner, deleteImage);
+  // POST alias for clients that can't send DELETE, same as the motorcycle delete route
+  app.post('/api/motorcycles/:id/images/:imageId/delete', requireOwner, deleteImage);
+
+  // Modification Log Routes
+  app.get('/api/motorcycles/:id/modifications', (req, res) => {
+    try {
+      if (!getViewableBike(req.params.id, req.user)) {
+        return res.status(404).json({ error: 'Motorcycle not found' });
+      }
+      res.json(getModificationLog(req.params.id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch modifications' });
+    }
+  });
+
+  app.post('/api/motorcycles/:id/modifications', requireOwner, (req, res) => {
+    const { id } = req.params;
+    const normalized = normalizeModificationEntry(req.body);
+    if ('errors' in normalized) {
+      return invalidFields(res, normalized.errors);
+    }
+    const { entry } = normalized;
+
+    try {
+      const bike = db.prepare('SELECT id FROM motorcycles WHERE id = ?').get(id);
+      if (!bike) {
+        return res.status(404).json({ error: 'Motorcycle not found' });
+      }
+
+      db.prepare(`
+        INSERT INTO modification_entries (motorcycle_id, date, part_name, category, cost, workshop, notes)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id, entry.date, entry.partName, entry.category, entry.cost, entry.workshop, entry.notes
+      );
+      syncModificationSummary(id);
+      res.status(201).json(getModificationLog(id));
+    } catch (error) {
+      console.error('Add modification error:', error);
+      res.status(500).json({ error: 'Failed to add modification' });
+    }
+  });
+
+  app.put('/api/motorcycles/:id/modifications/:entryId', requireOwner, (req, res) => {
+    const { id, entryId } = req.params;
+    const normalized = normalizeModificationEntry(req.body);
+    if ('errors' in normalized) {
+      return invalidFields(res, normalized.errors);
+    }
+    const { entry } = normalized;
+
+    try {
+      const result = db.prepare(`
+        UPDATE modification_entries
+        SET date = ?, part_name = ?, category = ?, cost = ?, workshop = ?, notes = ?
+        WHERE id = ? AND motorcycle_id = ?
+      `).run(
+        entry.date, entry.partName, entry.category, entry.cost, entry.workshop, entry.notes, entryId, id
+      );
+      if (result.changes === 0) {
+        return res.status(404).json({ error: 'Modification entry not found' });
+      }
+      syncModificationSummary(id);
+      res.json(getModificationLog(id));
+    } catch (error) {
+      console.error('Update modification error:', error);
+      res.status(500).json({ error: 'Failed to update modification' });
+    }
+  });
+
+  const deleteModification = (req: express.Request, res: express.Response) => {
+    const { id, entryId } = req.params;
+    try {
+      const result = db.prepare('DELETE FROM modification_entries WHERE id = ? AND motorcycle_id = ?').run(entryId, id);
+      if (result.changes === 0) {
+        return res.status(404).json({ error: 'Modification entry not found' });
+      }
+      syncModificationSummary(id);
+      res.json(getModificationLog(id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete modification' });
+    }
+  };
+  app.delete('/api/motorcycles/:id/modifications/:entryId', requireOwner, deleteModification);
+  app.post('/api/motorcycles/:id/modifications/:entryId/delete', requireOwner, deleteModification);
+
+  // Service Routes
+  app.get('/api/motorcycles/:id/service', requireOwner, (req, res) => {
+    try {
+      res.json(getServiceLog(req.params.id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch service records' });
+    }
+  });
+
+  app.post('/api/motorcycles/:id/service', requireOwner, (req, res) => {
+    const { id } = req.params;
+    const normalized = normalizeServiceRecord(req.body);
+    if ('error' in normalized) {
+      return res.status(400).json({ error: normalized.error });
+    }
+    const { record } = normalized;
+
+    try {
+      db.prepare(`
+        INSERT INTO service_records (motorcycle_id, service_type, title, date, odometer, interval_km, interval_months, parts, cost, workshop, notes)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id, record.serviceType, record.title, record.date, record.odometer, record.intervalKm, record.intervalMonths,
+        JSON.stringify(record.parts), record.cost, record.workshop, record.notes
+      );
+      res.status(201).json(getServiceLog(id));
+    } catch (error) {
+      console.error('Add service record error:', error);
+      res.status(500).json({ error: 'Failed to add service record' });
+    }
+  });
+
+  app.put('/api/motorcycles/:id/service/:recordId', requireOwner, (req, res) => {
+    const { id, recordId } = req.params;
+    const normalized = normalizeServiceRecord(req.body);
+    if ('error' in normalized) {
+      return res.status(400).json({ error: normalized.error });
+    }
+    const { record } = normalized;
+
+    try {
+      const result = db.prepare(`
+        UPDATE service_records
+        SET service_type = ?, title = ?, date = ?, odometer = ?, interval_km = ?, interval_months = ?, parts = ?, cost = ?, workshop = ?, notes = ?
+        WHERE id = ? AND motorcycle_id = ?
+      `).run(
+        record.serviceType, record.title, record.date, record.odometer, record.intervalKm, record.intervalMonths,
+        JSON.stringify(record.parts), record.cost, record.workshop, record.notes,
+        recordId, id
+      );
+      if (result.changes === 0) {
+        return res.status(404).json({ error: 'Service record not found' });
+      }
+      res.json(getServiceLog(id));
+    } catch (error) {
+      console.error('Update service record error:', error);
+      res.status(500).json({ error: 'Failed to update service record' });
+    }
+  });
+
+  const deleteServiceRecord = (req: express.Request, res: express.Response) => {
+    const { id, recordId } = req.params;
+    try {
+      const result = db.prepare('DELETE FROM service_records WHERE id = ? AND motorcycle_id = ?').run(recordId, id);
+      if (result.changes === 0) {
+        return res.status(404).json({ error: 'Service record not found' });
+      }
+      res.json(getServiceLog(id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete service record' });
+    }
+  };
+  app.delete('/api/motorcycles/:id/service/:recordId', requireOwner, deleteServiceRecord);
+  app.post('/api/motorcycles/:id/service/:recordId/delete', requireOwner, deleteServiceRecord);
+
+  app.post('/api/motorcycles/:id/odometer', requireOwner, (req, res) => {
+    const { id } = req.params;
+    const date = req.body.date || new Date().toISOString().slice(0, 10);
+    const km = parseWholeNumber(req.body.km, 0);
+    if (!isIsoDate(date)) {
+      return res.status(400).json({ error: 'Reading date must be a YYYY-MM-DD date' });
+    }
+    if (km == null) {
+      return res.status(400).json({ error: 'Odometer must be a whole number of kilometres' });
+    }
+
+    try {
+      db.prepare('INSERT INTO odometer_readings (motorcycle_id, date, km) VALUES (?, ?, ?)').run(id, date, km);
+      res.status(201).json(getServiceLog(id));
+    } catch (error) {
+      console.error('Add odometer reading error:', error);
+      res.status(500).json({ error: 'Failed to add odometer reading' });
+    }
+  });
+
+  const deleteOdometerReading = (req: express.Request, res: express.Response) => {
+    const { id, readingId } = req.params;
+    try {
+      const result = db.prepare('DELETE FROM odometer_readings WHERE id = ? AND motorcycle_id = ?').run(readingId, id);
+      if (result.changes === 0) {
+        return res.status(404).json({ error: 'Odometer reading not found' });
+      }
+      res.json(getServiceLog(id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete odometer reading' });
+    }
+  };
+  app.delete('/api/motorcycles/:id/odometer/:readingId', requireOwner, deleteOdometerReading);
+  app.post('/api/motorcycles/:id/odometer/:readingId/delete', requireOwner, deleteOdometerReading);
+
+  // Cost Routes
+  app.get('/api/motorcycles/:id/costs', requireOwner, (req, res) => {
+    try {
+      res.json(getCostLedger(req.params.id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch costs' });
+    }
+  });
+
+  app.post('/api/motorcycles/:id/costs', requireOwner, (req, res) => {
+    const { id } = req.params;
+    const normalized = normalizeCostEntry(req.body, req.user!);
+    if ('error' in normalized) {
+      return res.status(400).json({ error: normalized.error });
+    }
+    const { entry } = normalized;
+
+    try {
+      db.transaction(() => {
+        const { lastInsertRowid } = db.prepare(`
+          INSERT INTO cost_entries (motorcycle_id, date, description, kind, category, amount, currency, vendor, notes)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(id, entry.date, entry.description, entry.kind, entry.category, entry.amount, entry.currency, entry.vendor, entry.notes);
+        setCostReceipts(lastInsertRowid, entry.receipts, uploaderScope(req.user!));
+      })();
+      res.status(201).json(getCostLedger(id));
+    } catch (error) {
+      console.error('Add cost error:', error);
+      res.status(500).json({ error: 'Failed to add cost' });
+    }
+  });
+
+  app.put('/api/motorcycles/:id/costs/:entryId', requireOwner, (req, res) => {
+    const { id, entryId } = req.params;
+    const stored = (db.prepare(`
+      SELECT r.url FROM cost_receipts r JOIN cost_entries e ON e.id = r.cost_entry_id WHERE e.id = ? AND e.motorcycle_id = ?
+    `).all(entryId, id) as any[]).map(row => row.url);
+    const normalized = normalizeCostEntry(req.body, req.user!, stored);
+    if ('error' in normalized) {
+      return res.status(400).json({ error: normalized.error });
+    }
+    const { entry } = normalized;
+
+    try {
+      const found = db.transaction(() => {
+        const result = db.prepare(`
+          UPDATE cost_entries
+          SET date = ?, description = ?, kind = ?, category = ?, amount = ?, currency = ?, vendor = ?, notes = ?
+          WHERE id = ? AND motorcycle_id = ?
+        `).run(entry.date, entry.description, entry.kind, entry.category, entry.amount, entry.currency, entry.vendor, entry.notes, entryId, id);
+        if (result.changes === 0) return false;
+        setCostReceipts(Number(entryId), entry.receipts, uploaderScope(req.user!));
+        return true;
+      })();
+      if (!found) {
+        return res.status(404).json({ error: 'Cost entry not found' });
+      }
+      res.json(getCostLedger(id));
+    } catch (error) {
+      console.error('Update cost error:', error);
+      res.status(500).json({ error: 'Failed to update cost' });
+    }
+  });
+
+  const deleteCost = (req: express.Request, res: express.Response) => {
+    const { id, entryId } = req.params;
+    try {
+      const receipts = (db.prepare('SELECT url FROM cost_receipts WHERE cost_entry_id = ?').all(entryId) as any[]).map(row => row.url);
+      const result = db.prepare('DELETE FROM cost_entries WHERE id = ? AND motorcycle_id = ?').run(entryId, id);
+      if (result.changes === 0) {
+        return res.status(404).json({ error: 'Cost entry not found' });
+      }
+      removeUnreferencedUploads(receipts, uploaderScope(req.user!));
+      res.json(getCostLedger(id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete cost' });
+    }
+  };
+  app.delete('/api/motorcycles/:id/costs/:entryId', requireOwner, deleteCost);
+  app.post('/api/motorcycles/:id/costs/:entryId/delete', requireOwner, deleteCost);
+
+  app.get('/api/motorcycles/:id/costs/export.csv', requireOwner, (req, res) => {
+    const { id } = req.params;
+    try {
+      const bike: any = db.prepare('SELECT name FROM motorcycles WHERE id = ?').get(id);
+      const { entries, totals } = getCostLedger(id);
+      const csv = toCsv([
+        ['Date', 'Description', 'Kind', 'Category', 'Vendor', 'Currency', 'Amount', 'Receipts', 'Notes'],
+        ...entries.map(entry => [
+          entry.date, entry.description, entry.kind, entry.category, entry.vendor,
+          entry.currency, entry.amount, entry.receipts.join(' '), entry.notes
+        ]),
+        [],
+        ...(totals as any[]).map(row => ['Total', '', '', '', '', row.currency, row.total, '', ''])
+      ]);
+      res.attachment(`costs-${slugify(bike.name) || id}.csv`);
+      res.type('csv').send(csv);
+    } catch (error) {
+      console.error('Cost export error:', error);
+      res.status(500).json({ error: 'Failed to export costs' });
+    }
+  });
+
+  // Totals across the user's bikes (every bike for admins); ?format=csv downloads the same table
+  app.get('/api/costs/report', requireAuth, (req, res) => {
+    const groupBy = String(req.query.groupBy || 'bike') as CostGroup;
+    if (!Object.keys(COST_GROUPS).includes(groupBy)) {
+      return res.status(400).json({ error: `groupBy must be one of: ${Object.keys(COST_GROUPS).join(', ')}` });
+    }
+    try {
+      const report = costReport(groupBy, req.user!.role === 'admin' ? {} : { ownerId: req.user!.id });
+      if (req.query.format === 'csv') {
+        res.attachment(`cost-report-by-${groupBy}.csv`);
+        return res.type('csv').send(costReportCsv(report));
+      }
+      res.json(report);
+    } catch (error) {
+      console.error('Cost report error:', error);
+      res.status(500).json({ error: 'Failed to build cost report' });
+    }
+  });
+
+  // Upcoming and overdue service across the bikes the user looks after (every bike for admins)
+  app.get('/api/service/due', requireAuth, (req, res) => {
+    try {
+      const bikes: any[] = req.user!.role === 'admin'
+        ? db.prepare('SELECT id, name, image FROM motorcycles WHERE deleted_at IS NULL').all()
+        : db.prepare('SELECT id, name, image FROM motorcycles WHERE deleted_at IS NULL AND owner_id = ?').all(req.user!.id);
+      const items = bikes.flatMap(bike => {
+        const { odometer, reminders } = getServiceLog(bike.id);
+        return reminders
+          .filter(reminder => reminder.status !== 'ok')
+          .map(reminder => ({ ...reminder, bike: { id: bike.id, name: bike.name, image: bike.image }, odometer }));
+      }).sort(compareReminders);
+      res.json({ items, dueSoonKm: DUE_SOON_KM, dueSoonDays: DUE_SOON_DAYS });
+    } catch (error) {
+      console.error('Service due error:', error);
+      res.status(500).json({ error: 'Failed to fetch upcoming service' });
+    }
+  });
+
+  // Whole-garage backup as a ZIP of manifest.json plus uploads; ?format=json returns the manifest alone
+  app.get('/api/garage/export', requireAdmin, async (req, res) => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    try {
+      if (req.query.format === 'json') {
+        res.attachment(`garage-${stamp}.json`);
+        return res.json(buildManifest());
+      }
+      const archive = await buildArchive();
+      res.attachment(`garage-${stamp}.zip`);
+      res.type('zip').send(Buffer.from(archive));
+    } catch (error) {
+      console.error('Garage export error:', error);
+      res.status(500).json({ error: 'Failed to export garage' });
+    }
+  });
+
+  // multipart/form-data with the archive (ZIP or manifest JSON) in the "archive" field.
+  // mode=merge adds to the garage, mode=replace swaps everything out; dryRun=true only reports.
+  app.post('/api/garage/import', requireAdmin, (req, res) => {
+    archiveUpload.single('archive')(req, res, async (err: any) => {
+      const files = req.file ? [req.file] : [];
+      let unpackDir: string | null = null;
+      try {
+        if (err) {
+          if (err instanceof multer.MulterError) {
+            const message = err.code === 'LIMIT_FILE_SIZE' ? 'Archive is larger than 200MB' : err.message;
+            return res.status(err.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({ error: message });
+          }
+          throw err;
+        }
+        if (!req.file) {
+          return res.status(400).json({ error: 'No file in the "archive" field' });
+        }
+        const mode = String(req.body.mode || 'merge') as ImportMode;
+        if (mode !== 'merge' && mode !== 'replace') {
+          return res.status(400).json({ error: 'mode must be merge or replace' });
+        }
+        const dryRun = req.body.dryRun === 'true' || req.body.dryRun === '1';
+
+        unpackDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'garage-import-'));
+        const { manifest, files: archived } = await readArchive(req.file.path, unpackDir);
+        const errors = validateManifest(manifest, archived);
+        if (errors.length > 0) {
+          return res.status(400).json({ error: 'Archive failed validation', details: errors });
+        }
+        const { report, apply } = planImport(manifest, archived, mode, req.user!.id);
+        if (!dryRun) await apply();
+        res.json({ ...report, dryRun });
+      } catch (error: any) {
+        if (error.status === 400) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error('Garage import error:', error);
+        res.status(500).json({ error: 'Failed to import garage' });
+      } finally {
+        removeIncoming(files);
+        if (unpackDir) fs.rm(unpackDir, { recursive: true, force: true }, () => {});
+      }
     });
   });
 
+  // Seeding logic removed - user will add their own data
+
+  // index.html as the browser would get it: through Vite in development, the build otherwise
+  let loadIndexHtml: (url: string) => Promise<string>;
+
+  // Registered ahead of the SPA fallback so a shared link carries the build's preview
+  app.get('/bike/:id', async (req, res, next) => {
+    try {
+      const template = await loadIndexHtml(req.originalUrl);
+      const bike = getBike(req.params.id);
+      if (!bike || bike.deletedAt || !isPublished(bike)) {
+        return res.status(404).send(template);
+      }
+      res.send(renderSharePage(template, bike, publicOrigin(req)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Vite middleware for development
   if (process.env.NODE_ENV !== 'production') {
     const vite = await createViteServer({
       server: { middlewareMode: true },
       appType: 'spa',
     });
+    loadIndexHtml = async url =>
+      vite.transformIndexHtml(url, await fs.promises.readFile(path.join(__dirname, 'index.html'), 'utf-8'));
     app.use(vite.middlewares);
   } else {
+    loadIndexHtml = () => fs.promises.readFile(path.join(__dirname, 'dist/index.html'), 'utf-8');
     app.use(express.static('dist'));
     app.get('*', (req, res) => {
       res.sendFile(path.join(__dirname, 'dist/index.html'));
     });
   }
 
+  // Error handler, registered last so errors from the share page and the SPA fallback reach it too
+  app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    console.error('Unhandled Error:', err);
+    res.status(err.status || 500).json({ 
+      error: err.message || 'Internal Server Error' 
+    });
+  });
+
+  purgeExpiredTrash();
+  setInterval(() => {
+    purgeExpiredTrash();
+    purgeExpiredSessions();
+  }, 60 * 60 * 1000).unref();
+
   app.listen(PORT, '0.0.0.0', () => {
     console.log(`Server running on http://localhost:${PORT}`);
   });
@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { 
   Bike, 
@@ -27,32 +27,151 @@ import {
   Loader2,
   Settings,
   Wrench,
-  Upload
+  Upload,
+  LogIn,
+  LogOut,
+  Tags,
+  Scale,
+  Wallet,
+  Archive,
+  Download,
+  FileSpreadsheet,
+  Copy,
+  FileText,
+  User as UserIcon
 } from 'lucide-react';
-import { Motorcycle, Category } from './constants';
-
-const CATEGORIES: (Category | 'Semua')[] = [
-  'Semua', 
-  'Yamaha', 
-  'Suzuki', 
-  'Honda', 
-  'Piaggio'
+import { Motorcycle, MotorcycleImage, ModificationEntry, Category, Style, BaseModel, TagCount, User, MOTORCYCLE_STATUSES } from './constants';
+import Gallery from './components/Gallery';
+import ResponsiveImage from './components/ResponsiveImage';
+import GalleryEditor from './components/GalleryEditor';
+import ModificationTimeline from './components/ModificationTimeline';
+import ModificationEditor from './components/ModificationEditor';
+import AuthModal from './components/AuthModal';
+import TrashModal from './components/TrashModal';
+import TaxonomyModal, { TaxonomyKind } from './components/TaxonomyModal';
+import TagInput from './components/TagInput';
+import TagCloud, { TagMode } from './components/TagCloud';
+import ServicePanel from './components/ServicePanel';
+import ServiceDueModal from './components/ServiceDueModal';
+import CostPanel from './components/CostPanel';
+import CostReportModal from './components/CostReportModal';
+import GarageArchiveModal from './components/GarageArchiveModal';
+import CsvImportModal from './components/CsvImportModal';
+import DuplicateModal from './components/DuplicateModal';
+import BuildLineage from './components/BuildLineage';
+import DraftsModal from './components/DraftsModal';
+import StatusBadge, { isPublic, formatDateTime } from './components/StatusBadge';
+import { slugify } from './slug';
+import { parseRoute, bikePath, listPath } from './routes';
+import CompareView, { MAX_COMPARE } from './components/CompareView';
+import CompareTray, { CompareItem } from './components/CompareTray';
+import RevisionHistory from './components/RevisionHistory';
+import UploadQueue from './components/UploadQueue';
+import { SPEC_KEYS, SpecKey, UnitSystem, parseSpec, formatSpec, formatSpecDelta, displayUnit, toBaseUnit } from './specs';
+import { MAX_UPLOAD_BYTES, UploadTask, uploadImage } from './uploads';
+import { FieldErrors, validateMotorcycle } from './validation';
+
+type ToastAction = { label: string, onClick: () => void };
+
+// Quiet time after the last keystroke before a draft is saved
+const AUTOSAVE_DELAY = 1500;
+
+// What autosave sends: the form's fields as the schema reads them, so what the server fills in (id,
+// version, gallery) doesn't count as a change. Null while the form doesn't pass its checks.
+function draftBody(data: Partial<Motorcycle>) {
+  const checked = validateMotorcycle(data, { withId: false });
+  return 'errors' in checked ? null : JSON.stringify({ ...checked.bike, status: 'draft', publishAt: null });
+}
+
+// datetime-local inputs take the local time without a zone
+function toLocalInput(iso: string) {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+const SORT_OPTIONS: { value: string, label: string }[] = [
+  { value: 'created', label: 'Terbaru' },
+  { value: 'name', label: 'Nama A-Z' },
+  { value: 'year', label: 'Tahun Build' },
+  { value: 'power', label: 'Tenaga Terbesar' },
+  { value: 'engine', label: 'Kapasitas Mesin' },
+  { value: 'weight', label: 'Bobot Terberat' },
 ];
 
+const ALL_CATEGORIES = 'Semua';
+
 export default function App() {
+  const [initialRoute] = useState(() => parseRoute(window.location));
   const [bikes, setBikes] = useState<Motorcycle[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedCategory, setSelectedCategory] = useState<(Category | 'Semua')>('Semua');
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [styles, setStyles] = useState<Style[]>([]);
+  const [baseModels, setBaseModels] = useState<BaseModel[]>([]);
+  // Slug of the brand chip, or ALL_CATEGORIES
+  const [selectedCategory, setSelectedCategory] = useState(initialRoute.category || ALL_CATEGORIES);
+  const [selectedStyle, setSelectedStyle] = useState('');
+  const [tagCounts, setTagCounts] = useState<TagCount[]>([]);
+  // Slugs of the tags picked in the tag cloud
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagMode, setTagMode] = useState<TagMode>('and');
   const [selectedBike, setSelectedBike] = useState<Motorcycle | null>(null);
+  // The id in /bike/:id; the detail modal follows it so links, refresh and back/forward agree
+  const [bikeRouteId, setBikeRouteId] = useState(initialRoute.bikeId);
+  const [detailTab, setDetailTab] = useState<'detail' | 'history' | 'service' | 'costs'>('detail');
+  // Tab the next opened bike starts on; the service dashboard sends owners straight to 'service'
+  const nextDetailTab = useRef<'detail' | 'service'>('detail');
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isAboutOpen, setIsAboutOpen] = useState(false);
+  const [isAuthOpen, setIsAuthOpen] = useState(false);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [editingBike, setEditingBike] = useState<Motorcycle | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [uploading, setUploading] = useState(false);
+  const [searchQuery, setSearchQuery] = useState(initialRoute.q);
+  const [debouncedSearch, setDebouncedSearch] = useState(initialRoute.q);
+  const [sortBy, setSortBy] = useState('created');
+  const [yearMin, setYearMin] = useState('');
+  const [yearMax, setYearMax] = useState('');
+  const [powerMin, setPowerMin] = useState('');
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [uploads, setUploads] = useState<UploadTask[]>([]);
+  const uploadAborts = useRef(new Map<number, () => void>());
+  const uploadCounter = useRef(0);
+  const uploading = uploads.length > 0;
   const [uploadMethod, setUploadMethod] = useState<'url' | 'file'>('url');
+  const [mirrorImage, setMirrorImage] = useState(false);
   const [saving, setSaving] = useState(false);
-  const [toast, setToast] = useState<{ message: string, type: 'success' | 'error' } | null>(null);
+  const [formErrors, setFormErrors] = useState<FieldErrors>({});
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(() =>
+    localStorage.getItem('unitSystem') === 'imperial' ? 'imperial' : 'metric'
+  );
+  const [toast, setToast] = useState<{ message: string, type: 'success' | 'error', action?: ToastAction } | null>(null);
+  const toastTimer = useRef<ReturnType<typeof setTimeout>>();
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isServiceDueOpen, setIsServiceDueOpen] = useState(false);
+  const [isCostReportOpen, setIsCostReportOpen] = useState(false);
+  const [dueServiceCount, setDueServiceCount] = useState(0);
+  const [isTaxonomyOpen, setIsTaxonomyOpen] = useState(false);
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isCsvImportOpen, setIsCsvImportOpen] = useState(false);
+  const [duplicatingBike, setDuplicatingBike] = useState<Motorcycle | null>(null);
+  const [isDraftsOpen, setIsDraftsOpen] = useState(false);
+  // The server copy of the bike in the form, in a fresh box per opened form: an autosave that lands
+  // after the form closed updates its own box, not the next form's
+  const formBike = useRef<{ bike: Motorcycle | null, savedBody?: string, autosaved?: boolean, submitting?: boolean }>({ bike: null });
+  const autosaveRun = useRef<Promise<void>>(Promise.resolve());
+  const [autosave, setAutosave] = useState<{ state: 'idle' | 'saving' | 'saved' | 'failed', at?: string }>({ state: 'idle' });
+  // A shared ?compare=<id>,<id> link opens straight into the comparison
+  const [compareItems, setCompareItems] = useState<CompareItem[]>(() =>
+    (new URLSearchParams(window.location.search).get('compare') || '')
+      .split(',').filter(Boolean).slice(0, MAX_COMPARE)
+      .map(id => ({ id, name: '', image: '' }))
+  );
+  const [isCompareOpen, setIsCompareOpen] = useState(() => compareItems.length >= 2);
   const scrollRef = React.useRef<HTMLDivElement>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Bumped for every fresh search so responses to an outdated filter are dropped
+  const requestRef = useRef(0);
 
   const scroll = (direction: 'left' | 'right') => {
     if (scrollRef.current) {
@@ -62,19 +181,28 @@ export default function App() {
     }
   };
 
-  const showToast = (message: string, type: 'success' | 'error' = 'success') => {
-    setToast({ message, type });
-    setTimeout(() => setToast(null), 3000);
+  const showToast = (message: string, type: 'success' | 'error' = 'success', action?: ToastAction) => {
+    setToast({ message, type, action });
+    clearTimeout(toastTimer.current);
+    // Leave time to reach the action button
+    toastTimer.current = setTimeout(() => setToast(null), action ? 6000 : 3000);
   };
 
   // Form State
   const [formData, setFormData] = useState<Partial<Motorcycle>>({
     name: '',
-    category: 'Yamaha',
+    category: '',
+    style: null,
+    tags: [],
     year: new Date().getFullYear(),
     description: '',
     modifications: '',
     image: 'https://i.pinimg.com/1200x/42/d2/e2/42d2e21b5b70311bd82633fbbcafc172.jpg',
+    images: [],
+    modificationLog: [],
+    status: 'draft',
+    publishAt: null,
+    baseModelId: null,
     specs: {
       engine: '',
       power: '',
@@ -85,126 +213,399 @@ export default function App() {
   });
 
   useEffect(() => {
-    fetchBikes();
+    loadTaxonomies();
+    loadTags();
   }, []);
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then(response => response.ok ? response.json() : null)
+      .then(setCurrentUser)
+      .catch(error => console.error('Failed to load session:', error));
+  }, []);
 
-    // Check file size (5MB limit)
-    if (file.size > 5 * 1024 * 1024) {
-      alert('Ukuran file terlalu besar. Maksimal 5MB.');
-      return;
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    fetchBikes(null);
+  }, [selectedCategory, selectedStyle, selectedTags, tagMode, debouncedSearch, sortBy, yearMin, yearMax, powerMin, unitSystem]);
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !loadingMore) {
+        fetchBikes(nextCursor);
+      }
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore]);
+
+  useEffect(() => {
+    localStorage.setItem('unitSystem', unitSystem);
+  }, [unitSystem]);
+
+  useEffect(() => {
+    setDetailTab(nextDetailTab.current);
+    nextDetailTab.current = 'detail';
+  }, [selectedBike?.id]);
+
+  const loadDueServiceCount = () => {
+    fetch('/api/service/due')
+      .then(response => response.ok ? response.json() : { items: [] })
+      .then(data => setDueServiceCount(data.items.length))
+      .catch(error => console.error('Failed to load upcoming service:', error));
+  };
+
+  useEffect(() => {
+    if (currentUser) {
+      loadDueServiceCount();
+    } else {
+      setDueServiceCount(0);
     }
+  }, [currentUser?.id]);
 
-    setUploading(true);
-    
-    const reader = new FileReader();
-    reader.onload = async () => {
-      const base64String = reader.result as string;
-      
-      try {
-        const response = await fetch('/api/upload', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            image: base64String,
-            fileName: file.name
-          }),
-        });
+  useEffect(() => {
+    const handlePopState = () => {
+      const route = parseRoute(window.location);
+      setBikeRouteId(route.bikeId);
+      if (!route.bikeId) {
+        setSelectedCategory(route.category || ALL_CATEGORIES);
+        setSearchQuery(route.q);
+        setDebouncedSearch(route.q);
+      }
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
 
-        const contentType = response.headers.get('content-type');
-        if (response.ok && contentType?.includes('application/json')) {
-          const data = await response.json();
-          setFormData(prev => ({ ...prev, image: data.imageUrl }));
-          showToast('Gambar berhasil diunggah');
+  // Opens the build named in the URL, reusing the loaded card when there is one
+  useEffect(() => {
+    if (!bikeRouteId) {
+      setSelectedBike(null);
+      return;
+    }
+    if (selectedBike?.id === bikeRouteId) return;
+    const loaded = bikes.find(bike => bike.id === bikeRouteId);
+    if (loaded) {
+      setSelectedBike(loaded);
+      return;
+    }
+    let cancelled = false;
+    fetch(`/api/motorcycles/${encodeURIComponent(bikeRouteId)}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(bike => {
+        if (cancelled) return;
+        if (bike) {
+          setSelectedBike(bike);
         } else {
-          const errorText = await response.text();
-          console.error('Upload failed:', response.status, errorText);
-          try {
-            const errorJson = JSON.parse(errorText);
-            alert(`Gagal mengunggah: ${errorJson.error || 'Terjadi kesalahan'}`);
-          } catch {
-            alert(`Gagal mengunggah: Server mengembalikan respon tidak valid (${response.status})`);
-          }
+          showToast('Build tidak ditemukan', 'error');
+          closeBike();
         }
+      })
+      .catch(error => console.error('Failed to load bike:', error));
+    return () => { cancelled = true; };
+  }, [bikeRouteId]);
+
+  // Keeps /category/:slug and ?q= in step with the showroom filters. Switching brand adds a
+  // history entry; typing a search only replaces the current one.
+  useEffect(() => {
+    if (bikeRouteId) return;
+    const url = new URL(window.location.href);
+    url.pathname = listPath(selectedCategory === ALL_CATEGORIES ? null : selectedCategory);
+    if (debouncedSearch) {
+      url.searchParams.set('q', debouncedSearch);
+    } else {
+      url.searchParams.delete('q');
+    }
+    if (url.href === window.location.href) return;
+    if (url.pathname !== window.location.pathname) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(window.history.state, '', url);
+    }
+  }, [selectedCategory, debouncedSearch, bikeRouteId]);
+
+  // Takes the card when there is one; an id alone is looked up by the route effect
+  const openBike = (bike: Motorcycle | string) => {
+    const id = typeof bike === 'string' ? bike : bike.id;
+    if (typeof bike !== 'string') setSelectedBike(bike);
+    setBikeRouteId(id);
+    window.history.pushState({ fromShowroom: true }, '', `${bikePath(id)}${window.location.search}`);
+  };
+
+  // Steps back when the modal was opened from the showroom so the back button doesn't reopen
+  // it; a build reached through a link is swapped for the showroom instead
+  const closeBike = () => {
+    if (window.history.state?.fromShowroom) {
+      window.history.back();
+      return;
+    }
+    const url = new URL(window.location.href);
+    url.pathname = listPath(selectedCategory === ALL_CATEGORIES ? null : selectedCategory);
+    window.history.replaceState(null, '', url);
+    setBikeRouteId(null);
+  };
+
+  // Uploads the picked files side by side and resolves to the URLs that made it; failures are toasted
+  const uploadFiles = async (files: File[]) => {
+    const tooLarge = files.filter(file => file.size > MAX_UPLOAD_BYTES);
+    if (tooLarge.length > 0) {
+      showToast(`${tooLarge.map(file => file.name).join(', ')} lebih dari 5MB`, 'error');
+    }
+
+    const urls = await Promise.all(files.filter(file => file.size <= MAX_UPLOAD_BYTES).map(async file => {
+      const id = ++uploadCounter.current;
+      setUploads(prev => [...prev, { id, fileName: file.name, progress: 0 }]);
+      const handle = uploadImage(file, progress => {
+        setUploads(prev => prev.map(task => task.id === id ? { ...task, progress } : task));
+      });
+      uploadAborts.current.set(id, handle.abort);
+      try {
+        return await handle.promise;
       } catch (error) {
-        console.error('Upload error:', error);
-        alert('Terjadi kesalahan saat mengunggah.');
+        console.error('Upload failed:', file.name, error);
+        showToast(`Gagal mengunggah ${file.name}: ${(error as Error).message}`, 'error');
+        return null;
       } finally {
-        setUploading(false);
+        uploadAborts.current.delete(id);
+        setUploads(prev => prev.filter(task => task.id !== id));
       }
-    };
-    
-    reader.onerror = () => {
-      alert('Gagal membaca file.');
-      setUploading(false);
-    };
-    
-    reader.readAsDataURL(file);
+    }));
+    return urls.filter((url): url is string => url !== null);
+  };
+
+  const cancelUpload = (id: number) => {
+    uploadAborts.current.get(id)?.();
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const [imageUrl] = await uploadFiles([file]);
+    if (imageUrl) {
+      setFormData(prev => ({ ...prev, image: imageUrl }));
+      showToast('Gambar berhasil diunggah');
+    }
+  };
+
+  const handleGalleryChange = (bikeId: string, images: MotorcycleImage[]) => {
+    const cover = images.find(img => img.isCover)?.url || '';
+    setBikes(prev => prev.map(b => b.id === bikeId ? { ...b, images, image: cover } : b));
+    setFormData(prev => ({ ...prev, images, image: cover }));
+  };
+
+  const handleModificationLogChange = (bikeId: string, modificationLog: ModificationEntry[]) => {
+    const modifications = modificationLog.map(entry => entry.partName).join(', ');
+    setBikes(prev => prev.map(b => b.id === bikeId ? { ...b, modificationLog, modifications } : b));
+    setFormData(prev => ({ ...prev, modificationLog, modifications }));
+  };
+
+  // Visitors get a read-only showroom; owners and admins see the edit controls
+  const canEdit = (bike: Motorcycle) =>
+    !!currentUser && (currentUser.role === 'admin' || bike.ownerId === currentUser.id);
+
+  // The open bike's stock model, which its specs are compared against
+  const selectedBaseModel = baseModels.find(model => model.id === selectedBike?.baseModelId);
+  const stockDelta = (key: SpecKey) =>
+    formatSpecDelta(key, selectedBike?.specData?.[key], selectedBaseModel?.specData[key], unitSystem);
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+      setCurrentUser(null);
+      closeForm();
+      setIsTrashOpen(false);
+      setIsServiceDueOpen(false);
+      setIsCostReportOpen(false);
+      showToast('Anda telah keluar');
+    } catch (error) {
+      console.error('Logout failed:', error);
+    }
+  };
+
+  const buildSearchParams = (cursor: string | null) => {
+    const params = new URLSearchParams();
+    if (debouncedSearch) params.set('q', debouncedSearch);
+    if (selectedCategory !== ALL_CATEGORIES) params.set('category', selectedCategory);
+    if (selectedStyle) params.set('style', selectedStyle);
+    if (selectedTags.length > 0) {
+      params.set('tags', selectedTags.join(','));
+      if (selectedTags.length > 1) params.set('tagMode', tagMode);
+    }
+    // Relevance is the server default while searching, so only send an explicit sort otherwise
+    if (!debouncedSearch || sortBy !== 'created') params.set('sort', sortBy);
+    if (yearMin) params.set('yearMin', yearMin);
+    if (yearMax) params.set('yearMax', yearMax);
+    if (powerMin) params.set('powerMin', String(toBaseUnit('power', Number(powerMin), unitSystem)));
+    if (cursor) params.set('cursor', cursor);
+    return params;
   };
 
-  const fetchBikes = async () => {
+  // Loads the first page for the current filters, or the page after `cursor` for infinite scroll
+  const fetchBikes = async (cursor: string | null) => {
+    const requestId = cursor ? requestRef.current : ++requestRef.current;
+    if (cursor) {
+      setLoadingMore(true);
+    } else {
+      setLoading(true);
+    }
     try {
-      const response = await fetch('/api/motorcycles');
+      const response = await fetch(`/api/motorcycles?${buildSearchParams(cursor)}`);
+      if (requestId !== requestRef.current) return;
       if (response.ok) {
         const data = await response.json();
-        setBikes(data);
+        setBikes(prev => cursor ? [...prev, ...data.items] : data.items);
+        setTotal(data.total);
+        setNextCursor(data.nextCursor);
       }
     } catch (error) {
       console.error('Failed to fetch bikes:', error);
     } finally {
-      setLoading(false);
+      if (requestId === requestRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
   };
 
-  const filteredBikes = useMemo(() => {
-    return bikes.filter(bike => {
-      const matchesCategory = selectedCategory === 'Semua' || bike.category === selectedCategory;
-      const matchesSearch = bike.name.toLowerCase().includes(searchQuery.toLowerCase()) || 
-                           bike.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                           bike.modifications.toLowerCase().includes(searchQuery.toLowerCase());
-      return matchesCategory && matchesSearch;
+  const hasActiveFilters = debouncedSearch !== '' || selectedCategory !== ALL_CATEGORIES || selectedStyle !== '' || selectedTags.length > 0 || yearMin !== '' || yearMax !== '' || powerMin !== '';
+
+  const resetFilters = () => {
+    setSearchQuery('');
+    setSelectedCategory(ALL_CATEGORIES);
+    setSelectedStyle('');
+    setSelectedTags([]);
+    setYearMin('');
+    setYearMax('');
+    setPowerMin('');
+  };
+
+  // Once a save has failed, the messages follow the form as it is corrected
+  useEffect(() => {
+    setFormErrors(prev => {
+      if (Object.keys(prev).length === 0) return prev;
+      const checked = validateMotorcycle(formData, { withId: false });
+      return 'errors' in checked ? checked.errors : {};
+    });
+  }, [formData]);
+
+  // Keeps the showroom grid in step with a saved bike: listed while public, gone otherwise
+  const syncListedBike = (bike: Motorcycle) => {
+    const listed = bikes.some(b => b.id === bike.id);
+    if (isPublic(bike)) {
+      setBikes(prev => listed ? prev.map(b => b.id === bike.id ? bike : b) : [bike, ...prev]);
+      if (!listed) setTotal(prev => prev + 1);
+    } else if (listed) {
+      setBikes(prev => prev.filter(b => b.id !== bike.id));
+      setTotal(prev => prev - 1);
+    }
+  };
+
+  /**
+   * Saves a new or draft bike as a draft while it is being written, once it passes the form's
+   * checks. Saves run one after another, so the first one creates the bike and later ones update it.
+   */
+  const saveDraft = (data: Partial<Motorcycle>) => {
+    const target = formBike.current;
+    if (target.submitting || (target.bike && target.bike.status !== 'draft')) return;
+    const body = draftBody(data);
+    if (!body || body === target.savedBody) return;
+    const isOpen = () => formBike.current === target;
+    autosaveRun.current = autosaveRun.current.then(async () => {
+      if (target.submitting) return;
+      if (isOpen()) setAutosave({ state: 'saving' });
+      try {
+        const response = await fetch(target.bike ? `/api/motorcycles/${target.bike.id}` : '/api/motorcycles', {
+          method: target.bike ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json', ...(target.bike ? { 'If-Match': `"${target.bike.updatedAt}"` } : {}) },
+          body
+        });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const saved: Motorcycle = await response.json();
+        target.bike = saved;
+        target.savedBody = body;
+        target.autosaved = true;
+        if (!isOpen()) return;
+        // Typed fields stay as they are; the form only picks up what the server made of the bike
+        setEditingBike(saved);
+        setFormData(prev => ({ ...prev, id: saved.id, updatedAt: saved.updatedAt, images: saved.images, modificationLog: saved.modificationLog }));
+        setAutosave({ state: 'saved', at: saved.updatedAt });
+      } catch (error) {
+        console.error('Failed to autosave draft:', error);
+        if (isOpen()) setAutosave({ state: 'failed' });
+      }
     });
-  }, [bikes, selectedCategory, searchQuery]);
+    return autosaveRun.current;
+  };
+
+  useEffect(() => {
+    if (!isFormOpen) return;
+    const timer = setTimeout(() => saveDraft(formData), AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [formData, isFormOpen]);
+
+  const savedMessage = (bike: Motorcycle, wasPublic: boolean) => {
+    if (bike.status === 'draft') return 'Draf disimpan';
+    if (bike.status === 'archived') return 'Build dipindahkan ke arsip';
+    if (!isPublic(bike)) return `Build dijadwalkan terbit ${formatDateTime(bike.publishAt!)}`;
+    return wasPublic ? 'Karya kustom berhasil diperbarui' : 'Karya kustom berhasil dipublikasikan';
+  };
 
   const handleAddOrEdit = async (e: React.FormEvent) => {
     e.preventDefault();
+    // Same rules the server applies, so most mistakes show up without a round trip
+    const checked = validateMotorcycle(formData, { withId: false });
+    if ('errors' in checked) {
+      setFormErrors(checked.errors);
+      return;
+    }
+    setFormErrors({});
     setSaving(true);
+    const target = formBike.current;
+    target.submitting = true;
     try {
-      if (editingBike) {
-        const response = await fetch(`/api/motorcycles/${editingBike.id}`, {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(formData),
-        });
-        if (response.ok) {
-          setBikes(prev => prev.map(b => b.id === editingBike.id ? { ...formData, id: b.id } as Motorcycle : b));
-          showToast('Karya kustom berhasil diperbarui');
-        }
-      } else {
-        const newBike = {
-          ...formData,
-          id: Math.random().toString(36).substr(2, 9),
-        } as Motorcycle;
-        const response = await fetch('/api/motorcycles', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(newBike),
+      // An autosave still on its way may be the one that created the bike
+      await autosaveRun.current;
+      const bike = target.bike;
+      const response = await fetch(bike ? `/api/motorcycles/${bike.id}` : '/api/motorcycles', {
+        method: bike ? 'PUT' : 'POST',
+        // The version the form was opened from; the server refuses the save if the bike has moved on since
+        headers: { 'Content-Type': 'application/json', ...(bike ? { 'If-Match': `"${bike.updatedAt}"` } : {}) },
+        body: JSON.stringify({ ...formData, mirrorImage: uploadMethod === 'url' && mirrorImage }),
+      });
+      if (response.status === 412) {
+        const { current }: { current: Motorcycle } = await response.json();
+        syncListedBike(current);
+        showToast('Motor ini baru saja diubah orang lain. Perubahanmu belum disimpan.', 'error', {
+          label: 'Muat versi terbaru',
+          onClick: () => openForm(current)
         });
-        if (response.ok) {
-          setBikes(prev => [newBike, ...prev]);
-          showToast('Karya kustom baru berhasil dipublikasikan');
-        }
+        return;
+      }
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        if (errorData.fields) setFormErrors(errorData.fields);
+        showToast(errorData.error || 'Gagal menyimpan data motor', 'error');
+        return;
       }
+      const savedBike: Motorcycle = await response.json();
+      target.bike = savedBike;
+      syncListedBike(savedBike);
+      loadTags();
+      showToast(savedMessage(savedBike, !!bike && isPublic(bike)));
       closeForm();
     } catch (error) {
       console.error('Failed to save bike:', error);
       showToast('Gagal menyimpan data motor', 'error');
     } finally {
+      target.submitting = false;
       setSaving(false);
     }
   };
@@ -216,33 +617,147 @@ export default function App() {
       return;
     }
     
-    console.log('Attempting to delete bike with ID:', id);
-    if (window.confirm('Apakah Anda yakin ingin menghapus motor ini dari showroom?')) {
-      try {
-        // Using POST for delete to avoid potential method restrictions
-        const response = await fetch(`/api/motorcycles/${id}/delete`, { 
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' }
-        });
-        
-        console.log('Delete response status:', response.status);
-        if (response.ok) {
-          setBikes(prev => prev.filter(b => b.id !== id));
-          if (selectedBike?.id === id) setSelectedBike(null);
-          showToast('Motor berhasil dihapus');
-        } else {
-          const errorData = await response.json().catch(() => ({}));
-          console.error('Delete failed:', errorData);
-          showToast(errorData.error || 'Gagal menghapus motor', 'error');
-        }
-      } catch (error) {
-        console.error('Failed to delete bike:', error);
-        showToast('Gagal menghapus data motor', 'error');
+    // Deleting only moves the bike to the trash, so an undo in the toast replaces the old confirm dialog
+    try {
+      // Using POST for delete to avoid potential method restrictions
+      const response = await fetch(`/api/motorcycles/${id}/delete`, { 
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' }
+      });
+      
+      if (response.ok) {
+        setBikes(prev => prev.filter(b => b.id !== id));
+        loadTags();
+        setTotal(prev => prev - 1);
+        if (selectedBike?.id === id) closeBike();
+        showToast('Motor dipindahkan ke tempat sampah', 'success', { label: 'Urungkan', onClick: () => restoreBike(id) });
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        console.error('Delete failed:', errorData);
+        showToast(errorData.error || 'Gagal menghapus motor', 'error');
       }
+    } catch (error) {
+      console.error('Failed to delete bike:', error);
+      showToast('Gagal menghapus data motor', 'error');
+    }
+  };
+
+  const addRestoredBike = (bike: Motorcycle) => {
+    syncListedBike(bike);
+    loadTags();
+    showToast(`${bike.name} dipulihkan`);
+  };
+
+  // The copy is a draft and opens in the form straight away, since it is meant as a starting point
+  const handleDuplicated = (bike: Motorcycle) => {
+    setDuplicatingBike(null);
+    showToast(`${bike.name} disimpan sebagai draf`);
+    if (selectedBike) closeBike();
+    setTimeout(() => openForm(bike), 100);
+  };
+
+  const restoreBike = async (id: string) => {
+    try {
+      const response = await fetch(`/api/motorcycles/${id}/restore`, { method: 'POST' });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        addRestoredBike(data);
+      } else {
+        showToast(data.error || 'Gagal memulihkan motor', 'error');
+      }
+    } catch (error) {
+      console.error('Failed to restore bike:', error);
+      showToast('Gagal memulihkan motor', 'error');
+    }
+  };
+
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    if (isCompareOpen) {
+      url.searchParams.set('compare', compareItems.map(item => item.id).join(','));
+    } else {
+      url.searchParams.delete('compare');
+    }
+    window.history.replaceState(window.history.state, '', url);
+  }, [isCompareOpen, compareItems]);
+
+  const toggleCompare = (bike: Motorcycle) => {
+    if (compareItems.some(item => item.id === bike.id)) {
+      setCompareItems(prev => prev.filter(item => item.id !== bike.id));
+    } else if (compareItems.length >= MAX_COMPARE) {
+      showToast(`Maksimal ${MAX_COMPARE} build untuk dibandingkan`, 'error');
+    } else {
+      setCompareItems(prev => [...prev, { id: bike.id, name: bike.name, image: bike.image }]);
     }
   };
 
+  const removeFromCompare = (id: string) => {
+    const remaining = compareItems.filter(item => item.id !== id);
+    setCompareItems(remaining);
+    if (remaining.length < 2) setIsCompareOpen(false);
+  };
+
+  const loadTags = () => {
+    fetch('/api/tags')
+      .then(response => response.json())
+      .then(setTagCounts)
+      .catch(error => console.error('Failed to load tags:', error));
+  };
+
+  const toggleTag = (slug: string) => {
+    setSelectedTags(prev => prev.includes(slug) ? prev.filter(tag => tag !== slug) : [...prev, slug]);
+  };
+
+  const loadTaxonomies = async () => {
+    try {
+      const [categoryList, styleList, baseModelList] = await Promise.all([
+        fetch('/api/categories').then(response => response.json()),
+        fetch('/api/styles').then(response => response.json()),
+        fetch('/api/base-models').then(response => response.json()),
+      ]);
+      setCategories(categoryList);
+      setStyles(styleList);
+      setBaseModels(baseModelList);
+    } catch (error) {
+      console.error('Failed to load categories:', error);
+    }
+  };
+
+  const handleTaxonomyChange = (kind: TaxonomyKind, items: (Category | Style)[]) => {
+    // A renamed or deleted entry changes its slug, so drop it from the filters
+    if (kind === 'categories') {
+      setCategories(items as Category[]);
+      if (!items.some(item => item.slug === selectedCategory)) setSelectedCategory(ALL_CATEGORIES);
+      // Catalog models follow a renamed brand
+      fetch('/api/base-models')
+        .then(response => response.json())
+        .then(setBaseModels)
+        .catch(error => console.error('Failed to load base models:', error));
+    } else {
+      setStyles(items as Style[]);
+      if (!items.some(item => item.slug === selectedStyle)) setSelectedStyle('');
+    }
+    // Renames are applied to the bikes on the server
+    fetchBikes(null);
+  };
+
+  // Fills the spec inputs with the stock figures. Inputs the user already typed into are kept,
+  // unless they still hold the figure of the previously picked model.
+  const pickBaseModel = (id: number | null) => {
+    setFormData(prev => {
+      const previous = baseModels.find(model => model.id === prev.baseModelId);
+      const next = baseModels.find(model => model.id === id);
+      const specs = { ...prev.specs! };
+      for (const key of SPEC_KEYS) {
+        if (!specs[key].trim() || specs[key] === previous?.specs[key]) specs[key] = next?.specs[key] || '';
+      }
+      return { ...prev, baseModelId: id, specs };
+    });
+  };
+
   const openForm = (bike?: Motorcycle) => {
+    formBike.current = { bike: bike || null, savedBody: bike && draftBody(bike) || undefined };
+    setAutosave({ state: 'idle' });
     if (bike) {
       setEditingBike(bike);
       setFormData(bike);
@@ -250,11 +765,18 @@ export default function App() {
       setEditingBike(null);
       setFormData({
         name: '',
-        category: 'Yamaha',
+        category: categories[0]?.name || '',
+        style: null,
+        tags: [],
         year: new Date().getFullYear(),
         description: '',
         modifications: '',
         image: 'https://i.pinimg.com/1200x/42/d2/e2/42d2e21b5b70311bd82633fbbcafc172.jpg',
+        images: [],
+        modificationLog: [],
+        status: 'draft',
+        publishAt: null,
+        baseModelId: null,
         specs: {
           engine: '',
           power: '',
@@ -264,6 +786,7 @@ export default function App() {
         }
       });
     }
+    setFormErrors({});
     setIsFormOpen(true);
   };
 
@@ -272,6 +795,18 @@ export default function App() {
     setEditingBike(null);
   };
 
+  // Leaving without submitting keeps what was typed when the bike is a draft
+  const dismissForm = () => {
+    const target = formBike.current;
+    Promise.resolve(saveDraft(formData)).then(() => {
+      if (target.bike?.status === 'draft' && target.autosaved) {
+        const draft = target.bike;
+        showToast('Draf tersimpan di Draf Saya', 'success', { label: 'Lanjutkan', onClick: () => openForm(draft) });
+      }
+    });
+    closeForm();
+  };
+
   return (
     <div className="min-h-screen bg-[#0a0a0a] text-zinc-100 font-sans selection:bg-emerald-500/30">
       {/* Header */}
@@ -301,14 +836,88 @@ export default function App() {
                 className="bg-white/5 border border-white/10 rounded-full py-2 pl-10 pr-4 text-sm focus:outline-none focus:border-emerald-500/50 transition-colors w-48 lg:w-64"
               />
             </div>
-            <button 
-              onClick={() => openForm()}
-              className="px-4 sm:px-6 py-2.5 bg-gradient-to-r from-emerald-500 via-emerald-400 to-emerald-500 bg-[length:200%_auto] hover:bg-right transition-all duration-500 text-black rounded-full text-[10px] sm:text-xs font-bold shadow-lg shadow-emerald-500/20 flex items-center gap-1.5 sm:gap-2"
-            >
-              <Plus className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
-              <span className="hidden xs:inline">Tambah Custom</span>
-              <span className="xs:hidden">Tambah</span>
-            </button>
+            {currentUser ? (
+              <>
+                <button 
+                  onClick={() => openForm()}
+                  className="px-4 sm:px-6 py-2.5 bg-gradient-to-r from-emerald-500 via-emerald-400 to-emerald-500 bg-[length:200%_auto] hover:bg-right transition-all duration-500 text-black rounded-full text-[10px] sm:text-xs font-bold shadow-lg shadow-emerald-500/20 flex items-center gap-1.5 sm:gap-2"
+                >
+                  <Plus className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                  <span className="hidden xs:inline">Tambah Custom</span>
+                  <span className="xs:hidden">Tambah</span>
+                </button>
+                <div className="flex items-center gap-2 text-xs text-zinc-400">
+                  <UserIcon className="w-4 h-4 hidden sm:block" />
+                  <span className="hidden sm:inline font-medium">{currentUser.username}</span>
+                  {currentUser.role === 'admin' && (
+                    <button
+                      onClick={() => setIsTaxonomyOpen(true)}
+                      className="w-8 h-8 bg-white/5 rounded-full flex items-center justify-center hover:bg-white/10 hover:text-white transition-colors"
+                      aria-label="Kelola merek & gaya"
+                    >
+                      <Tags className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  {currentUser.role === 'admin' && (
+                    <button
+                      onClick={() => setIsArchiveOpen(true)}
+                      className="w-8 h-8 bg-white/5 rounded-full flex items-center justify-center hover:bg-white/10 hover:text-white transition-colors"
+                      aria-label="Cadangan garasi"
+                    >
+                      <Archive className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setIsServiceDueOpen(true)}
+                    className="relative w-8 h-8 bg-white/5 rounded-full flex items-center justify-center hover:bg-white/10 hover:text-white transition-colors"
+                    aria-label="Jadwal servis"
+                  >
+                    <Wrench className="w-3.5 h-3.5" />
+                    {dueServiceCount > 0 && (
+                      <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 bg-amber-500 text-black text-[9px] font-bold rounded-full flex items-center justify-center">
+                        {dueServiceCount}
+                      </span>
+                    )}
+                  </button>
+                  <button
+                    onClick={() => setIsCostReportOpen(true)}
+                    className="w-8 h-8 bg-white/5 rounded-full flex items-center justify-center hover:bg-white/10 hover:text-white transition-colors"
+                    aria-label="Laporan biaya"
+                  >
+                    <Wallet className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => setIsDraftsOpen(true)}
+                    className="w-8 h-8 bg-white/5 rounded-full flex items-center justify-center hover:bg-white/10 hover:text-white transition-colors"
+                    aria-label="Draf saya"
+                  >
+                    <FileText className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => setIsTrashOpen(true)}
+                    className="w-8 h-8 bg-white/5 rounded-full flex items-center justify-center hover:bg-white/10 hover:text-white transition-colors"
+                    aria-label="Tempat sampah"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={handleLogout}
+                    className="w-8 h-8 bg-white/5 rounded-full flex items-center justify-center hover:bg-white/10 hover:text-white transition-colors"
+                    aria-label="Keluar"
+                  >
+                    <LogOut className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </>
+            ) : (
+              <button 
+                onClick={() => setIsAuthOpen(true)}
+                className="px-4 sm:px-6 py-2.5 bg-white/5 border border-white/10 hover:bg-white/10 transition-colors rounded-full text-[10px] sm:text-xs font-bold flex items-center gap-1.5 sm:gap-2"
+              >
+                <LogIn className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                Masuk
+              </button>
+            )}
           </div>
         </div>
       </header>
@@ -377,17 +986,18 @@ export default function App() {
                 ref={scrollRef}
                 className="flex items-center gap-2 overflow-x-auto pb-2 md:pb-0 scrollbar-hide scroll-smooth px-10 md:px-0"
               >
-                {CATEGORIES.map((cat) => (
+                {[{ slug: ALL_CATEGORIES, name: ALL_CATEGORIES, logo: null }, ...categories].map((cat) => (
                   <button
-                    key={cat}
-                    onClick={() => setSelectedCategory(cat)}
-                    className={`px-6 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
-                      selectedCategory === cat 
+                    key={cat.slug}
+                    onClick={() => setSelectedCategory(cat.slug)}
+                    className={`px-6 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all flex items-center gap-2 ${
+                      selectedCategory === cat.slug 
                       ? 'bg-gradient-to-r from-emerald-500 to-emerald-400 text-black shadow-lg shadow-emerald-500/20' 
                       : 'bg-white/5 text-zinc-400 hover:bg-white/10'
                     }`}
                   >
-                    {cat}
+                    {cat.logo && <img src={cat.logo} alt="" className="w-4 h-4 object-contain" referrerPolicy="no-referrer" />}
+                    {cat.name}
                   </button>
                 ))}
               </div>
@@ -408,9 +1018,72 @@ export default function App() {
 
             <div className="flex items-center gap-2 text-zinc-500 text-sm shrink-0">
               <Filter className="w-4 h-4" />
-              <span>Menampilkan {filteredBikes.length} karya</span>
+              <span>Menampilkan {total} karya</span>
             </div>
           </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-xs">
+            <select
+              value={sortBy}
+              onChange={e => setSortBy(e.target.value)}
+              className="bg-white/5 border border-white/10 rounded-full px-4 py-2 focus:outline-none focus:border-emerald-500/50 appearance-none"
+            >
+              {SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value} className="bg-[#121212]">{option.label}</option>
+              ))}
+            </select>
+            <select
+              value={selectedStyle}
+              onChange={e => setSelectedStyle(e.target.value)}
+              className="bg-white/5 border border-white/10 rounded-full px-4 py-2 focus:outline-none focus:border-emerald-500/50 appearance-none"
+            >
+              <option value="" className="bg-[#121212]">Semua Gaya</option>
+              {styles.map(style => (
+                <option key={style.slug} value={style.slug} className="bg-[#121212]">{style.name}</option>
+              ))}
+            </select>
+            <div className="flex items-center gap-2 bg-white/5 border border-white/10 rounded-full px-4 py-1.5">
+              <span className="text-zinc-500 font-bold uppercase text-[10px]">Tahun</span>
+              <input type="number" value={yearMin} onChange={e => setYearMin(e.target.value)} placeholder="dari" className="w-14 bg-transparent focus:outline-none" />
+              <span className="text-zinc-600">-</span>
+              <input type="number" value={yearMax} onChange={e => setYearMax(e.target.value)} placeholder="sampai" className="w-14 bg-transparent focus:outline-none" />
+            </div>
+            <div className="flex items-center gap-2 bg-white/5 border border-white/10 rounded-full px-4 py-1.5">
+              <span className="text-zinc-500 font-bold uppercase text-[10px]">Tenaga min</span>
+              <input type="number" min="0" value={powerMin} onChange={e => setPowerMin(e.target.value)} className="w-12 bg-transparent focus:outline-none" />
+              <span className="text-zinc-600 font-mono">{displayUnit('power', unitSystem)}</span>
+            </div>
+            {hasActiveFilters && (
+              <button onClick={resetFilters} className="px-3 py-2 text-zinc-500 hover:text-white transition-colors">
+                Reset
+              </button>
+            )}
+            <div className="flex items-center gap-2 ml-auto">
+              {currentUser && (
+                <button
+                  onClick={() => setIsCsvImportOpen(true)}
+                  className="px-4 py-2 bg-white/5 border border-white/10 rounded-full flex items-center gap-2 hover:bg-white/10 transition-colors"
+                >
+                  <FileSpreadsheet className="w-3.5 h-3.5" /> Impor CSV
+                </button>
+              )}
+              {/* Exports exactly what the filters show, every page of it */}
+              <a
+                href={`/api/motorcycles/export.csv?${buildSearchParams(null)}`}
+                className="px-4 py-2 bg-white/5 border border-white/10 rounded-full flex items-center gap-2 hover:bg-white/10 transition-colors"
+              >
+                <Download className="w-3.5 h-3.5" /> Ekspor CSV
+              </a>
+            </div>
+          </div>
+
+          <TagCloud
+            tags={tagCounts}
+            selected={selectedTags}
+            mode={tagMode}
+            onToggle={toggleTag}
+            onModeChange={setTagMode}
+          />
         </section>
 
         {/* Grid */}
@@ -420,7 +1093,7 @@ export default function App() {
               <Loader2 className="w-10 h-10 animate-spin text-emerald-500" />
               <p className="font-medium">Membuka Showroom...</p>
             </div>
-          ) : filteredBikes.length === 0 && searchQuery !== '' ? (
+          ) : bikes.length === 0 && hasActiveFilters ? (
             <div className="col-span-full py-20 text-center">
               <div className="w-20 h-20 bg-white/5 rounded-full flex items-center justify-center mx-auto mb-6">
                 <Search className="w-8 h-8 text-zinc-500" />
@@ -428,7 +1101,7 @@ export default function App() {
               <h3 className="text-xl font-bold mb-2">Tidak ada hasil ditemukan</h3>
               <p className="text-zinc-500 mb-8">Coba kata kunci lain atau reset filter Anda.</p>
               <button 
-                onClick={() => { setSearchQuery(''); setSelectedCategory('Semua'); }}
+                onClick={resetFilters}
                 className="px-6 py-2 bg-white/5 hover:bg-white/10 rounded-full text-sm transition-colors"
               >
                 Reset Pencarian
@@ -437,33 +1110,45 @@ export default function App() {
           ) : (
             <>
               <AnimatePresence mode="popLayout">
-                {filteredBikes.map((bike, index) => (
+                {bikes.map((bike, index) => (
               <motion.div
                 layout
                 key={bike.id}
                 initial={{ opacity: 0, scale: 0.9 }}
                 animate={{ opacity: 1, scale: 1 }}
                 exit={{ opacity: 0, scale: 0.9 }}
-                transition={{ duration: 0.3, delay: index * 0.05 }}
+                transition={{ duration: 0.3, delay: (index % 12) * 0.05 }}
                 className="group relative bg-[#121212] border border-white/5 rounded-2xl overflow-hidden hover:border-emerald-500/50 transition-colors"
               >
                 <div className="aspect-[4/3] overflow-hidden relative">
-                  <img 
-                    src={bike.image} 
-                    alt={bike.name} 
-                    onError={(e) => {
-                      (e.target as HTMLImageElement).src = 'https://images.unsplash.com/photo-1558981403-c5f9899a28bc?auto=format&fit=crop&q=80&w=1000';
-                    }}
+                  <ResponsiveImage
+                    src={bike.image}
+                    alt={bike.name}
+                    sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
                     className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110"
-                    referrerPolicy="no-referrer"
                   />
                   <div className="absolute top-4 left-4 flex gap-2">
                     <span className="px-3 py-1 bg-black/60 backdrop-blur-md rounded-full text-[10px] font-bold uppercase tracking-wider border border-white/10">
                       {bike.category}
                     </span>
+                    {bike.style && (
+                      <span className="px-3 py-1 bg-emerald-500/80 text-black backdrop-blur-md rounded-full text-[10px] font-bold uppercase tracking-wider">
+                        {bike.style}
+                      </span>
+                    )}
                   </div>
                   
+                  {currentUser && (
                   <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button 
+                      onClick={(e) => { e.stopPropagation(); setDuplicatingBike(bike); }}
+                      title="Duplikat"
+                      className="w-8 h-8 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-emerald-500 hover:text-black transition-colors"
+                    >
+                      <Copy className="w-3.5 h-3.5" />
+                    </button>
+                    {canEdit(bike) && (
+                    <>
                     <button 
                       onClick={(e) => { e.stopPropagation(); openForm(bike); }}
                       className="w-8 h-8 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-emerald-500 hover:text-black transition-colors"
@@ -476,10 +1161,26 @@ export default function App() {
                     >
                       <Trash2 className="w-3.5 h-3.5" />
                     </button>
+                    </>
+                    )}
                   </div>
+                  )}
+
+                  <button
+                    onClick={() => toggleCompare(bike)}
+                    className={`absolute bottom-4 left-4 px-3 h-8 backdrop-blur-md rounded-full flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider transition-all ${
+                      compareItems.some(item => item.id === bike.id)
+                        ? 'bg-emerald-500 text-black opacity-100'
+                        : 'bg-white/10 opacity-0 group-hover:opacity-100 hover:bg-white/20'
+                    }`}
+                    aria-pressed={compareItems.some(item => item.id === bike.id)}
+                  >
+                    <Scale className="w-3.5 h-3.5" />
+                    Bandingkan
+                  </button>
 
                   <button 
-                    onClick={() => setSelectedBike(bike)}
+                    onClick={() => openBike(bike)}
                     className="absolute bottom-4 right-4 w-10 h-10 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity hover:bg-emerald-500 hover:text-black"
                   >
                     <Maximize2 className="w-4 h-4" />
@@ -499,7 +1200,11 @@ export default function App() {
                         <Wrench className="w-4 h-4 text-emerald-500" />
                         <div>
                           <p className="text-[10px] text-zinc-500 uppercase font-bold">Basis</p>
-                          <p className="text-xs font-mono">{(bike.specs?.engine || '').split(' ')[0] || '-'}</p>
+                          <p className="text-xs font-mono">
+                            {bike.specData?.engine?.base != null
+                              ? formatSpec('engine', bike.specData.engine, unitSystem)
+                              : (bike.specs?.engine || '').split(' ')[0] || '-'}
+                          </p>
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
@@ -516,6 +1221,7 @@ export default function App() {
           </AnimatePresence>
           
           {/* Add New Card Placeholder */}
+          {!nextCursor && currentUser && (
           <motion.button
             onClick={() => openForm()}
             className="flex flex-col items-center justify-center gap-4 bg-[#121212] border-2 border-dashed border-white/5 rounded-2xl p-12 hover:border-emerald-500/50 hover:bg-emerald-500/5 transition-all group"
@@ -528,9 +1234,18 @@ export default function App() {
               <p className="text-xs text-zinc-500 mt-1">Pamerkan modifikasi Anda</p>
             </div>
           </motion.button>
+          )}
             </>
           )}
         </section>
+
+        {/* Infinite scroll sentinel */}
+        <div ref={loadMoreRef} className="h-px" />
+        {loadingMore && (
+          <div className="py-10 flex justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-emerald-500" />
+          </div>
+        )}
       </main>
 
       {/* Detail Modal */}
@@ -541,7 +1256,7 @@ export default function App() {
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
-              onClick={() => setSelectedBike(null)}
+              onClick={closeBike}
               className="absolute inset-0 bg-black/90 backdrop-blur-sm"
             />
             <motion.div 
@@ -551,7 +1266,7 @@ export default function App() {
               className="relative w-full max-w-6xl bg-[#121212] rounded-2xl sm:rounded-3xl overflow-hidden border border-white/10 shadow-2xl max-h-[90vh] overflow-y-auto"
             >
               <button 
-                onClick={() => setSelectedBike(null)}
+                onClick={closeBike}
                 className="absolute top-4 right-4 sm:top-6 sm:right-6 z-20 w-8 h-8 sm:w-10 sm:h-10 bg-black/50 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-emerald-500 hover:text-black transition-colors"
               >
                 <X className="w-4 h-4 sm:w-5 sm:h-5" />
@@ -559,21 +1274,19 @@ export default function App() {
 
               <div className="flex flex-col lg:flex-row h-full">
                 <div className="lg:w-3/5 aspect-video lg:aspect-auto bg-zinc-900">
-                  <img 
-                    src={selectedBike.image} 
-                    alt={selectedBike.name} 
-                    onError={(e) => {
-                      (e.target as HTMLImageElement).src = 'https://images.unsplash.com/photo-1558981403-c5f9899a28bc?auto=format&fit=crop&q=80&w=1000';
-                    }}
-                    className="w-full h-full object-cover"
-                    referrerPolicy="no-referrer"
-                  />
+                  <Gallery images={selectedBike.images || []} fallback={selectedBike.image} alt={selectedBike.name} />
                 </div>
                 <div className="lg:w-2/5 p-6 sm:p-8 md:p-10 lg:p-12 overflow-y-auto">
                   <div className="flex items-center gap-3 mb-4">
                     <span className="px-3 py-1 bg-emerald-500/10 text-emerald-500 text-[10px] font-bold uppercase tracking-widest rounded-full border border-emerald-500/20">
                       {selectedBike.category}
                     </span>
+                    {selectedBike.style && (
+                      <span className="px-3 py-1 bg-white/5 text-zinc-300 text-[10px] font-bold uppercase tracking-widest rounded-full border border-white/10">
+                        {selectedBike.style}
+                      </span>
+                    )}
+                    <StatusBadge bike={selectedBike} />
                     <span className="text-zinc-500 text-[10px] sm:text-xs flex items-center gap-1">
                       <Calendar className="w-3 h-3" />
                       Build {selectedBike.year}
@@ -581,7 +1294,48 @@ export default function App() {
                   </div>
                   
                   <h2 className="text-3xl sm:text-4xl font-bold tracking-tight mb-6 leading-tight">{selectedBike.name}</h2>
+
+                  <div className="flex gap-1 bg-white/5 p-1 rounded-lg mb-8 w-fit">
+                    {([['detail', 'Detail'], ['history', 'Riwayat Edit'], ...(canEdit(selectedBike) ? [['service', 'Servis'], ['costs', 'Biaya']] as const : [])] as const).map(([tab, label]) => (
+                      <button
+                        key={tab}
+                        onClick={() => setDetailTab(tab)}
+                        className={`px-3 py-1.5 text-[10px] font-bold uppercase rounded-md transition-all ${detailTab === tab ? 'bg-emerald-500 text-black' : 'text-zinc-500 hover:text-white'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
                   
+                  {detailTab === 'costs' && canEdit(selectedBike) ? (
+                    <CostPanel
+                      bikeId={selectedBike.id}
+                      uploadFiles={uploadFiles}
+                      onError={message => showToast(message, 'error')}
+                    />
+                  ) : detailTab === 'service' && canEdit(selectedBike) ? (
+                    <ServicePanel
+                      bikeId={selectedBike.id}
+                      onChanged={loadDueServiceCount}
+                      onError={message => showToast(message, 'error')}
+                    />
+                  ) : detailTab === 'history' ? (
+                    <RevisionHistory
+                      bike={selectedBike}
+                      canEdit={canEdit(selectedBike)}
+                      onRolledBack={(bike) => {
+                        setBikes(prev => prev.map(b => b.id === bike.id ? bike : b));
+                        setSelectedBike(bike);
+                        showToast('Build dikembalikan ke versi sebelumnya');
+                      }}
+                      onStale={(bike) => {
+                        setBikes(prev => prev.map(b => b.id === bike.id ? bike : b));
+                        setSelectedBike(bike);
+                        showToast('Build ini baru saja diubah. Riwayat dimuat ulang; periksa lagi sebelum mengembalikan.', 'error');
+                      }}
+                      onError={message => showToast(message, 'error')}
+                    />
+                  ) : (
                   <div className="space-y-8">
                     <div>
                       <h4 className="text-[10px] font-bold uppercase tracking-[0.2em] text-zinc-500 border-b border-white/5 pb-2 mb-4">
@@ -590,40 +1344,70 @@ export default function App() {
                       <p className="text-zinc-400 text-sm sm:text-base leading-relaxed">
                         {selectedBike.description}
                       </p>
+                      {selectedBike.tags?.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-4">
+                          {selectedBike.tags.map(tag => (
+                            <button
+                              key={tag}
+                              onClick={() => { setSelectedTags([slugify(tag)]); closeBike(); }}
+                              className="px-3 py-1 bg-white/5 border border-white/10 rounded-full text-xs text-zinc-400 hover:border-emerald-500 hover:text-emerald-400 transition-colors"
+                            >
+                              #{tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
                     </div>
 
+                    <BuildLineage bike={selectedBike} onOpen={openBike} />
+
                     <div>
                       <h4 className="text-[10px] font-bold uppercase tracking-[0.2em] text-zinc-500 border-b border-white/5 pb-2 mb-4">
-                        Daftar Modifikasi
+                        Riwayat Build
                       </h4>
-                      <div className="flex flex-wrap gap-2">
-                        {(selectedBike.modifications || '').split(',').filter(Boolean).map((mod, i) => (
-                          <span key={i} className="px-2.5 py-1.5 bg-white/5 rounded-lg text-[10px] sm:text-xs text-zinc-300 border border-white/5">
-                            {mod.trim()}
-                          </span>
-                        ))}
-                        {!(selectedBike.modifications) && <span className="text-zinc-500 text-xs italic">Tidak ada modifikasi tercatat</span>}
-                      </div>
+                      <ModificationTimeline entries={selectedBike.modificationLog || []} />
                     </div>
 
                     <div>
-                      <h4 className="text-[10px] font-bold uppercase tracking-[0.2em] text-zinc-500 border-b border-white/5 pb-2 mb-4">
-                        Spesifikasi Teknis
-                      </h4>
+                      <div className="flex items-center justify-between border-b border-white/5 pb-2 mb-4">
+                        <h4 className="text-[10px] font-bold uppercase tracking-[0.2em] text-zinc-500">
+                          Spesifikasi Teknis
+                        </h4>
+                        <div className="flex bg-white/5 p-0.5 rounded-md">
+                          {(['metric', 'imperial'] as UnitSystem[]).map(system => (
+                            <button
+                              key={system}
+                              onClick={() => setUnitSystem(system)}
+                              className={`px-2 py-0.5 text-[9px] font-bold uppercase rounded transition-all ${unitSystem === system ? 'bg-emerald-500 text-black' : 'text-zinc-500 hover:text-white'}`}
+                            >
+                              {system === 'metric' ? 'Metrik' : 'Imperial'}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
                       <div className="grid grid-cols-2 gap-y-6 gap-x-4 sm:gap-x-8">
-                        <SpecItem icon={<Gauge />} label="Mesin" value={selectedBike.specs?.engine || '-'} />
-                        <SpecItem icon={<Zap />} label="Tenaga" value={selectedBike.specs?.power || '-'} />
-                        <SpecItem icon={<Activity />} label="Torsi" value={selectedBike.specs?.torque || '-'} />
-                        <SpecItem icon={<Shield />} label="Berat" value={selectedBike.specs?.weight || '-'} />
+                        <SpecItem icon={<Gauge />} label="Mesin" value={formatSpec('engine', selectedBike.specData?.engine, unitSystem)} unparsed={selectedBike.specData?.engine?.unparsed} delta={stockDelta('engine')} />
+                        <SpecItem icon={<Zap />} label="Tenaga" value={formatSpec('power', selectedBike.specData?.power, unitSystem)} unparsed={selectedBike.specData?.power?.unparsed} delta={stockDelta('power')} />
+                        <SpecItem icon={<Activity />} label="Torsi" value={formatSpec('torque', selectedBike.specData?.torque, unitSystem)} unparsed={selectedBike.specData?.torque?.unparsed} delta={stockDelta('torque')} />
+                        <SpecItem icon={<Shield />} label="Berat" value={formatSpec('weight', selectedBike.specData?.weight, unitSystem)} unparsed={selectedBike.specData?.weight?.unparsed} delta={stockDelta('weight')} />
+                        <SpecItem icon={<Gauge />} label="Top Speed" value={formatSpec('topSpeed', selectedBike.specData?.topSpeed, unitSystem)} unparsed={selectedBike.specData?.topSpeed?.unparsed} delta={stockDelta('topSpeed')} />
                       </div>
+                      {selectedBaseModel && (
+                        <p className="text-[10px] text-zinc-500 mt-4">
+                          Dibandingkan dengan stok <span className="text-zinc-300">{selectedBaseModel.category} {selectedBaseModel.name}</span>
+                        </p>
+                      )}
                     </div>
                   </div>
+                  )}
 
                   <div className="mt-10 sm:mt-12 flex flex-wrap gap-3 sm:gap-4">
+                    {canEdit(selectedBike) && (
+                    <>
                     <button 
                       onClick={() => { 
                         const bikeToEdit = {...selectedBike};
-                        setSelectedBike(null); 
+                        closeBike();
                         setTimeout(() => openForm(bikeToEdit), 100);
                       }}
                       className="flex-1 min-w-[120px] py-3.5 sm:py-4 bg-white/5 border border-white/10 text-white text-sm font-bold rounded-xl hover:bg-white/10 transition-colors flex items-center justify-center gap-2"
@@ -638,6 +1422,17 @@ export default function App() {
                       <Trash2 className="w-4 h-4" />
                       Hapus
                     </button>
+                    </>
+                    )}
+                    {currentUser && (
+                    <button 
+                      onClick={() => setDuplicatingBike(selectedBike)}
+                      className="flex-1 min-w-[120px] py-3.5 sm:py-4 bg-white/5 border border-white/10 text-white text-sm font-bold rounded-xl hover:bg-white/10 transition-colors flex items-center justify-center gap-2"
+                    >
+                      <Copy className="w-4 h-4" />
+                      Duplikat
+                    </button>
+                    )}
                     <a 
                       href={`https://wa.me/?text=Halo Garasito, saya tertarik dengan build ${selectedBike.name}`}
                       target="_blank"
@@ -682,11 +1477,11 @@ export default function App() {
               </p>
               <div className="grid grid-cols-2 gap-3 sm:gap-4 mb-8">
                 <div className="p-3 sm:p-4 bg-white/5 rounded-xl sm:rounded-2xl border border-white/5">
-                  <p className="text-xl sm:text-2xl font-bold text-emerald-500">{bikes.length}</p>
+                  <p className="text-xl sm:text-2xl font-bold text-emerald-500">{total}</p>
                   <p className="text-[8px] sm:text-[10px] text-zinc-500 uppercase font-bold tracking-widest">Karya Terdaftar</p>
                 </div>
                 <div className="p-3 sm:p-4 bg-white/5 rounded-xl sm:rounded-2xl border border-white/5">
-                  <p className="text-xl sm:text-2xl font-bold text-emerald-500">4</p>
+                  <p className="text-xl sm:text-2xl font-bold text-emerald-500">{categories.length}</p>
                   <p className="text-[8px] sm:text-[10px] text-zinc-500 uppercase font-bold tracking-widest">Brand Utama</p>
                 </div>
               </div>
@@ -709,7 +1504,7 @@ export default function App() {
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
-              onClick={closeForm}
+              onClick={dismissForm}
               className="absolute inset-0 bg-black/95 backdrop-blur-md"
             />
             <motion.div 
@@ -720,9 +1515,9 @@ export default function App() {
             >
               <div className="p-5 sm:p-8 border-b border-white/5 flex justify-between items-center bg-[#121212] z-10">
                 <h2 className="text-xl sm:text-2xl font-bold tracking-tight">
-                  {editingBike ? 'Edit Karya Kustom' : 'Tambah Karya Baru'}
+                  {editingBike ? (editingBike.status === 'draft' ? 'Edit Draf' : 'Edit Karya Kustom') : 'Tambah Karya Baru'}
                 </h2>
-                <button onClick={closeForm} className="text-zinc-500 hover:text-white transition-colors p-1">
+                <button onClick={dismissForm} className="text-zinc-500 hover:text-white transition-colors p-1">
                   <X className="w-6 h-6" />
                 </button>
               </div>
@@ -739,18 +1534,35 @@ export default function App() {
                       className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500 transition-colors"
                       placeholder="Contoh: Harley Sportster 'Iron Maiden'"
                     />
+                    <FieldError message={formErrors.name} />
                   </div>
                   <div className="space-y-2">
-                    <label className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Brand / Gaya</label>
+                    <label className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Brand</label>
                     <select 
+                      required
                       value={formData.category}
-                      onChange={e => setFormData({...formData, category: e.target.value as Category})}
+                      onChange={e => setFormData({...formData, category: e.target.value})}
+                      className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500 transition-colors appearance-none"
+                    >
+                      {categories.map(c => (
+                        <option key={c.slug} value={c.name} className="bg-[#121212]">{c.name}</option>
+                      ))}
+                    </select>
+                    <FieldError message={formErrors.category} />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Gaya</label>
+                    <select 
+                      value={formData.style || ''}
+                      onChange={e => setFormData({...formData, style: e.target.value || null})}
                       className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500 transition-colors appearance-none"
                     >
-                      {CATEGORIES.filter(c => c !== 'Semua').map(c => (
-                        <option key={c} value={c} className="bg-[#121212]">{c}</option>
+                      <option value="" className="bg-[#121212]">Tanpa gaya khusus</option>
+                      {styles.map(style => (
+                        <option key={style.slug} value={style.name} className="bg-[#121212]">{style.name}</option>
                       ))}
                     </select>
+                    <FieldError message={formErrors.style} />
                   </div>
                   <div className="space-y-2">
                     <label className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Tahun Selesai Build</label>
@@ -760,6 +1572,7 @@ export default function App() {
                       onChange={e => setFormData({...formData, year: parseInt(e.target.value)})}
                       className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500 transition-colors"
                     />
+                    <FieldError message={formErrors.year} />
                   </div>
                   <div className="space-y-4 md:col-span-2">
                     <div className="flex items-center justify-between border-b border-white/5 pb-2">
@@ -798,6 +1611,15 @@ export default function App() {
                               />
                               <p className="text-[9px] text-zinc-600 mt-2 italic">Gunakan link gambar dari Pinterest, Unsplash, atau hosting gambar lainnya.</p>
                             </div>
+                            <label className="flex items-center gap-2 text-[10px] text-zinc-400 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={mirrorImage}
+                                onChange={e => setMirrorImage(e.target.checked)}
+                                className="accent-emerald-500"
+                              />
+                              Simpan salinan di server agar gambar tidak hilang bila link asli dihapus
+                            </label>
                           </div>
                         ) : (
                           <div className="space-y-2">
@@ -825,12 +1647,13 @@ export default function App() {
                                   <p className="text-sm font-bold text-zinc-300">
                                     {uploading ? 'Sedang Mengunggah...' : 'Klik untuk Pilih Gambar'}
                                   </p>
-                                  <p className="text-[10px] text-zinc-500 mt-1">Maksimal 5MB (JPG, PNG, WEBP)</p>
+                                  <p className="text-[10px] text-zinc-500 mt-1">Maksimal 5MB (JPG, PNG, WEBP, AVIF). Data EXIF & lokasi dihapus otomatis.</p>
                                 </div>
                               </label>
                             </div>
                           </div>
                         )}
+                        <FieldError message={formErrors.image} />
                       </div>
 
                       <div className="space-y-2">
@@ -857,6 +1680,26 @@ export default function App() {
                       </div>
                     </div>
                   </div>
+                  {editingBike && (
+                    <div className="space-y-4 md:col-span-2">
+                      <div className="flex items-center justify-between border-b border-white/5 pb-2">
+                        <label className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Galeri Foto</label>
+                        <span className="text-[9px] text-zinc-600 italic">Perubahan galeri langsung tersimpan</span>
+                      </div>
+                      <GalleryEditor
+                        bikeId={editingBike.id}
+                        images={formData.images || []}
+                        onChange={images => handleGalleryChange(editingBike.id, images)}
+                        uploadFiles={uploadFiles}
+                        onError={message => showToast(message, 'error')}
+                      />
+                    </div>
+                  )}
+                  {uploading && (
+                    <div className="md:col-span-2">
+                      <UploadQueue uploads={uploads} onCancel={cancelUpload} />
+                    </div>
+                  )}
                 </div>
 
                 <div className="space-y-6 mb-8">
@@ -869,23 +1712,62 @@ export default function App() {
                       className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500 transition-colors resize-none"
                       placeholder="Ceritakan konsep dan inspirasi di balik build ini..."
                     />
+                    <FieldError message={formErrors.description} />
                   </div>
                   <div className="space-y-2">
-                    <label className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Daftar Modifikasi (Pisahkan dengan koma)</label>
-                    <textarea 
-                      rows={3}
-                      value={formData.modifications}
-                      onChange={e => setFormData({...formData, modifications: e.target.value})}
-                      className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500 transition-colors resize-none"
-                      placeholder="Contoh: S&S Carburetor, Custom Exhaust, Springer Fork..."
-                    />
+                    <label className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Tag</label>
+                    <TagInput tags={formData.tags || []} onChange={tags => setFormData(prev => ({ ...prev, tags }))} />
+                    <FieldError message={formErrors.tags} />
                   </div>
+                  {editingBike ? (
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Riwayat Modifikasi</label>
+                      <ModificationEditor
+                        bikeId={editingBike.id}
+                        entries={formData.modificationLog || []}
+                        onChange={entries => handleModificationLogChange(editingBike.id, entries)}
+                        onError={message => showToast(message, 'error')}
+                      />
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Daftar Modifikasi Awal (Pisahkan dengan koma)</label>
+                      <textarea 
+                        rows={3}
+                        value={formData.modifications}
+                        onChange={e => setFormData({...formData, modifications: e.target.value})}
+                        className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500 transition-colors resize-none"
+                        placeholder="Contoh: S&S Carburetor, Custom Exhaust, Springer Fork..."
+                      />
+                      <FieldError message={formErrors.modifications} />
+                      <p className="text-[9px] text-zinc-600 italic">Tanggal, biaya dan bengkel tiap part bisa dilengkapi lewat Edit Build setelah disimpan.</p>
+                    </div>
+                  )}
                 </div>
 
                 <div className="space-y-6">
                   <h4 className="text-xs font-bold uppercase tracking-[0.2em] text-zinc-500 border-b border-white/5 pb-2">
                     Spesifikasi Teknis (Opsional)
                   </h4>
+                  <div className="space-y-1">
+                    <label className="text-[9px] font-bold uppercase text-zinc-600">Model Dasar</label>
+                    <select
+                      value={formData.baseModelId ?? ''}
+                      onChange={e => pickBaseModel(e.target.value ? Number(e.target.value) : null)}
+                      className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500 appearance-none"
+                    >
+                      <option value="" className="bg-[#121212]">Tanpa model dasar</option>
+                      {baseModels
+                        .filter(model => model.category === formData.category || model.id === formData.baseModelId)
+                        .map(model => (
+                          <option key={model.id} value={model.id} className="bg-[#121212]">
+                            {model.category} {model.name}{model.yearFrom ? ` (${model.yearFrom}–${model.yearTo ?? 'sekarang'})` : ''}
+                          </option>
+                        ))}
+                    </select>
+                    <FieldError message={formErrors.baseModelId} />
+                    <p className="text-[9px] text-zinc-600 italic">Memilih model mengisi spesifikasi stok pabrik; ubah angkanya sesuai hasil modifikasi.</p>
+                  </div>
                   <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-1">
                       <label className="text-[9px] font-bold uppercase text-zinc-600">Mesin Basis</label>
@@ -896,6 +1778,8 @@ export default function App() {
                         className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500"
                         placeholder="1200cc Evolution"
                       />
+                      <SpecHint specKey="engine" text={formData.specs?.engine} />
+                      <FieldError message={formErrors['specs.engine']} />
                     </div>
                     <div className="space-y-1">
                       <label className="text-[9px] font-bold uppercase text-zinc-600">Tenaga</label>
@@ -906,6 +1790,8 @@ export default function App() {
                         className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500"
                         placeholder="68 HP"
                       />
+                      <SpecHint specKey="power" text={formData.specs?.power} />
+                      <FieldError message={formErrors['specs.power']} />
                     </div>
                     <div className="space-y-1">
                       <label className="text-[9px] font-bold uppercase text-zinc-600">Torsi</label>
@@ -916,6 +1802,8 @@ export default function App() {
                         className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500"
                         placeholder="96 Nm"
                       />
+                      <SpecHint specKey="torque" text={formData.specs?.torque} />
+                      <FieldError message={formErrors['specs.torque']} />
                     </div>
                     <div className="space-y-1">
                       <label className="text-[9px] font-bold uppercase text-zinc-600">Berat</label>
@@ -926,14 +1814,65 @@ export default function App() {
                         className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500"
                         placeholder="210 kg"
                       />
+                      <SpecHint specKey="weight" text={formData.specs?.weight} />
+                      <FieldError message={formErrors['specs.weight']} />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-[9px] font-bold uppercase text-zinc-600">Top Speed</label>
+                      <input 
+                        type="text" 
+                        value={formData.specs?.topSpeed}
+                        onChange={e => setFormData({...formData, specs: {...formData.specs!, topSpeed: e.target.value}})}
+                        className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500"
+                        placeholder="120 km/h"
+                      />
+                      <SpecHint specKey="topSpeed" text={formData.specs?.topSpeed} />
+                      <FieldError message={formErrors['specs.topSpeed']} />
                     </div>
                   </div>
                 </div>
 
+                <div className="mt-8 space-y-3">
+                  <label className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Status</label>
+                  <div className="flex bg-white/5 p-1 rounded-xl w-fit">
+                    {MOTORCYCLE_STATUSES.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => setFormData(prev => ({ ...prev, status: value, publishAt: value === 'published' ? prev.publishAt : null }))}
+                        className={`px-4 py-2 text-xs font-bold rounded-lg transition-all ${formData.status === value ? 'bg-emerald-500 text-black' : 'text-zinc-500 hover:text-white'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <FieldError message={formErrors.status} />
+                  {formData.status === 'published' && (
+                    <div className="space-y-1">
+                      <label className="text-[9px] font-bold uppercase text-zinc-600">Jadwal Terbit (kosongkan untuk terbit sekarang)</label>
+                      <input
+                        type="datetime-local"
+                        value={formData.publishAt ? toLocalInput(formData.publishAt) : ''}
+                        onChange={e => setFormData(prev => ({ ...prev, publishAt: e.target.value ? new Date(e.target.value).toISOString() : null }))}
+                        className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500 [color-scheme:dark]"
+                      />
+                      <FieldError message={formErrors.publishAt} />
+                    </div>
+                  )}
+                  {(!editingBike || editingBike.status === 'draft') && (
+                    <p className="text-[9px] text-zinc-600 italic">
+                      {autosave.state === 'saving' ? 'Menyimpan draf...'
+                        : autosave.state === 'saved' ? `Draf tersimpan otomatis ${formatDateTime(autosave.at!)}`
+                        : autosave.state === 'failed' ? 'Draf otomatis gagal disimpan; perubahan tetap ada di form ini'
+                        : 'Isian disimpan otomatis sebagai draf begitu kolom wajib terisi'}
+                    </p>
+                  )}
+                </div>
+
                 <div className="mt-12 flex gap-4">
                   <button 
                     type="button"
-                    onClick={closeForm}
+                    onClick={dismissForm}
                     className="flex-1 py-4 bg-white/5 border border-white/10 text-white font-bold rounded-xl hover:bg-white/10 transition-colors"
                   >
                     Batal
@@ -948,7 +1887,10 @@ export default function App() {
                     ) : (
                       <Save className="w-4 h-4" />
                     )}
-                    {editingBike ? 'Simpan Karya' : 'Publikasikan Karya'}
+                    {formData.status === 'draft' ? 'Simpan Draf'
+                      : formData.status === 'archived' ? 'Simpan ke Arsip'
+                      : formData.publishAt && !isPublic(formData as Motorcycle) ? 'Jadwalkan'
+                      : editingBike && isPublic(editingBike) ? 'Simpan Karya' : 'Publikasikan Karya'}
                   </button>
                 </div>
               </form>
@@ -957,6 +1899,160 @@ export default function App() {
         )}
       </AnimatePresence>
 
+      {/* Auth Modal */}
+      <AnimatePresence>
+        {isAuthOpen && (
+          <AuthModal
+            onClose={() => setIsAuthOpen(false)}
+            onAuthenticated={(user) => {
+              setCurrentUser(user);
+              setIsAuthOpen(false);
+              showToast(`Selamat datang, ${user.username}`);
+            }}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Compare */}
+      <AnimatePresence>
+        {compareItems.length > 0 && !isCompareOpen && (
+          <CompareTray
+            items={compareItems}
+            onRemove={removeFromCompare}
+            onClear={() => setCompareItems([])}
+            onOpen={() => setIsCompareOpen(true)}
+          />
+        )}
+      </AnimatePresence>
+      <AnimatePresence>
+        {isCompareOpen && (
+          <CompareView
+            ids={compareItems.map(item => item.id)}
+            unitSystem={unitSystem}
+            onRemove={removeFromCompare}
+            onLoaded={found => setCompareItems(found.map(bike => ({ id: bike.id, name: bike.name, image: bike.image })))}
+            onClose={() => setIsCompareOpen(false)}
+            onError={message => showToast(message, 'error')}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Service Due Modal */}
+      <AnimatePresence>
+        {isServiceDueOpen && (
+          <ServiceDueModal
+            onClose={() => setIsServiceDueOpen(false)}
+            onOpenBike={id => {
+              setIsServiceDueOpen(false);
+              if (selectedBike?.id === id) {
+                setDetailTab('service');
+              } else {
+                nextDetailTab.current = 'service';
+                openBike(id);
+              }
+            }}
+            onError={message => showToast(message, 'error')}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Cost Report Modal */}
+      <AnimatePresence>
+        {isCostReportOpen && (
+          <CostReportModal
+            onClose={() => setIsCostReportOpen(false)}
+            onError={message => showToast(message, 'error')}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Brand & Style Modal */}
+      <AnimatePresence>
+        {isTaxonomyOpen && (
+          <TaxonomyModal
+            categories={categories}
+            styles={styles}
+            onChange={handleTaxonomyChange}
+            onClose={() => setIsTaxonomyOpen(false)}
+            onError={message => showToast(message, 'error')}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Drafts Modal */}
+      <AnimatePresence>
+        {isDraftsOpen && (
+          <DraftsModal
+            onClose={() => setIsDraftsOpen(false)}
+            onEdit={bike => {
+              setIsDraftsOpen(false);
+              openForm(bike);
+            }}
+            onPublished={bike => {
+              syncListedBike(bike);
+              loadTags();
+              showToast(`${bike.name} diterbitkan`);
+            }}
+            onError={message => showToast(message, 'error')}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Duplicate Modal */}
+      <AnimatePresence>
+        {duplicatingBike && (
+          <DuplicateModal
+            bike={duplicatingBike}
+            onClose={() => setDuplicatingBike(null)}
+            onDuplicated={handleDuplicated}
+            onError={message => showToast(message, 'error')}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* CSV Import Modal */}
+      <AnimatePresence>
+        {isCsvImportOpen && (
+          <CsvImportModal
+            onClose={() => setIsCsvImportOpen(false)}
+            onImported={count => {
+              setIsCsvImportOpen(false);
+              showToast(`${count} motor berhasil diimpor`, 'success');
+              loadTags();
+              fetchBikes(null);
+            }}
+            onError={message => showToast(message, 'error')}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Garage Archive Modal */}
+      <AnimatePresence>
+        {isArchiveOpen && (
+          <GarageArchiveModal
+            onClose={() => setIsArchiveOpen(false)}
+            onImported={() => {
+              loadTaxonomies();
+              loadTags();
+              fetchBikes(null);
+              loadDueServiceCount();
+            }}
+            onError={message => showToast(message, 'error')}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Trash Modal */}
+      <AnimatePresence>
+        {isTrashOpen && (
+          <TrashModal
+            onClose={() => setIsTrashOpen(false)}
+            onRestored={addRestoredBike}
+            onError={message => showToast(message, 'error')}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Toast Notification */}
       <AnimatePresence>
         {toast && (
@@ -970,6 +2066,14 @@ export default function App() {
           >
             {toast.type === 'success' ? <Shield className="w-4 h-4" /> : <Info className="w-4 h-4" />}
             <span className="text-sm font-bold">{toast.message}</span>
+            {toast.action && (
+              <button
+                onClick={() => { toast.action!.onClick(); setToast(null); }}
+                className="ml-2 px-3 py-1 rounded-full bg-black/20 hover:bg-black/30 text-xs font-bold uppercase tracking-wider"
+              >
+                {toast.action.label}
+              </button>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
@@ -996,7 +2100,7 @@ export default function App() {
   );
 }
 
-function SpecItem({ icon, label, value }: { icon: React.ReactNode, label: string, value: string }) {
+function SpecItem({ icon, label, value, unparsed, delta }: { icon: React.ReactNode, label: string, value: string, unparsed?: boolean, delta?: string | null }) {
   return (
     <div className="flex items-start gap-3">
       <div className="mt-1 text-emerald-500">
@@ -1005,7 +2109,32 @@ function SpecItem({ icon, label, value }: { icon: React.ReactNode, label: string
       <div>
         <p className="text-[10px] text-zinc-500 uppercase font-bold tracking-wider mb-1">{label}</p>
         <p className="text-sm font-mono text-zinc-200">{value}</p>
+        {delta && <p className="text-[10px] font-mono text-emerald-400/80 mt-0.5">{delta} dari stok</p>}
+        {unparsed && (
+          <p className="text-[9px] text-amber-500/80 mt-0.5 flex items-center gap-1" title="Teks ini belum terbaca sebagai angka dan satuan, jadi ditampilkan apa adanya">
+            <Info className="w-3 h-3" /> Teks asli
+          </p>
+        )}
       </div>
     </div>
   );
 }
+
+// The server's message for one form field, if it failed validation
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-[10px] text-red-400">{message}</p>;
+}
+
+// Live feedback under a spec input showing how the server will read the text
+function SpecHint({ specKey, text }: { specKey: SpecKey, text?: string }) {
+  const spec = parseSpec(specKey, text);
+  if (!spec.raw) return null;
+  return spec.unparsed ? (
+    <p className="text-[9px] text-amber-500/80">Satuan tidak dikenali, disimpan sebagai teks</p>
+  ) : (
+    <p className="text-[9px] text-emerald-500/80 font-mono">
+      {spec.value?.toLocaleString('id-ID')} {spec.unit}{spec.rpm ? ` @ ${spec.rpm.toLocaleString('id-ID')} rpm` : ''}
+    </p>
+  );
+}
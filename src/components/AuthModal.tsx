@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { X, Loader2, LogIn } from 'lucide-react';
+import { User } from '../constants';
+
+interface AuthModalProps {
+  onClose: () => void;
+  onAuthenticated: (user: User) => void;
+}
+
+export default function AuthModal({ onClose, onAuthenticated }: AuthModalProps) {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        onAuthenticated(data);
+      } else {
+        setError(data.error || 'Gagal masuk');
+      }
+    } catch (err) {
+      console.error('Auth error:', err);
+      setError('Tidak dapat terhubung ke server');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/95 backdrop-blur-md"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="relative w-full max-w-sm bg-[#121212] rounded-2xl sm:rounded-3xl border border-white/10 shadow-2xl p-6 sm:p-8"
+      >
+        <button onClick={onClose} className="absolute top-5 right-5 text-zinc-500 hover:text-white transition-colors p-1">
+          <X className="w-5 h-5" />
+        </button>
+        <h2 className="text-2xl font-bold tracking-tight mb-1">
+          {mode === 'login' ? 'Masuk Garasi' : 'Daftar Akun'}
+        </h2>
+        <p className="text-zinc-500 text-xs mb-6">
+          {mode === 'login' ? 'Masuk untuk menambah dan mengelola build Anda.' : 'Buat akun untuk memamerkan build Anda.'}
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Username</label>
+            <input
+              required
+              autoFocus
+              type="text"
+              autoComplete="username"
+              value={username}
+              onChange={e => setUsername(e.target.value)}
+              className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500 transition-colors"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Password</label>
+            <input
+              required
+              type="password"
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              minLength={mode === 'register' ? 8 : undefined}
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500 transition-colors"
+            />
+          </div>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full py-3.5 bg-gradient-to-r from-emerald-500 to-emerald-400 text-black font-bold rounded-xl hover:from-emerald-400 hover:to-emerald-300 transition-all flex items-center justify-center gap-2 disabled:opacity-50 shadow-lg shadow-emerald-500/20"
+          >
+            {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogIn className="w-4 h-4" />}
+            {mode === 'login' ? 'Masuk' : 'Daftar'}
+          </button>
+        </form>
+
+        <button
+          onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(''); }}
+          className="w-full mt-4 text-xs text-zinc-500 hover:text-emerald-500 transition-colors"
+        >
+          {mode === 'login' ? 'Belum punya akun? Daftar' : 'Sudah punya akun? Masuk'}
+        </button>
+      </motion.div>
+    </div>
+  );
+}
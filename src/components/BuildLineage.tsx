@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { GitFork } from 'lucide-react';
+import { BuildLineage as Lineage, Motorcycle } from '../constants';
+
+interface BuildLineageProps {
+  bike: Motorcycle;
+  onOpen: (id: string) => void;
+}
+
+// "Based on" chain for a duplicated build and the builds duplicated from this one; nothing when neither exists
+export default function BuildLineage({ bike, onOpen }: BuildLineageProps) {
+  const [lineage, setLineage] = useState<Lineage | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLineage(null);
+    fetch(`/api/motorcycles/${bike.id}/lineage`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => { if (!cancelled) setLineage(data); })
+      .catch(error => console.error('Failed to load lineage:', error));
+    return () => { cancelled = true; };
+  }, [bike.id, bike.forkedFrom]);
+
+  if (!lineage || (lineage.ancestors.length === 0 && lineage.forks.length === 0)) return null;
+
+  const link = (item: { id: string, name: string }) => (
+    <button
+      key={item.id}
+      onClick={() => onOpen(item.id)}
+      className="text-zinc-200 hover:text-emerald-400 transition-colors font-medium"
+    >
+      {item.name}
+    </button>
+  );
+
+  return (
+    <div>
+      <h4 className="text-[10px] font-bold uppercase tracking-[0.2em] text-zinc-500 border-b border-white/5 pb-2 mb-4">
+        Silsilah Build
+      </h4>
+      <div className="space-y-2 text-xs text-zinc-500">
+        {lineage.ancestors.length > 0 && (
+          <p className="flex flex-wrap items-center gap-x-1.5 gap-y-1">
+            <GitFork className="w-3.5 h-3.5 text-emerald-500" />
+            Berdasarkan
+            {lineage.ancestors.map((ancestor, index) => (
+              <React.Fragment key={ancestor.id}>
+                {index > 0 && <span className="text-zinc-600">←</span>}
+                {ancestor.available
+                  ? link({ id: ancestor.id, name: ancestor.name! })
+                  : <span className="line-through text-zinc-600" title="Tidak tersedia">{ancestor.name ?? 'build yang tidak tersedia'}</span>}
+              </React.Fragment>
+            ))}
+          </p>
+        )}
+        {lineage.forks.length > 0 && (
+          <p className="flex flex-wrap items-center gap-x-1.5 gap-y-1">
+            Dijadikan dasar untuk
+            {lineage.forks.map((fork, index) => (
+              <React.Fragment key={fork.id}>
+                {index > 0 && <span className="text-zinc-600">·</span>}
+                {link(fork)}
+              </React.Fragment>
+            ))}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
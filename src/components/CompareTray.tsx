@@ -0,0 +1,58 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { X, Scale } from 'lucide-react';
+import { MAX_COMPARE } from './CompareView';
+import ResponsiveImage from './ResponsiveImage';
+
+export interface CompareItem {
+  id: string;
+  name: string;
+  image: string;
+}
+
+interface CompareTrayProps {
+  items: CompareItem[];
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onOpen: () => void;
+}
+
+// Bar pinned to the bottom of the showroom while builds are picked for comparison
+export default function CompareTray({ items, onRemove, onClear, onOpen }: CompareTrayProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 40 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 40 }}
+      className="fixed bottom-4 inset-x-4 z-40 max-w-3xl mx-auto bg-[#121212]/95 backdrop-blur-md border border-white/10 rounded-2xl shadow-2xl p-3 flex items-center gap-3"
+    >
+      <div className="flex-1 flex items-center gap-2 overflow-x-auto scrollbar-hide">
+        {items.map(item => (
+          <div key={item.id} className="flex items-center gap-2 pl-1 pr-2 py-1 bg-white/5 rounded-xl shrink-0">
+            <ResponsiveImage src={item.image} alt={item.name} sizes="40px" className="w-10 h-8 rounded-lg object-cover" />
+            <span className="text-xs font-bold max-w-[8rem] truncate">{item.name || 'Build'}</span>
+            <button onClick={() => onRemove(item.id)} className="text-zinc-500 hover:text-white" aria-label={`Keluarkan ${item.name}`}>
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        {items.length < MAX_COMPARE && (
+          <span className="text-[10px] text-zinc-500 shrink-0 px-2">
+            {items.length < 2 ? 'Pilih minimal 2 build' : `Bisa tambah ${MAX_COMPARE - items.length} lagi`}
+          </span>
+        )}
+      </div>
+      <button onClick={onClear} className="text-[10px] text-zinc-500 hover:text-white px-2 shrink-0">
+        Kosongkan
+      </button>
+      <button
+        onClick={onOpen}
+        disabled={items.length < 2}
+        className="px-4 py-2.5 bg-emerald-500 text-black rounded-xl text-xs font-bold flex items-center gap-2 disabled:opacity-40 shrink-0"
+      >
+        <Scale className="w-4 h-4" />
+        Bandingkan ({items.length})
+      </button>
+    </motion.div>
+  );
+}
@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { X, Loader2, Link2, Trophy } from 'lucide-react';
+import { Motorcycle } from '../constants';
+import { SpecKey, UnitSystem, formatSpec, displayUnit, toDisplayUnit } from '../specs';
+import { formatRupiah } from './ModificationTimeline';
+import ResponsiveImage from './ResponsiveImage';
+
+export const MAX_COMPARE = 4;
+
+const SPEC_ROWS: { key: SpecKey, label: string, better: 'higher' | 'lower' }[] = [
+  { key: 'engine', label: 'Mesin', better: 'higher' },
+  { key: 'power', label: 'Tenaga', better: 'higher' },
+  { key: 'torque', label: 'Torsi', better: 'higher' },
+  { key: 'weight', label: 'Berat', better: 'lower' },
+  { key: 'topSpeed', label: 'Top Speed', better: 'higher' },
+];
+
+// Index of the best value in a row, or null when fewer than two builds have a number or they all tie
+function bestIndex(values: (number | null)[], better: 'higher' | 'lower') {
+  const numbers = values.filter((value): value is number => value !== null);
+  if (numbers.length < 2 || numbers.every(value => value === numbers[0])) return null;
+  const best = better === 'higher' ? Math.max(...numbers) : Math.min(...numbers);
+  return values.indexOf(best);
+}
+
+// Weight carried per unit of power in the viewer's units; lower is quicker
+function powerToWeight(bike: Motorcycle, system: UnitSystem) {
+  const power = bike.specData?.power?.base;
+  const weight = bike.specData?.weight?.base;
+  if (!power || !weight) return null;
+  return toDisplayUnit('weight', weight, system) / toDisplayUnit('power', power, system);
+}
+
+interface CompareViewProps {
+  ids: string[];
+  unitSystem: UnitSystem;
+  onRemove: (id: string) => void;
+  // Reports the builds that still exist, e.g. to fill the tray after opening a shared link
+  onLoaded: (bikes: Motorcycle[]) => void;
+  onClose: () => void;
+  onError: (message: string) => void;
+}
+
+export default function CompareView({ ids, unitSystem, onRemove, onLoaded, onClose, onError }: CompareViewProps) {
+  const [bikes, setBikes] = useState<Motorcycle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all(ids.map(id => fetch(`/api/motorcycles/${encodeURIComponent(id)}`).then(response => response.ok ? response.json() : null)))
+      .then(results => {
+        if (cancelled) return;
+        const found = results.filter((bike): bike is Motorcycle => bike !== null);
+        if (found.length < results.length) onError('Sebagian build sudah tidak tersedia');
+        setBikes(found);
+        onLoaded(found);
+      })
+      .catch(error => {
+        console.error('Failed to load comparison:', error);
+        onError('Gagal memuat perbandingan');
+      })
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [ids.join(',')]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      onError('Gagal menyalin link');
+    }
+  };
+
+  const cell = (highlight: boolean) =>
+    `p-4 align-top border-b border-white/5 ${highlight ? 'bg-emerald-500/10 text-emerald-400 font-bold' : 'text-zinc-300'}`;
+
+  const ratios = bikes.map(bike => powerToWeight(bike, unitSystem));
+  const ratioBest = bestIndex(ratios, 'lower');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/95 backdrop-blur-md"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="relative w-full max-w-6xl bg-[#121212] rounded-2xl sm:rounded-3xl border border-white/10 shadow-2xl overflow-hidden max-h-[92vh] flex flex-col"
+      >
+        <div className="p-5 sm:p-8 border-b border-white/5 flex justify-between items-center gap-4">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold tracking-tight">Bandingkan Build</h2>
+            <p className="text-xs text-zinc-500 mt-1 flex items-center gap-1">
+              <Trophy className="w-3 h-3 text-emerald-500" /> Nilai terbaik di tiap baris ditandai hijau
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={copyLink}
+              className="px-4 py-2 bg-white/5 border border-white/10 rounded-full text-xs font-bold flex items-center gap-2 hover:bg-white/10 transition-colors"
+            >
+              <Link2 className="w-3.5 h-3.5" />
+              {copied ? 'Link disalin' : 'Salin Link'}
+            </button>
+            <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors p-1">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-auto flex-1">
+          {loading ? (
+            <div className="py-16 flex justify-center">
+              <Loader2 className="w-8 h-8 animate-spin text-emerald-500" />
+            </div>
+          ) : (
+            <table className="w-full text-sm border-collapse min-w-[640px]">
+              <thead>
+                <tr>
+                  <th className="w-36 p-4" />
+                  {bikes.map(bike => (
+                    <th key={bike.id} className="p-4 text-left align-top font-normal">
+                      <div className="relative aspect-[4/3] rounded-xl overflow-hidden mb-3 bg-white/5">
+                        <ResponsiveImage src={bike.image} alt={bike.name} sizes="25vw" className="w-full h-full object-cover" />
+                        <button
+                          onClick={() => onRemove(bike.id)}
+                          className="absolute top-2 right-2 w-7 h-7 bg-black/60 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-red-500 transition-colors"
+                          aria-label={`Keluarkan ${bike.name} dari perbandingan`}
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                      <p className="font-bold text-base leading-tight">{bike.name}</p>
+                      <p className="text-[10px] text-zinc-500 uppercase tracking-wider mt-1">
+                        {[bike.category, bike.style, bike.year].filter(Boolean).join(' · ')}
+                      </p>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {SPEC_ROWS.map(row => {
+                  const best = bestIndex(bikes.map(bike => bike.specData?.[row.key]?.base ?? null), row.better);
+                  return (
+                    <tr key={row.key}>
+                      <th className="p-4 text-left text-[10px] uppercase tracking-wider text-zinc-500 border-b border-white/5 font-bold">{row.label}</th>
+                      {bikes.map((bike, index) => (
+                        <td key={bike.id} className={`${cell(index === best)} font-mono`}>
+                          {formatSpec(row.key, bike.specData?.[row.key], unitSystem)}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+                <tr>
+                  <th className="p-4 text-left text-[10px] uppercase tracking-wider text-zinc-500 border-b border-white/5 font-bold">
+                    Rasio Bobot/Tenaga
+                  </th>
+                  {bikes.map((bike, index) => (
+                    <td key={bike.id} className={`${cell(index === ratioBest)} font-mono`}>
+                      {ratios[index] === null ? '-' : `${ratios[index]!.toLocaleString('id-ID', { maximumFractionDigits: 2 })} ${displayUnit('weight', unitSystem)}/${displayUnit('power', unitSystem)}`}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <th className="p-4 text-left text-[10px] uppercase tracking-wider text-zinc-500 border-b border-white/5 font-bold">Biaya Modifikasi</th>
+                  {bikes.map(bike => {
+                    const total = (bike.modificationLog || []).reduce((sum, entry) => sum + (entry.cost || 0), 0);
+                    return (
+                      <td key={bike.id} className={`${cell(false)} font-mono`}>{total > 0 ? formatRupiah(total) : '-'}</td>
+                    );
+                  })}
+                </tr>
+                <tr>
+                  <th className="p-4 text-left text-[10px] uppercase tracking-wider text-zinc-500 border-b border-white/5 font-bold">Modifikasi</th>
+                  {bikes.map(bike => (
+                    <td key={bike.id} className={cell(false)}>
+                      {(bike.modificationLog || []).length === 0 ? '-' : (
+                        <ul className="space-y-1.5 text-xs">
+                          {bike.modificationLog.map(entry => (
+                            <li key={entry.id} className="flex gap-2">
+                              <span className="text-emerald-500">•</span>
+                              {entry.partName}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <th className="p-4 text-left text-[10px] uppercase tracking-wider text-zinc-500 font-bold">Tag</th>
+                  {bikes.map(bike => (
+                    <td key={bike.id} className="p-4 align-top text-xs text-zinc-400">
+                      {bike.tags?.length ? bike.tags.map(tag => `#${tag}`).join(' ') : '-'}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { CostGroupTotal, CostTotal } from '../constants';
+
+export const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency, maximumFractionDigits: currency === 'IDR' ? 0 : 2 }).format(amount);
+
+// '2026-03' -> 'Mar 2026'
+export const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('id-ID', { month: 'short', year: 'numeric' });
+
+// Amounts in different currencies can't share a scale, so charts show one currency at a time
+export function CurrencySwitch({ totals, value, onChange }: { totals: CostTotal[], value: string, onChange: (currency: string) => void }) {
+  if (totals.length < 2) return null;
+  return (
+    <div className="flex bg-white/5 p-1 rounded-lg text-[10px] font-bold w-fit">
+      {totals.map(total => (
+        <button
+          key={total.currency}
+          type="button"
+          onClick={() => onChange(total.currency)}
+          className={`px-2 py-0.5 rounded-md transition-all ${value === total.currency ? 'bg-emerald-500 text-black' : 'text-zinc-500 hover:text-white'}`}
+        >
+          {total.currency}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Horizontal bars scaled to the largest group
+export function CostBars({ rows, currency, label }: { rows: CostGroupTotal[], currency: string, label: (row: CostGroupTotal) => string }) {
+  const visible = rows.filter(row => row.currency === currency);
+  const max = Math.max(...visible.map(row => row.total), 0);
+  if (visible.length === 0) return <span className="text-zinc-500 text-xs italic">Belum ada biaya tercatat</span>;
+
+  return (
+    <div className="space-y-2.5">
+      {visible.map(row => (
+        <div key={row.key}>
+          <div className="flex justify-between gap-3 text-xs mb-1">
+            <span className="text-zinc-300 truncate">{label(row)}</span>
+            <span className="font-mono text-zinc-400 shrink-0">{formatMoney(row.total, currency)}</span>
+          </div>
+          <div className="h-2 bg-white/5 rounded-full overflow-hidden">
+            <div className="h-full bg-emerald-500 rounded-full" style={{ width: `${max ? (row.total / max) * 100 : 0}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Monthly spend as columns, oldest on the left
+export function MonthlyColumns({ rows, currency }: { rows: CostGroupTotal[], currency: string }) {
+  const visible = rows.filter(row => row.currency === currency);
+  const max = Math.max(...visible.map(row => row.total), 0);
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="flex items-end gap-1.5 h-32 overflow-x-auto scrollbar-hide">
+      {visible.map(row => (
+        <div key={row.key} className="flex-1 min-w-[2rem] h-full flex flex-col justify-end items-center gap-1" title={formatMoney(row.total, currency)}>
+          <div className="w-full bg-emerald-500/80 rounded-t-md" style={{ height: `${max ? Math.max((row.total / max) * 100, 2) : 0}%` }} />
+          <span className="text-[9px] text-zinc-500 whitespace-nowrap">{formatMonth(row.key)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface CostBreakdownProps {
+  totals: CostTotal[];
+  byCategory: CostGroupTotal[];
+  byMonth: CostGroupTotal[];
+  categoryLabel: (category: string) => string;
+}
+
+export default function CostBreakdown({ totals, byCategory, byMonth, categoryLabel }: CostBreakdownProps) {
+  const [currency, setCurrency] = useState(totals[0]?.currency || 'IDR');
+  const shown = totals.some(total => total.currency === currency) ? currency : totals[0]?.currency || 'IDR';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <p className="text-[10px] font-bold uppercase tracking-wider text-zinc-500">Total Biaya Build</p>
+          {totals.length === 0 ? (
+            <p className="text-2xl font-bold font-mono">{formatMoney(0, 'IDR')}</p>
+          ) : totals.map(total => (
+            <p key={total.currency} className="text-2xl font-bold font-mono text-emerald-500">{formatMoney(total.total, total.currency)}</p>
+          ))}
+        </div>
+        <CurrencySwitch totals={totals} value={shown} onChange={setCurrency} />
+      </div>
+      <CostBars rows={byCategory} currency={shown} label={row => categoryLabel(row.key)} />
+      <MonthlyColumns rows={byMonth} currency={shown} />
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import { Edit3, Trash2, Plus, Save, X, Loader2, Download, Receipt, Store } from 'lucide-react';
+import { CostEntry, CostKind, CostLedger, COST_KINDS, ModificationCategory, MODIFICATION_CATEGORIES } from '../constants';
+import { formatDate, categoryLabel } from './ModificationTimeline';
+import CostBreakdown, { formatMoney } from './CostBreakdown';
+import ResponsiveImage from './ResponsiveImage';
+
+const MAX_RECEIPTS = 5;
+
+interface CostPanelProps {
+  bikeId: string;
+  uploadFiles: (files: File[]) => Promise<string[]>;
+  onError: (message: string) => void;
+}
+
+type Draft = {
+  date: string;
+  description: string;
+  kind: CostKind;
+  category: ModificationCategory;
+  amount: string;
+  currency: string;
+  vendor: string;
+  notes: string;
+  receipts: string[];
+};
+
+const emptyDraft = (): Draft => ({
+  date: new Date().toISOString().slice(0, 10),
+  description: '',
+  kind: 'parts',
+  category: 'other',
+  amount: '',
+  currency: 'IDR',
+  vendor: '',
+  notes: '',
+  receipts: [],
+});
+
+const toDraft = (entry: CostEntry): Draft => ({
+  date: entry.date,
+  description: entry.description,
+  kind: entry.kind,
+  category: entry.category,
+  amount: String(entry.amount),
+  currency: entry.currency,
+  vendor: entry.vendor,
+  notes: entry.notes,
+  receipts: entry.receipts,
+});
+
+const kindLabel = (kind: CostKind) => COST_KINDS.find(k => k.value === kind)?.label || kind;
+
+// Parts-and-labour ledger for one bike with its cost breakdown
+export default function CostPanel({ bikeId, uploadFiles, onError }: CostPanelProps) {
+  const [ledger, setLedger] = useState<CostLedger | null>(null);
+  // null = no draft open, 'new' = adding, number = editing that entry
+  const [editing, setEditing] = useState<number | 'new' | null>(null);
+  const [draft, setDraft] = useState<Draft>(emptyDraft());
+  const [busy, setBusy] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    setLedger(null);
+    fetch(`/api/motorcycles/${bikeId}/costs`)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then(setLedger)
+      .catch(error => {
+        console.error('Failed to load costs:', error);
+        onError('Gagal memuat catatan biaya');
+      });
+  }, [bikeId]);
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setLedger(data);
+        return true;
+      }
+      onError(data.error || 'Gagal memperbarui catatan biaya');
+    } catch (error) {
+      console.error('Cost update failed:', error);
+      onError('Gagal memperbarui catatan biaya');
+    } finally {
+      setBusy(false);
+    }
+    return false;
+  };
+
+  const saveDraft = async () => {
+    if (!draft.description.trim() || draft.amount === '') {
+      onError('Keterangan dan jumlah wajib diisi');
+      return;
+    }
+    const saved = editing === 'new'
+      ? await request(`/api/motorcycles/${bikeId}/costs`, 'POST', draft)
+      : await request(`/api/motorcycles/${bikeId}/costs/${editing}`, 'PUT', draft);
+    if (saved) setEditing(null);
+  };
+
+  const addReceipts = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []).slice(0, MAX_RECEIPTS - draft.receipts.length);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setUploading(true);
+    try {
+      const urls = await uploadFiles(files);
+      setDraft(prev => ({ ...prev, receipts: [...prev.receipts, ...urls] }));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  if (!ledger) {
+    return (
+      <div className="py-12 flex justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-emerald-500" />
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500';
+  const labelClass = 'text-[9px] font-bold uppercase text-zinc-600';
+
+  const draftForm = (
+    <div className="p-4 bg-white/5 rounded-xl border border-emerald-500/30 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1 col-span-2">
+          <label className={labelClass}>Keterangan</label>
+          <input type="text" value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} className={inputClass} placeholder="Knalpot full system" />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Jenis</label>
+          <select value={draft.kind} onChange={e => setDraft({ ...draft, kind: e.target.value as CostKind })} className={`${inputClass} appearance-none`}>
+            {COST_KINDS.map(k => (
+              <option key={k.value} value={k.value} className="bg-[#121212]">{k.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Kategori</label>
+          <select value={draft.category} onChange={e => setDraft({ ...draft, category: e.target.value as ModificationCategory })} className={`${inputClass} appearance-none`}>
+            {MODIFICATION_CATEGORIES.map(c => (
+              <option key={c.value} value={c.value} className="bg-[#121212]">{c.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Jumlah</label>
+          <input type="number" min="0" step="any" value={draft.amount} onChange={e => setDraft({ ...draft, amount: e.target.value })} className={inputClass} placeholder="1500000" />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Mata Uang</label>
+          <input type="text" maxLength={3} value={draft.currency} onChange={e => setDraft({ ...draft, currency: e.target.value.toUpperCase() })} className={`${inputClass} font-mono uppercase`} placeholder="IDR" />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Tanggal</label>
+          <input type="date" value={draft.date} onChange={e => setDraft({ ...draft, date: e.target.value })} className={inputClass} />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Toko / Bengkel</label>
+          <input type="text" value={draft.vendor} onChange={e => setDraft({ ...draft, vendor: e.target.value })} className={inputClass} placeholder="Nama penjual" />
+        </div>
+        <div className="space-y-1 col-span-2">
+          <label className={labelClass}>Catatan</label>
+          <textarea rows={2} value={draft.notes} onChange={e => setDraft({ ...draft, notes: e.target.value })} className={`${inputClass} resize-none`} />
+        </div>
+        <div className="space-y-1 col-span-2">
+          <label className={labelClass}>Foto Nota ({draft.receipts.length}/{MAX_RECEIPTS})</label>
+          <div className="flex flex-wrap gap-2">
+            {draft.receipts.map(url => (
+              <div key={url} className="relative w-16 h-16 rounded-lg overflow-hidden border border-white/10">
+                <ResponsiveImage src={url} alt="Nota" sizes="64px" className="w-full h-full object-cover" />
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, receipts: draft.receipts.filter(r => r !== url) })}
+                  className="absolute top-0.5 right-0.5 w-5 h-5 bg-black/70 rounded-full flex items-center justify-center hover:bg-red-500"
+                  aria-label="Hapus nota"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            {draft.receipts.length < MAX_RECEIPTS && (
+              <label className="w-16 h-16 rounded-lg border-2 border-dashed border-white/10 flex items-center justify-center text-zinc-500 hover:border-emerald-500/50 hover:text-emerald-500 cursor-pointer">
+                {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Receipt className="w-4 h-4" />}
+                <input type="file" accept="image/*" multiple className="hidden" onChange={addReceipts} disabled={uploading} />
+              </label>
+            )}
+          </div>
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={() => setEditing(null)} className="px-3 py-2 rounded-lg bg-white/5 text-xs font-bold flex items-center gap-1.5 hover:bg-white/10">
+          <X className="w-3.5 h-3.5" /> Batal
+        </button>
+        <button type="button" disabled={busy || uploading} onClick={saveDraft} className="px-3 py-2 rounded-lg bg-emerald-500 text-black text-xs font-bold flex items-center gap-1.5 hover:bg-emerald-400 disabled:opacity-50">
+          {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />} Simpan
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <div className="flex items-center justify-between border-b border-white/5 pb-2 mb-4">
+          <h4 className="text-[10px] font-bold uppercase tracking-[0.2em] text-zinc-500">Rincian Biaya</h4>
+          {ledger.entries.length > 0 && (
+            <a href={`/api/motorcycles/${bikeId}/costs/export.csv`} className="text-[10px] font-bold text-zinc-400 hover:text-emerald-500 flex items-center gap-1">
+              <Download className="w-3 h-3" /> Ekspor CSV
+            </a>
+          )}
+        </div>
+        <CostBreakdown totals={ledger.totals} byCategory={ledger.byCategory} byMonth={ledger.byMonth} categoryLabel={categoryLabel} />
+      </div>
+
+      <div>
+        <h4 className="text-[10px] font-bold uppercase tracking-[0.2em] text-zinc-500 border-b border-white/5 pb-2 mb-4">
+          Buku Biaya
+        </h4>
+        <div className="space-y-3">
+          {editing === 'new' ? draftForm : (
+            <button
+              type="button"
+              onClick={() => { setDraft(emptyDraft()); setEditing('new'); }}
+              className="w-full py-2.5 border-2 border-dashed border-white/10 rounded-xl text-xs font-bold text-zinc-400 flex items-center justify-center gap-2 hover:border-emerald-500/50 hover:text-emerald-500 transition-colors"
+            >
+              <Plus className="w-4 h-4" /> Catat Biaya
+            </button>
+          )}
+
+          {ledger.entries.map(entry => editing === entry.id ? (
+            <React.Fragment key={entry.id}>{draftForm}</React.Fragment>
+          ) : (
+            <div key={entry.id} className="flex items-start justify-between gap-3 p-3 bg-white/5 rounded-xl border border-white/5">
+              <div className="min-w-0">
+                <p className="text-sm font-bold truncate">{entry.description}</p>
+                <p className="text-[10px] text-zinc-500 font-mono">
+                  {formatDate(entry.date)} · {kindLabel(entry.kind)} · {categoryLabel(entry.category)}
+                </p>
+                {entry.vendor && (
+                  <p className="text-[11px] text-zinc-500 mt-0.5 flex items-center gap-1"><Store className="w-3 h-3" />{entry.vendor}</p>
+                )}
+                {entry.receipts.length > 0 && (
+                  <div className="flex gap-1.5 mt-2">
+                    {entry.receipts.map(url => (
+                      <a key={url} href={url} target="_blank" rel="noreferrer" className="w-10 h-10 rounded-md overflow-hidden border border-white/10 hover:border-emerald-500">
+                        <ResponsiveImage src={url} alt="Nota" sizes="40px" className="w-full h-full object-cover" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="flex flex-col items-end gap-2 shrink-0">
+                <span className="text-sm font-mono text-emerald-500">{formatMoney(entry.amount, entry.currency)}</span>
+                <div className="flex gap-1">
+                  <button type="button" disabled={busy} onClick={() => { setDraft(toDraft(entry)); setEditing(entry.id); }} className="w-7 h-7 rounded-md bg-white/5 flex items-center justify-center hover:bg-emerald-500 hover:text-black disabled:opacity-30" aria-label="Edit biaya">
+                    <Edit3 className="w-3.5 h-3.5" />
+                  </button>
+                  <button type="button" disabled={busy} onClick={() => request(`/api/motorcycles/${bikeId}/costs/${entry.id}/delete`, 'POST')} className="w-7 h-7 rounded-md bg-white/5 flex items-center justify-center hover:bg-red-500 hover:text-white disabled:opacity-30" aria-label="Hapus biaya">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
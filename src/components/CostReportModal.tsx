@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { X, Loader2, Download } from 'lucide-react';
+import { CostGroupTotal, CostTotal } from '../constants';
+import { categoryLabel } from './ModificationTimeline';
+import { CostBars, CurrencySwitch, formatMoney, formatMonth } from './CostBreakdown';
+
+type CostGroup = 'bike' | 'category' | 'month';
+
+const GROUPS: [CostGroup, string][] = [['bike', 'Per Motor'], ['category', 'Per Kategori'], ['month', 'Per Bulan']];
+
+const groupLabel = (groupBy: CostGroup, row: CostGroupTotal) =>
+  groupBy === 'category' ? categoryLabel(row.key) : groupBy === 'month' ? formatMonth(row.key) : row.label;
+
+interface CostReportModalProps {
+  onClose: () => void;
+  onError: (message: string) => void;
+}
+
+// Spending across every bike the user owns (all bikes for admins), with a CSV download
+export default function CostReportModal({ onClose, onError }: CostReportModalProps) {
+  const [groupBy, setGroupBy] = useState<CostGroup>('bike');
+  const [report, setReport] = useState<{ groups: CostGroupTotal[], totals: CostTotal[] } | null>(null);
+  const [currency, setCurrency] = useState('');
+
+  useEffect(() => {
+    setReport(null);
+    fetch(`/api/costs/report?groupBy=${groupBy}`)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then(setReport)
+      .catch(error => {
+        console.error('Failed to load cost report:', error);
+        onError('Gagal memuat laporan biaya');
+      });
+  }, [groupBy]);
+
+  const shown = report?.totals.some(total => total.currency === currency) ? currency : report?.totals[0]?.currency || 'IDR';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/95 backdrop-blur-md"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="relative w-full max-w-2xl bg-[#121212] rounded-2xl sm:rounded-3xl border border-white/10 shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+      >
+        <div className="p-5 sm:p-8 border-b border-white/5 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold tracking-tight">Laporan Biaya</h2>
+            <p className="text-xs text-zinc-500 mt-1">Total pengeluaran dari buku biaya semua motor Anda.</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors p-1">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-5 sm:p-8 overflow-y-auto flex-1 space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex gap-1 bg-white/5 p-1 rounded-lg w-fit">
+              {GROUPS.map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setGroupBy(value)}
+                  className={`px-3 py-1.5 text-[10px] font-bold uppercase rounded-md transition-all ${groupBy === value ? 'bg-emerald-500 text-black' : 'text-zinc-500 hover:text-white'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <a
+              href={`/api/costs/report?groupBy=${groupBy}&format=csv`}
+              className="px-4 py-2 bg-white/5 border border-white/10 rounded-full text-xs font-bold flex items-center gap-2 hover:bg-white/10 transition-colors"
+            >
+              <Download className="w-3.5 h-3.5" /> Ekspor CSV
+            </a>
+          </div>
+
+          {!report ? (
+            <div className="py-12 flex justify-center">
+              <Loader2 className="w-8 h-8 animate-spin text-emerald-500" />
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-end justify-between gap-3">
+                <div>
+                  <p className="text-[10px] font-bold uppercase tracking-wider text-zinc-500">Total</p>
+                  {report.totals.length === 0 ? (
+                    <p className="text-2xl font-bold font-mono">{formatMoney(0, 'IDR')}</p>
+                  ) : report.totals.map(total => (
+                    <p key={total.currency} className="text-2xl font-bold font-mono text-emerald-500">
+                      {formatMoney(total.total, total.currency)}
+                      <span className="text-xs text-zinc-500 font-normal ml-2">{total.count} catatan</span>
+                    </p>
+                  ))}
+                </div>
+                <CurrencySwitch totals={report.totals} value={shown} onChange={setCurrency} />
+              </div>
+              <CostBars rows={report.groups} currency={shown} label={row => groupLabel(groupBy, row)} />
+            </>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { X, Loader2, Upload, FileSpreadsheet, Download, CheckCircle2, AlertCircle } from 'lucide-react';
+import { MOTORCYCLE_CSV_COLUMNS, toCsv } from '../csv';
+
+interface CsvRow {
+  row: number;
+  id: string;
+  name: string;
+  errors: string[];
+}
+
+interface CsvPreview {
+  columns: string[];
+  ignoredColumns: string[];
+  rows: CsvRow[];
+  valid: number;
+  invalid: number;
+}
+
+const TEMPLATE_URL = `data:text/csv;charset=utf-8,${encodeURIComponent(toCsv([[...MOTORCYCLE_CSV_COLUMNS]]))}`;
+
+interface CsvImportModalProps {
+  onClose: () => void;
+  onImported: (count: number) => void;
+  onError: (message: string) => void;
+}
+
+// Bulk add from a spreadsheet: every row is checked first and nothing is saved until all of them pass
+export default function CsvImportModal({ onClose, onImported, onError }: CsvImportModalProps) {
+  const [fileName, setFileName] = useState('');
+  const [text, setText] = useState('');
+  const [preview, setPreview] = useState<CsvPreview | null>(null);
+  const [fileError, setFileError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const send = async (csv: string, dryRun: boolean) => {
+    setBusy(true);
+    setFileError('');
+    try {
+      const response = await fetch(`/api/motorcycles/import${dryRun ? '?dryRun=true' : ''}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/csv' },
+        body: csv
+      });
+      const data = await response.json();
+      if (data.rows) setPreview(data);
+      if (!response.ok) {
+        if (!data.rows) {
+          setPreview(null);
+          setFileError(data.error || `HTTP ${response.status}`);
+        }
+        return;
+      }
+      if (!dryRun) onImported(data.imported);
+    } catch (error) {
+      console.error('Failed to import CSV:', error);
+      onError('Gagal mengimpor CSV');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const choose = async (file: File | undefined) => {
+    if (!file) return;
+    const csv = await file.text();
+    setFileName(file.name);
+    setText(csv);
+    send(csv, true);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/95 backdrop-blur-md"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="relative w-full max-w-2xl bg-[#121212] rounded-2xl sm:rounded-3xl border border-white/10 shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+      >
+        <div className="p-5 sm:p-8 border-b border-white/5 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold tracking-tight">Impor CSV</h2>
+            <p className="text-xs text-zinc-500 mt-1">Tambahkan banyak motor sekaligus dari spreadsheet.</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors p-1">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-5 sm:p-8 overflow-y-auto flex-1 space-y-5">
+          <div className="text-[10px] text-zinc-500 space-y-1">
+            <p>
+              Kolom wajib: <span className="font-mono text-zinc-300">name, year, category</span>. Kolom lain:{' '}
+              <span className="font-mono text-zinc-400">{MOTORCYCLE_CSV_COLUMNS.filter(column => !['name', 'year', 'category'].includes(column)).join(', ')}</span>.
+            </p>
+            <p>Tag dipisah koma dalam satu sel. Baris tanpa id akan dibuatkan id baru.</p>
+            <a href={TEMPLATE_URL} download="template-motor.csv" className="inline-flex items-center gap-1 text-emerald-500 hover:text-emerald-400 font-bold">
+              <Download className="w-3 h-3" /> Unduh template
+            </a>
+          </div>
+
+          <label className="flex items-center gap-3 p-4 bg-white/5 border border-dashed border-white/10 rounded-xl cursor-pointer hover:border-emerald-500/40 transition-colors">
+            <FileSpreadsheet className="w-5 h-5 text-zinc-500 shrink-0" />
+            <span className={`text-sm truncate ${fileName ? 'text-zinc-200' : 'text-zinc-500'}`}>{fileName || 'Pilih file .csv'}</span>
+            {busy && <Loader2 className="w-4 h-4 animate-spin text-emerald-500 ml-auto" />}
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={event => { choose(event.target.files?.[0]); event.target.value = ''; }}
+              className="hidden"
+            />
+          </label>
+
+          {fileError && (
+            <p className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-xs text-red-300">{fileError}</p>
+          )}
+
+          {preview && (
+            <>
+              <div className="flex flex-wrap gap-4 text-xs">
+                <span className="text-emerald-500 font-bold">{preview.valid} siap diimpor</span>
+                {preview.invalid > 0 && <span className="text-red-400 font-bold">{preview.invalid} bermasalah</span>}
+                {preview.ignoredColumns.length > 0 && (
+                  <span className="text-zinc-500">Kolom diabaikan: {preview.ignoredColumns.join(', ')}</span>
+                )}
+              </div>
+              <div className="border border-white/5 rounded-xl divide-y divide-white/5 max-h-80 overflow-y-auto">
+                {preview.rows.map(row => (
+                  <div key={row.row} className="flex items-start gap-3 px-3 py-2 text-xs">
+                    <span className="w-8 text-zinc-600 font-mono shrink-0">#{row.row}</span>
+                    {row.errors.length === 0
+                      ? <CheckCircle2 className="w-4 h-4 text-emerald-500 shrink-0" />
+                      : <AlertCircle className="w-4 h-4 text-red-400 shrink-0" />}
+                    <div className="min-w-0">
+                      <p className="font-bold truncate">{row.name || <span className="text-zinc-600 italic">tanpa nama</span>}</p>
+                      {row.errors.map(error => <p key={error} className="text-red-300">{error}</p>)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              onClick={() => send(text, false)}
+              disabled={!preview || preview.invalid > 0 || preview.valid === 0 || busy}
+              className="px-5 py-2.5 bg-emerald-500 text-black rounded-full text-xs font-bold flex items-center gap-2 hover:bg-emerald-400 transition-colors disabled:opacity-40"
+            >
+              {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+              Impor {preview?.valid || 0} motor
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
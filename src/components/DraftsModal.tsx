@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { X, Loader2, Edit3, Send } from 'lucide-react';
+import { Motorcycle } from '../constants';
+import { FALLBACK_IMAGE } from '../images';
+import ResponsiveImage from './ResponsiveImage';
+import StatusBadge, { formatDateTime } from './StatusBadge';
+
+interface DraftsModalProps {
+  onClose: () => void;
+  onEdit: (bike: Motorcycle) => void;
+  onPublished: (bike: Motorcycle) => void;
+  onError: (message: string) => void;
+}
+
+// Builds that aren't in the showroom yet (or anymore): drafts, scheduled and archived
+export default function DraftsModal({ onClose, onEdit, onPublished, onError }: DraftsModalProps) {
+  const [items, setItems] = useState<Motorcycle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/drafts')
+      .then(response => response.json())
+      .then(data => setItems(data.items || []))
+      .catch(error => {
+        console.error('Failed to load drafts:', error);
+        onError('Gagal memuat draf');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const publish = async (bike: Motorcycle) => {
+    setBusyId(bike.id);
+    try {
+      const response = await fetch(`/api/motorcycles/${bike.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', 'If-Match': `"${bike.updatedAt}"` },
+        body: JSON.stringify({ status: 'published', publishAt: null })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setItems(prev => prev.filter(b => b.id !== bike.id));
+        onPublished(data);
+      } else if (response.status === 412) {
+        setItems(prev => prev.map(b => b.id === bike.id ? data.current : b));
+        onError('Build ini baru saja diubah. Periksa lagi sebelum diterbitkan.');
+      } else {
+        onError(data.error || 'Gagal menerbitkan build');
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/95 backdrop-blur-md"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="relative w-full max-w-2xl bg-[#121212] rounded-2xl sm:rounded-3xl border border-white/10 shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+      >
+        <div className="p-5 sm:p-8 border-b border-white/5 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold tracking-tight">Draf Saya</h2>
+            <p className="text-xs text-zinc-500 mt-1">Build yang belum tampil di showroom: draf, terjadwal dan arsip.</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors p-1">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-5 sm:p-8 overflow-y-auto flex-1 space-y-3">
+          {loading ? (
+            <div className="py-12 flex justify-center">
+              <Loader2 className="w-8 h-8 animate-spin text-emerald-500" />
+            </div>
+          ) : items.length === 0 ? (
+            <p className="py-12 text-center text-zinc-500 text-sm">Tidak ada draf.</p>
+          ) : items.map(bike => (
+            <div key={bike.id} className="flex items-center gap-4 p-3 bg-white/5 rounded-xl border border-white/5">
+              <ResponsiveImage
+                src={bike.image || FALLBACK_IMAGE}
+                alt={bike.name}
+                sizes="64px"
+                className="w-16 h-12 rounded-lg object-cover shrink-0"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-bold truncate">{bike.name}</p>
+                  <StatusBadge bike={bike} />
+                </div>
+                <p className="text-[10px] text-zinc-500 font-mono">Diubah {formatDateTime(bike.updatedAt)}</p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => onEdit(bike)}
+                  className="px-3 py-2 rounded-lg bg-white/5 text-xs font-bold flex items-center gap-1.5 hover:bg-white/10 transition-colors"
+                >
+                  <Edit3 className="w-3.5 h-3.5" /> Edit
+                </button>
+                <button
+                  disabled={busyId === bike.id}
+                  onClick={() => publish(bike)}
+                  className="px-3 py-2 rounded-lg bg-white/5 text-xs font-bold flex items-center gap-1.5 hover:bg-emerald-500 hover:text-black transition-colors disabled:opacity-50"
+                >
+                  <Send className="w-3.5 h-3.5" /> Terbitkan
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { X, Loader2, Copy } from 'lucide-react';
+import { Motorcycle } from '../constants';
+
+interface DuplicateModalProps {
+  bike: Motorcycle;
+  onClose: () => void;
+  onDuplicated: (bike: Motorcycle) => void;
+  onError: (message: string) => void;
+}
+
+// Starts a new build from an existing one, keeping a link back to it
+export default function DuplicateModal({ bike, onClose, onDuplicated, onError }: DuplicateModalProps) {
+  const [name, setName] = useState(`${bike.name} (salinan)`);
+  const [withImages, setWithImages] = useState(bike.images.length > 0);
+  const [nameError, setNameError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setNameError('');
+    try {
+      const response = await fetch(`/api/motorcycles/${bike.id}/duplicate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, images: withImages })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        onDuplicated(data);
+      } else if (data.fields?.name) {
+        setNameError(data.fields.name);
+      } else {
+        onError(data.error || 'Gagal menduplikasi motor');
+      }
+    } catch (error) {
+      console.error('Failed to duplicate bike:', error);
+      onError('Gagal menduplikasi motor');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/95 backdrop-blur-md"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="relative w-full max-w-md bg-[#121212] rounded-2xl sm:rounded-3xl border border-white/10 shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+      >
+        <div className="p-5 sm:p-8 border-b border-white/5 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold tracking-tight">Duplikat Build</h2>
+            <p className="text-xs text-zinc-500 mt-1">Mulai build baru dari {bike.name}.</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors p-1">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={submit} className="p-5 sm:p-8 overflow-y-auto flex-1 space-y-5">
+          <div className="space-y-2">
+            <label className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Nama Build Baru</label>
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              autoFocus
+              className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500 transition-colors"
+            />
+            {nameError && <p className="text-[11px] text-red-400">{nameError}</p>}
+          </div>
+
+          <label className={`flex items-center gap-2 text-xs text-zinc-400 ${bike.images.length > 0 ? 'cursor-pointer' : 'opacity-40'}`}>
+            <input
+              type="checkbox"
+              checked={withImages}
+              disabled={bike.images.length === 0}
+              onChange={e => setWithImages(e.target.checked)}
+              className="accent-emerald-500"
+            />
+            Ikut salin foto galeri ({bike.images.length})
+          </label>
+
+          <p className="text-[10px] text-zinc-500">
+            Brand, gaya, tahun, spesifikasi, tag dan riwayat modifikasi ikut disalin. Biaya, riwayat servis dan riwayat edit tetap di build asli.
+          </p>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-5 py-2.5 bg-emerald-500 text-black rounded-full text-xs font-bold flex items-center gap-2 hover:bg-emerald-400 transition-colors disabled:opacity-40"
+            >
+              {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Copy className="w-3.5 h-3.5" />}
+              Duplikat
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { MotorcycleImage } from '../constants';
+import ResponsiveImage from './ResponsiveImage';
+
+// Minimum horizontal drag (px) before a swipe counts as next/previous
+const SWIPE_THRESHOLD = 50;
+
+function sourceHost(url: string) {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+export default function Gallery({ images, fallback, alt }: { images: MotorcycleImage[], fallback: string, alt: string }) {
+  const slides = images.length > 0 ? images : [{ id: 0, url: fallback, caption: '', position: 0, isCover: true, sourceUrl: null }];
+  const [index, setIndex] = useState(() => Math.max(0, slides.findIndex(img => img.isCover)));
+  const [direction, setDirection] = useState(0);
+
+  useEffect(() => {
+    if (index >= slides.length) setIndex(0);
+  }, [slides.length]);
+
+  const go = (step: number) => {
+    setDirection(step);
+    setIndex(prev => (prev + step + slides.length) % slides.length);
+  };
+
+  const current = slides[Math.min(index, slides.length - 1)];
+
+  return (
+    <div className="relative w-full h-full min-h-[240px] overflow-hidden bg-zinc-900 select-none">
+      <AnimatePresence initial={false} custom={direction}>
+        <motion.div
+          key={current.id + ':' + current.url}
+          custom={direction}
+          initial={{ opacity: 0, x: direction * 80 }}
+          animate={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: direction * -80 }}
+          transition={{ duration: 0.25 }}
+          drag={slides.length > 1 ? 'x' : false}
+          dragConstraints={{ left: 0, right: 0 }}
+          dragElastic={0.4}
+          onDragEnd={(_, info) => {
+            if (info.offset.x < -SWIPE_THRESHOLD) go(1);
+            else if (info.offset.x > SWIPE_THRESHOLD) go(-1);
+          }}
+          className="absolute inset-0 cursor-grab active:cursor-grabbing"
+        >
+          <ResponsiveImage
+            src={current.url}
+            alt={current.caption || alt}
+            sizes="(min-width: 1024px) 60vw, 100vw"
+            className="w-full h-full object-cover"
+          />
+        </motion.div>
+      </AnimatePresence>
+
+      {slides.length > 1 && (
+        <>
+          <button
+            onClick={() => go(-1)}
+            className="absolute left-3 top-1/2 -translate-y-1/2 z-10 w-9 h-9 bg-black/50 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-emerald-500 hover:text-black transition-colors"
+            aria-label="Foto sebelumnya"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => go(1)}
+            className="absolute right-3 top-1/2 -translate-y-1/2 z-10 w-9 h-9 bg-black/50 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-emerald-500 hover:text-black transition-colors"
+            aria-label="Foto berikutnya"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <div className="absolute top-4 left-4 z-10 px-3 py-1 bg-black/60 backdrop-blur-md rounded-full text-[10px] font-mono border border-white/10">
+            {index + 1} / {slides.length}
+          </div>
+        </>
+      )}
+
+      <div className="absolute bottom-0 inset-x-0 z-10 p-4 bg-gradient-to-t from-black/80 to-transparent">
+        {current.caption && (
+          <p className="text-xs sm:text-sm text-zinc-200 mb-3">{current.caption}</p>
+        )}
+        {current.sourceUrl && (
+          <a
+            href={current.sourceUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block text-[10px] text-zinc-400 hover:text-emerald-400 mb-3 truncate"
+          >
+            Sumber: {sourceHost(current.sourceUrl)}
+          </a>
+        )}
+        {slides.length > 1 && (
+          <div className="flex justify-center gap-1.5">
+            {slides.map((img, i) => (
+              <button
+                key={img.id}
+                onClick={() => { setDirection(i > index ? 1 : -1); setIndex(i); }}
+                className={`h-1.5 rounded-full transition-all ${i === index ? 'w-6 bg-emerald-500' : 'w-1.5 bg-white/40 hover:bg-white/70'}`}
+                aria-label={`Foto ${i + 1}`}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, Trash2, Star, Plus, Loader2, Upload } from 'lucide-react';
+import { MotorcycleImage } from '../constants';
+import ResponsiveImage from './ResponsiveImage';
+
+interface GalleryEditorProps {
+  bikeId: string;
+  images: MotorcycleImage[];
+  onChange: (images: MotorcycleImage[]) => void;
+  uploadFiles: (files: File[]) => Promise<string[]>;
+  onError: (message: string) => void;
+}
+
+export default function GalleryEditor({ bikeId, images, onChange, uploadFiles, onError }: GalleryEditorProps) {
+  const [newUrl, setNewUrl] = useState('');
+  const [mirror, setMirror] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        onChange(data);
+      } else {
+        onError(data.error || 'Gagal memperbarui galeri');
+      }
+    } catch (error) {
+      console.error('Gallery update failed:', error);
+      onError('Gagal memperbarui galeri');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addImage = async (url: string, copy = false) => {
+    await request(`/api/motorcycles/${bikeId}/images`, 'POST', { url, mirror: copy });
+  };
+
+  const move = (index: number, step: number) => {
+    const target = index + step;
+    if (target < 0 || target >= images.length) return;
+    const order = images.map(img => img.id);
+    [order[index], order[target]] = [order[target], order[index]];
+    request(`/api/motorcycles/${bikeId}/images/order`, 'PUT', { order });
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    // Progress and cancelling are shown by the form's upload queue
+    const urls = await uploadFiles(files);
+    for (const url of urls) {
+      await addImage(url);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {images.map((img, index) => (
+          <div key={img.id} className={`rounded-xl border overflow-hidden bg-white/5 ${img.isCover ? 'border-emerald-500' : 'border-white/10'}`}>
+            <div className="aspect-[4/3] relative">
+              <ResponsiveImage
+                src={img.url}
+                alt={img.caption || `Foto ${index + 1}`}
+                sizes="(min-width: 640px) 200px, 50vw"
+                className="w-full h-full object-cover"
+              />
+              {img.isCover && (
+                <span className="absolute top-2 left-2 px-2 py-0.5 bg-emerald-500 text-black text-[9px] font-bold uppercase rounded-full">
+                  Sampul
+                </span>
+              )}
+            </div>
+            <div className="p-2 space-y-2">
+              <input
+                type="text"
+                defaultValue={img.caption}
+                onBlur={e => {
+                  if (e.target.value !== img.caption) {
+                    request(`/api/motorcycles/${bikeId}/images/${img.id}`, 'PATCH', { caption: e.target.value });
+                  }
+                }}
+                className="w-full bg-white/5 border border-white/10 rounded-md px-2 py-1 text-[11px] focus:outline-none focus:border-emerald-500"
+                placeholder="Keterangan foto"
+              />
+              <div className="flex items-center justify-between gap-1">
+                <div className="flex gap-1">
+                  <button type="button" disabled={busy || index === 0} onClick={() => move(index, -1)} className="w-7 h-7 rounded-md bg-white/5 flex items-center justify-center hover:bg-white/10 disabled:opacity-30" aria-label="Geser kiri">
+                    <ChevronLeft className="w-3.5 h-3.5" />
+                  </button>
+                  <button type="button" disabled={busy || index === images.length - 1} onClick={() => move(index, 1)} className="w-7 h-7 rounded-md bg-white/5 flex items-center justify-center hover:bg-white/10 disabled:opacity-30" aria-label="Geser kanan">
+                    <ChevronRight className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                <div className="flex gap-1">
+                  <button type="button" disabled={busy || img.isCover} onClick={() => request(`/api/motorcycles/${bikeId}/images/${img.id}`, 'PATCH', { isCover: true })} className="w-7 h-7 rounded-md bg-white/5 flex items-center justify-center hover:bg-emerald-500 hover:text-black disabled:opacity-30" aria-label="Jadikan sampul">
+                    <Star className="w-3.5 h-3.5" />
+                  </button>
+                  <button type="button" disabled={busy} onClick={() => request(`/api/motorcycles/${bikeId}/images/${img.id}/delete`, 'POST')} className="w-7 h-7 rounded-md bg-white/5 flex items-center justify-center hover:bg-red-500 hover:text-white disabled:opacity-30" aria-label="Hapus foto">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="url"
+          value={newUrl}
+          onChange={e => setNewUrl(e.target.value)}
+          className="flex-1 bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:border-emerald-500 transition-colors"
+          placeholder="https://... link foto tambahan"
+        />
+        <button
+          type="button"
+          disabled={busy || !newUrl}
+          onClick={async () => { await addImage(newUrl, mirror); setNewUrl(''); }}
+          className="px-4 py-2.5 bg-white/5 border border-white/10 rounded-xl text-xs font-bold flex items-center justify-center gap-2 hover:bg-emerald-500 hover:text-black transition-colors disabled:opacity-50"
+        >
+          {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Tambah Foto
+        </button>
+        <label className={`px-4 py-2.5 bg-white/5 border border-white/10 rounded-xl text-xs font-bold flex items-center justify-center gap-2 hover:bg-emerald-500 hover:text-black transition-colors cursor-pointer ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+          <Upload className="w-4 h-4" />
+          Unggah
+          <input type="file" accept="image/*" multiple onChange={handleFile} className="hidden" />
+        </label>
+      </div>
+      <label className="flex items-center gap-2 text-[10px] text-zinc-400 cursor-pointer">
+        <input type="checkbox" checked={mirror} onChange={e => setMirror(e.target.checked)} className="accent-emerald-500" />
+        Simpan salinan link foto di server
+      </label>
+    </div>
+  );
+}
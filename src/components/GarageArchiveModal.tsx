@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { X, Loader2, Download, Upload, FileArchive } from 'lucide-react';
+
+type ImportMode = 'merge' | 'replace';
+
+interface ImportReport {
+  mode: ImportMode;
+  dryRun: boolean;
+  motorcycles: { imported: number, removed: number, renamedIds: { from: string, to: string }[] };
+  // renamed: names in the archive that match a stored entry spelled differently
+  categories: { added: string[], renamed: { from: string, to: string }[] };
+  styles: { added: string[], renamed: { from: string, to: string }[] };
+  tags: { added: string[] };
+  baseModels: { added: string[] };
+  files: number;
+}
+
+const MODES: [ImportMode, string, string][] = [
+  ['merge', 'Gabung', 'Tambahkan ke garasi yang ada. ID yang bentrok diberi akhiran baru.'],
+  ['replace', 'Ganti semua', 'Hapus semua motor, merek, gaya dan tag, lalu isi dari arsip.'],
+];
+
+interface GarageArchiveModalProps {
+  onClose: () => void;
+  onImported: () => void;
+  onError: (message: string) => void;
+}
+
+// Admin backup: download the whole garage, or restore one with a dry run first
+export default function GarageArchiveModal({ onClose, onImported, onError }: GarageArchiveModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const send = async (dryRun: boolean) => {
+    if (!file) return;
+    if (!dryRun && mode === 'replace' && !window.confirm('Ganti seluruh isi garasi dengan arsip ini? Semua motor yang ada akan dihapus permanen.')) return;
+    const body = new FormData();
+    body.append('archive', file);
+    body.append('mode', mode);
+    body.append('dryRun', String(dryRun));
+    setBusy(true);
+    setProblems([]);
+    try {
+      const response = await fetch('/api/garage/import', { method: 'POST', body });
+      const data = await response.json();
+      if (!response.ok) {
+        setReport(null);
+        setProblems(data.details || [data.error || `HTTP ${response.status}`]);
+        return;
+      }
+      setReport(data);
+      if (!dryRun) onImported();
+    } catch (error) {
+      console.error('Failed to import garage:', error);
+      onError('Gagal mengimpor arsip');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const choose = (next: File | null) => {
+    setFile(next);
+    setReport(null);
+    setProblems([]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/95 backdrop-blur-md"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="relative w-full max-w-2xl bg-[#121212] rounded-2xl sm:rounded-3xl border border-white/10 shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+      >
+        <div className="p-5 sm:p-8 border-b border-white/5 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold tracking-tight">Cadangan Garasi</h2>
+            <p className="text-xs text-zinc-500 mt-1">Ekspor semua motor beserta fotonya, atau pulihkan dari arsip.</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors p-1">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-5 sm:p-8 overflow-y-auto flex-1 space-y-8">
+          <section>
+            <h3 className="text-[10px] font-bold uppercase tracking-[0.2em] text-zinc-500 border-b border-white/5 pb-2 mb-4">Ekspor</h3>
+            <div className="flex flex-wrap gap-2">
+              <a
+                href="/api/garage/export"
+                className="px-4 py-2 bg-emerald-500 text-black rounded-full text-xs font-bold flex items-center gap-2 hover:bg-emerald-400 transition-colors"
+              >
+                <Download className="w-3.5 h-3.5" /> Arsip ZIP
+              </a>
+              <a
+                href="/api/garage/export?format=json"
+                className="px-4 py-2 bg-white/5 border border-white/10 rounded-full text-xs font-bold flex items-center gap-2 hover:bg-white/10 transition-colors"
+              >
+                <Download className="w-3.5 h-3.5" /> Data JSON
+              </a>
+            </div>
+            <p className="text-[10px] text-zinc-600 mt-2">JSON hanya berisi data; foto ikut disertakan di arsip ZIP.</p>
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-[10px] font-bold uppercase tracking-[0.2em] text-zinc-500 border-b border-white/5 pb-2 mb-4">Impor</h3>
+            <label className="flex items-center gap-3 p-4 bg-white/5 border border-dashed border-white/10 rounded-xl cursor-pointer hover:border-emerald-500/40 transition-colors">
+              <FileArchive className="w-5 h-5 text-zinc-500 shrink-0" />
+              <span className={`text-sm truncate ${file ? 'text-zinc-200' : 'text-zinc-500'}`}>{file ? file.name : 'Pilih arsip .zip atau .json'}</span>
+              <input
+                type="file"
+                accept=".zip,.json,application/zip,application/json"
+                onChange={event => choose(event.target.files?.[0] || null)}
+                className="hidden"
+              />
+            </label>
+
+            <div className="grid sm:grid-cols-2 gap-2">
+              {MODES.map(([value, label, hint]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => { setMode(value); setReport(null); }}
+                  className={`p-3 rounded-xl border text-left transition-colors ${mode === value ? 'border-emerald-500 bg-emerald-500/10' : 'border-white/10 bg-white/5 hover:border-white/20'}`}
+                >
+                  <p className="text-xs font-bold">{label}</p>
+                  <p className="text-[10px] text-zinc-500 mt-1">{hint}</p>
+                </button>
+              ))}
+            </div>
+
+            {problems.length > 0 && (
+              <ul className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-xs text-red-300 space-y-1">
+                {problems.map(problem => <li key={problem}>{problem}</li>)}
+              </ul>
+            )}
+
+            {report && (
+              <div className="p-4 bg-white/5 border border-white/10 rounded-xl text-xs space-y-1.5">
+                <p className="text-[10px] font-bold uppercase tracking-wider text-zinc-500">
+                  {report.dryRun ? 'Hasil pemeriksaan' : 'Impor selesai'}
+                </p>
+                <p>{report.motorcycles.imported} motor {report.dryRun ? 'akan diimpor' : 'diimpor'}, {report.files} file foto</p>
+                {report.motorcycles.removed > 0 && (
+                  <p className="text-amber-400">{report.motorcycles.removed} motor yang ada {report.dryRun ? 'akan dihapus' : 'dihapus'}</p>
+                )}
+                {report.motorcycles.renamedIds.length > 0 && (
+                  <p className="text-zinc-400">
+                    ID baru: {report.motorcycles.renamedIds.map(({ from, to }) => `${from} → ${to}`).join(', ')}
+                  </p>
+                )}
+                {report.categories.added.length > 0 && <p className="text-zinc-400">Merek baru: {report.categories.added.join(', ')}</p>}
+                {report.styles.added.length > 0 && <p className="text-zinc-400">Gaya baru: {report.styles.added.join(', ')}</p>}
+                {[...report.categories.renamed, ...report.styles.renamed].length > 0 && (
+                  <p className="text-zinc-400">
+                    Disamakan dengan yang ada: {[...report.categories.renamed, ...report.styles.renamed].map(({ from, to }) => `${from} → ${to}`).join(', ')}
+                  </p>
+                )}
+                {report.tags.added.length > 0 && <p className="text-zinc-400">Tag baru: {report.tags.added.join(', ')}</p>}
+                {report.baseModels.added.length > 0 && <p className="text-zinc-400">Model dasar baru: {report.baseModels.added.join(', ')}</p>}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => send(true)}
+                disabled={!file || busy}
+                className="px-4 py-2 bg-white/5 border border-white/10 rounded-full text-xs font-bold hover:bg-white/10 transition-colors disabled:opacity-40"
+              >
+                Cek dulu
+              </button>
+              <button
+                onClick={() => send(false)}
+                disabled={!file || busy}
+                className={`px-4 py-2 rounded-full text-xs font-bold flex items-center gap-2 transition-colors disabled:opacity-40 ${mode === 'replace' ? 'bg-red-500 text-white hover:bg-red-400' : 'bg-emerald-500 text-black hover:bg-emerald-400'}`}
+              >
+                {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+                Impor
+              </button>
+            </div>
+          </section>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Edit3, Trash2, Plus, Save, X, Loader2 } from 'lucide-react';
+import { ModificationEntry, ModificationCategory, MODIFICATION_CATEGORIES } from '../constants';
+import { formatDate, formatRupiah, categoryLabel } from './ModificationTimeline';
+
+interface ModificationEditorProps {
+  bikeId: string;
+  entries: ModificationEntry[];
+  onChange: (entries: ModificationEntry[]) => void;
+  onError: (message: string) => void;
+}
+
+type Draft = {
+  date: string;
+  partName: string;
+  category: ModificationCategory;
+  cost: string;
+  workshop: string;
+  notes: string;
+};
+
+const emptyDraft = (): Draft => ({
+  date: new Date().toISOString().slice(0, 10),
+  partName: '',
+  category: 'other',
+  cost: '',
+  workshop: '',
+  notes: '',
+});
+
+const toDraft = (entry: ModificationEntry): Draft => ({
+  date: entry.date || '',
+  partName: entry.partName,
+  category: entry.category,
+  cost: entry.cost == null ? '' : String(entry.cost),
+  workshop: entry.workshop,
+  notes: entry.notes,
+});
+
+export default function ModificationEditor({ bikeId, entries, onChange, onError }: ModificationEditorProps) {
+  // null = no draft open, 'new' = adding, number = editing that entry
+  const [editing, setEditing] = useState<number | 'new' | null>(null);
+  const [draft, setDraft] = useState<Draft>(emptyDraft());
+  const [busy, setBusy] = useState(false);
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        onChange(data);
+        return true;
+      }
+      onError(data.error || 'Gagal memperbarui riwayat modifikasi');
+    } catch (error) {
+      console.error('Modification update failed:', error);
+      onError('Gagal memperbarui riwayat modifikasi');
+    } finally {
+      setBusy(false);
+    }
+    return false;
+  };
+
+  const saveDraft = async () => {
+    if (!draft.partName.trim()) {
+      onError('Nama part wajib diisi');
+      return;
+    }
+    const saved = editing === 'new'
+      ? await request(`/api/motorcycles/${bikeId}/modifications`, 'POST', draft)
+      : await request(`/api/motorcycles/${bikeId}/modifications/${editing}`, 'PUT', draft);
+    if (saved) setEditing(null);
+  };
+
+  const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500';
+
+  const draftForm = (
+    <div className="p-4 bg-white/5 rounded-xl border border-emerald-500/30 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1 col-span-2">
+          <label className="text-[9px] font-bold uppercase text-zinc-600">Nama Part</label>
+          <input type="text" value={draft.partName} onChange={e => setDraft({ ...draft, partName: e.target.value })} className={inputClass} placeholder="Knalpot Racing Custom" />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[9px] font-bold uppercase text-zinc-600">Tanggal Pasang</label>
+          <input type="date" value={draft.date} onChange={e => setDraft({ ...draft, date: e.target.value })} className={inputClass} />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[9px] font-bold uppercase text-zinc-600">Kategori</label>
+          <select value={draft.category} onChange={e => setDraft({ ...draft, category: e.target.value as ModificationCategory })} className={`${inputClass} appearance-none`}>
+            {MODIFICATION_CATEGORIES.map(c => (
+              <option key={c.value} value={c.value} className="bg-[#121212]">{c.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-[9px] font-bold uppercase text-zinc-600">Biaya (Rp)</label>
+          <input type="number" min="0" value={draft.cost} onChange={e => setDraft({ ...draft, cost: e.target.value })} className={inputClass} placeholder="1500000" />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[9px] font-bold uppercase text-zinc-600">Bengkel</label>
+          <input type="text" value={draft.workshop} onChange={e => setDraft({ ...draft, workshop: e.target.value })} className={inputClass} placeholder="Nama bengkel / dikerjakan sendiri" />
+        </div>
+        <div className="space-y-1 col-span-2">
+          <label className="text-[9px] font-bold uppercase text-zinc-600">Catatan</label>
+          <textarea rows={2} value={draft.notes} onChange={e => setDraft({ ...draft, notes: e.target.value })} className={`${inputClass} resize-none`} />
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={() => setEditing(null)} className="px-3 py-2 rounded-lg bg-white/5 text-xs font-bold flex items-center gap-1.5 hover:bg-white/10">
+          <X className="w-3.5 h-3.5" /> Batal
+        </button>
+        <button type="button" disabled={busy} onClick={saveDraft} className="px-3 py-2 rounded-lg bg-emerald-500 text-black text-xs font-bold flex items-center gap-1.5 hover:bg-emerald-400 disabled:opacity-50">
+          {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />} Simpan
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      {entries.map(entry => editing === entry.id ? (
+        <React.Fragment key={entry.id}>{draftForm}</React.Fragment>
+      ) : (
+        <div key={entry.id} className="flex items-center justify-between gap-3 p-3 bg-white/5 rounded-xl border border-white/5">
+          <div className="min-w-0">
+            <p className="text-sm font-bold truncate">{entry.partName}</p>
+            <p className="text-[10px] text-zinc-500 font-mono">
+              {entry.date ? formatDate(entry.date) : 'Tanpa tanggal'} · {categoryLabel(entry.category)}
+              {entry.cost != null && ` · ${formatRupiah(entry.cost)}`}
+            </p>
+          </div>
+          <div className="flex gap-1 shrink-0">
+            <button type="button" disabled={busy} onClick={() => { setDraft(toDraft(entry)); setEditing(entry.id); }} className="w-7 h-7 rounded-md bg-white/5 flex items-center justify-center hover:bg-emerald-500 hover:text-black disabled:opacity-30" aria-label="Edit modifikasi">
+              <Edit3 className="w-3.5 h-3.5" />
+            </button>
+            <button type="button" disabled={busy} onClick={() => request(`/api/motorcycles/${bikeId}/modifications/${entry.id}/delete`, 'POST')} className="w-7 h-7 rounded-md bg-white/5 flex items-center justify-center hover:bg-red-500 hover:text-white disabled:opacity-30" aria-label="Hapus modifikasi">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {editing === 'new' ? draftForm : (
+        <button
+          type="button"
+          onClick={() => { setDraft(emptyDraft()); setEditing('new'); }}
+          className="w-full py-2.5 border-2 border-dashed border-white/10 rounded-xl text-xs font-bold text-zinc-400 flex items-center justify-center gap-2 hover:border-emerald-500/50 hover:text-emerald-500 transition-colors"
+        >
+          <Plus className="w-4 h-4" /> Catat Modifikasi
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Wrench } from 'lucide-react';
+import { ModificationEntry, MODIFICATION_CATEGORIES } from '../constants';
+
+export const formatRupiah = (value: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', maximumFractionDigits: 0 }).format(value);
+
+export const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export const categoryLabel = (category: string) =>
+  MODIFICATION_CATEGORIES.find(c => c.value === category)?.label || category;
+
+export default function ModificationTimeline({ entries }: { entries: ModificationEntry[] }) {
+  if (entries.length === 0) {
+    return <span className="text-zinc-500 text-xs italic">Tidak ada modifikasi tercatat</span>;
+  }
+
+  const totalCost = entries.reduce((sum, entry) => sum + (entry.cost || 0), 0);
+
+  return (
+    <div>
+      <ol className="relative border-l border-white/10 ml-2 space-y-5">
+        {entries.map(entry => (
+          <li key={entry.id} className="pl-5 relative">
+            <span className="absolute -left-[7px] top-1 w-3.5 h-3.5 rounded-full bg-[#121212] border-2 border-emerald-500" />
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              <span className="text-[10px] font-mono text-emerald-500">
+                {entry.date ? formatDate(entry.date) : 'Tanpa tanggal'}
+              </span>
+              <span className="px-2 py-0.5 bg-white/5 rounded-full text-[9px] uppercase font-bold tracking-wider text-zinc-400 border border-white/5">
+                {categoryLabel(entry.category)}
+              </span>
+            </div>
+            <p className="text-sm font-bold text-zinc-200">{entry.partName}</p>
+            {(entry.workshop || entry.cost != null) && (
+              <p className="text-[11px] text-zinc-500 mt-0.5 flex flex-wrap gap-x-3">
+                {entry.workshop && (
+                  <span className="flex items-center gap-1"><Wrench className="w-3 h-3" />{entry.workshop}</span>
+                )}
+                {entry.cost != null && <span className="font-mono">{formatRupiah(entry.cost)}</span>}
+              </p>
+            )}
+            {entry.notes && <p className="text-xs text-zinc-400 mt-1 leading-relaxed">{entry.notes}</p>}
+          </li>
+        ))}
+      </ol>
+      {totalCost > 0 && (
+        <div className="mt-5 pt-3 border-t border-white/5 flex justify-between text-xs">
+          <span className="text-zinc-500 uppercase font-bold tracking-wider text-[10px]">Total Tercatat</span>
+          <span className="font-mono text-emerald-500">{formatRupiah(totalCost)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
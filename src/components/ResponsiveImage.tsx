@@ -0,0 +1,36 @@
+import React from 'react';
+import { FALLBACK_IMAGE, imageSrcSet } from '../images';
+
+interface ResponsiveImageProps {
+  src: string;
+  alt: string;
+  // Rendered width hint for the browser, e.g. "(min-width: 1024px) 33vw, 100vw"
+  sizes: string;
+  className?: string;
+}
+
+// Lets the browser pick a thumbnail/card/full variant of processed uploads; other URLs render as a plain image
+export default function ResponsiveImage({ src, alt, sizes, className }: ResponsiveImageProps) {
+  const webp = imageSrcSet(src, 'webp');
+  return (
+    <picture>
+      {webp && <source type="image/webp" srcSet={webp} sizes={sizes} />}
+      <img
+        src={src}
+        srcSet={imageSrcSet(src, 'jpg')}
+        sizes={webp ? sizes : undefined}
+        alt={alt}
+        loading="lazy"
+        onError={(e) => {
+          const img = e.target as HTMLImageElement;
+          img.parentElement?.querySelector('source')?.remove();
+          img.removeAttribute('srcset');
+          img.src = FALLBACK_IMAGE;
+        }}
+        className={className}
+        referrerPolicy="no-referrer"
+        draggable={false}
+      />
+    </picture>
+  );
+}
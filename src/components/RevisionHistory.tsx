@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, RotateCcw, ChevronDown, ChevronUp } from 'lucide-react';
+import { Motorcycle, Revision, RevisionChange } from '../constants';
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Nama',
+  category: 'Brand',
+  style: 'Gaya',
+  year: 'Tahun',
+  description: 'Deskripsi',
+  image: 'Foto Sampul',
+  tags: 'Tag',
+  'specs.engine': 'Mesin',
+  'specs.power': 'Tenaga',
+  'specs.torque': 'Torsi',
+  'specs.weight': 'Berat',
+  'specs.topSpeed': 'Top Speed',
+};
+
+const ACTION_LABELS: Record<Revision['action'], string> = {
+  create: 'Dibuat',
+  update: 'Diedit',
+  rollback: 'Dikembalikan',
+  baseline: 'Versi awal',
+};
+
+interface RevisionHistoryProps {
+  bike: Motorcycle;
+  canEdit: boolean;
+  onRolledBack: (bike: Motorcycle) => void;
+  // The bike was edited since it was loaded; gets the current version
+  onStale: (bike: Motorcycle) => void;
+  onError: (message: string) => void;
+}
+
+export default function RevisionHistory({ bike, canEdit, onRolledBack, onStale, onError }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openId, setOpenId] = useState<number | null>(null);
+  const [changes, setChanges] = useState<RevisionChange[] | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+
+  const loadRevisions = async () => {
+    try {
+      const response = await fetch(`/api/motorcycles/${bike.id}/revisions`);
+      if (response.ok) setRevisions(await response.json());
+    } catch (error) {
+      console.error('Failed to load revisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRevisions();
+  }, [bike.id]);
+
+  // Revisions are newest first, so the version a revision replaced is the next one in the list
+  const toggle = async (index: number) => {
+    const revision = revisions[index];
+    if (openId === revision.id) {
+      setOpenId(null);
+      return;
+    }
+    setOpenId(revision.id);
+    setChanges(null);
+    const previous = revisions[index + 1];
+    if (!previous) {
+      setChanges([]);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/motorcycles/${bike.id}/revisions/diff?from=${previous.id}&to=${revision.id}`);
+      const data = await response.json();
+      setChanges(data.changes || []);
+    } catch (error) {
+      console.error('Failed to diff revisions:', error);
+      setChanges([]);
+    }
+  };
+
+  const rollback = async (revision: Revision) => {
+    if (!window.confirm('Kembalikan build ke versi ini? Versi saat ini tetap tersimpan di riwayat.')) return;
+    setRollingBack(true);
+    try {
+      const response = await fetch(`/api/motorcycles/${bike.id}/revisions/${revision.id}/rollback`, {
+        method: 'POST',
+        headers: { 'If-Match': `"${bike.updatedAt}"` }
+      });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        onRolledBack(data);
+        setOpenId(null);
+        await loadRevisions();
+      } else if (response.status === 412) {
+        onStale(data.current);
+        setOpenId(null);
+        await loadRevisions();
+      } else {
+        onError(data.error || 'Gagal mengembalikan versi');
+      }
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="py-10 flex justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-emerald-500" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-zinc-500 text-xs italic">Belum ada riwayat perubahan.</p>;
+  }
+
+  return (
+    <ol className="space-y-2">
+      {revisions.map((revision, index) => (
+        <li key={revision.id} className="bg-white/5 rounded-xl border border-white/5">
+          <button onClick={() => toggle(index)} className="w-full p-3 flex items-center justify-between gap-3 text-left">
+            <div>
+              <p className="text-sm font-bold">
+                {ACTION_LABELS[revision.action]}
+                {index === 0 && <span className="ml-2 text-[9px] uppercase text-emerald-500 font-bold">Versi sekarang</span>}
+              </p>
+              <p className="text-[10px] text-zinc-500 font-mono">
+                {new Date(revision.createdAt).toLocaleString('id-ID')}
+                {revision.editor && ` · ${revision.editor.username}`}
+              </p>
+            </div>
+            {openId === revision.id ? <ChevronUp className="w-4 h-4 text-zinc-500" /> : <ChevronDown className="w-4 h-4 text-zinc-500" />}
+          </button>
+
+          {openId === revision.id && (
+            <div className="px-3 pb-3 space-y-3">
+              {changes === null ? (
+                <Loader2 className="w-4 h-4 animate-spin text-emerald-500" />
+              ) : changes.length === 0 ? (
+                <p className="text-[11px] text-zinc-500 italic">Tidak ada perubahan dibanding versi sebelumnya.</p>
+              ) : (
+                <div className="space-y-2">
+                  {changes.map(change => (
+                    <div key={change.field} className="text-[11px]">
+                      <p className="text-[9px] uppercase font-bold tracking-wider text-zinc-500 mb-0.5">{FIELD_LABELS[change.field] || change.field}</p>
+                      <p className="text-red-400/80 line-through break-words">{String(change.before) || '—'}</p>
+                      <p className="text-emerald-400 break-words">{String(change.after) || '—'}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {canEdit && index > 0 && (
+                <button
+                  disabled={rollingBack}
+                  onClick={() => rollback(revision)}
+                  className="px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-xs font-bold flex items-center gap-1.5 hover:bg-emerald-500 hover:text-black transition-colors disabled:opacity-50"
+                >
+                  {rollingBack ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
+                  Kembalikan ke versi ini
+                </button>
+              )}
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { X, Loader2, ChevronRight } from 'lucide-react';
+import { ServiceReminder } from '../constants';
+import { FALLBACK_IMAGE } from '../images';
+import ResponsiveImage from './ResponsiveImage';
+import { ReminderStatus, reminderText, serviceLabel } from './ServicePanel';
+
+export type DueService = ServiceReminder & { bike: { id: string, name: string, image: string } };
+
+interface ServiceDueModalProps {
+  onClose: () => void;
+  onOpenBike: (id: string) => void;
+  onError: (message: string) => void;
+}
+
+// Everything overdue or coming up across the user's bikes, most urgent first
+export default function ServiceDueModal({ onClose, onOpenBike, onError }: ServiceDueModalProps) {
+  const [items, setItems] = useState<DueService[]>([]);
+  const [dueWindow, setDueWindow] = useState({ dueSoonKm: 500, dueSoonDays: 30 });
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetch('/api/service/due')
+      .then(response => response.json())
+      .then(data => {
+        setItems(data.items || []);
+        setDueWindow({ dueSoonKm: data.dueSoonKm, dueSoonDays: data.dueSoonDays });
+      })
+      .catch(error => {
+        console.error('Failed to load upcoming service:', error);
+        onError('Gagal memuat jadwal servis');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/95 backdrop-blur-md"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="relative w-full max-w-2xl bg-[#121212] rounded-2xl sm:rounded-3xl border border-white/10 shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+      >
+        <div className="p-5 sm:p-8 border-b border-white/5 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold tracking-tight">Jadwal Servis</h2>
+            <p className="text-xs text-zinc-500 mt-1">
+              Servis yang terlambat atau jatuh tempo dalam {dueWindow.dueSoonDays} hari / {dueWindow.dueSoonKm.toLocaleString('id-ID')} km.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors p-1">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-5 sm:p-8 overflow-y-auto flex-1 space-y-3">
+          {loading ? (
+            <div className="py-12 flex justify-center">
+              <Loader2 className="w-8 h-8 animate-spin text-emerald-500" />
+            </div>
+          ) : items.length === 0 ? (
+            <p className="py-12 text-center text-zinc-500 text-sm">Tidak ada servis yang perlu dikerjakan dalam waktu dekat.</p>
+          ) : items.map(item => (
+            <button
+              key={`${item.bike.id}-${item.recordId}`}
+              onClick={() => onOpenBike(item.bike.id)}
+              className="w-full flex items-center gap-4 p-3 bg-white/5 rounded-xl border border-white/5 text-left hover:border-emerald-500/30 transition-colors"
+            >
+              <ResponsiveImage
+                src={item.bike.image || FALLBACK_IMAGE}
+                alt={item.bike.name}
+                sizes="64px"
+                className="w-16 h-12 rounded-lg object-cover shrink-0"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="font-bold truncate">{serviceLabel(item)}</p>
+                <p className="text-[10px] text-zinc-500 truncate">{item.bike.name}</p>
+                <p className="text-[10px] text-zinc-400 font-mono">{reminderText(item)}</p>
+              </div>
+              <ReminderStatus status={item.status} />
+              <ChevronRight className="w-4 h-4 text-zinc-600 shrink-0" />
+            </button>
+          ))}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
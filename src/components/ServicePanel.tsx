@@ -0,0 +1,346 @@
+import React, { useEffect, useState } from 'react';
+import { Edit3, Trash2, Plus, Save, X, Loader2, Gauge, AlertTriangle, Clock, CheckCircle2, Wrench } from 'lucide-react';
+import { ServiceLog, ServiceRecord, ServiceReminder, ServiceType, SERVICE_TYPES } from '../constants';
+import { formatDate, formatRupiah } from './ModificationTimeline';
+
+export const formatKm = (km: number) => `${km.toLocaleString('id-ID')} km`;
+
+export const serviceLabel = (service: { serviceType: ServiceType, title: string }) =>
+  service.serviceType === 'other' && service.title
+    ? service.title
+    : SERVICE_TYPES.find(t => t.value === service.serviceType)?.label || service.serviceType;
+
+// "1.200 km lagi · 12 hari lagi", or how far past due it is
+export const reminderText = (reminder: ServiceReminder) => [
+  reminder.remainingKm == null ? null
+    : reminder.remainingKm <= 0 ? `lewat ${formatKm(-reminder.remainingKm)}` : `${formatKm(reminder.remainingKm)} lagi`,
+  reminder.remainingDays == null ? null
+    : reminder.remainingDays <= 0 ? `lewat ${-reminder.remainingDays} hari` : `${reminder.remainingDays} hari lagi`,
+].filter(Boolean).join(' · ');
+
+const REMINDER_STYLES = {
+  overdue: { icon: AlertTriangle, className: 'border-red-500/30 bg-red-500/10 text-red-400', label: 'Terlambat' },
+  'due-soon': { icon: Clock, className: 'border-amber-500/30 bg-amber-500/10 text-amber-400', label: 'Segera' },
+  ok: { icon: CheckCircle2, className: 'border-white/5 bg-white/5 text-zinc-400', label: 'Aman' },
+};
+
+export function ReminderStatus({ status }: { status: ServiceReminder['status'] }) {
+  const { icon: Icon, className, label } = REMINDER_STYLES[status];
+  return (
+    <span className={`px-2 py-0.5 rounded-full border text-[9px] uppercase font-bold tracking-wider flex items-center gap-1 shrink-0 ${className}`}>
+      <Icon className="w-3 h-3" /> {label}
+    </span>
+  );
+}
+
+interface ServicePanelProps {
+  bikeId: string;
+  onChanged: () => void;
+  onError: (message: string) => void;
+}
+
+type Draft = {
+  serviceType: ServiceType;
+  title: string;
+  date: string;
+  odometer: string;
+  intervalKm: string;
+  intervalMonths: string;
+  parts: string;
+  cost: string;
+  workshop: string;
+  notes: string;
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+const toText = (value: number | null) => value == null ? '' : String(value);
+
+const typeDefaults = (serviceType: ServiceType) => {
+  const type = SERVICE_TYPES.find(t => t.value === serviceType)!;
+  return { intervalKm: toText(type.intervalKm), intervalMonths: toText(type.intervalMonths) };
+};
+
+const emptyDraft = (odometer: number | null): Draft => ({
+  serviceType: 'oil',
+  title: '',
+  date: today(),
+  odometer: toText(odometer),
+  ...typeDefaults('oil'),
+  parts: '',
+  cost: '',
+  workshop: '',
+  notes: '',
+});
+
+const toDraft = (record: ServiceRecord): Draft => ({
+  serviceType: record.serviceType,
+  title: record.title,
+  date: record.date,
+  odometer: toText(record.odometer),
+  intervalKm: toText(record.intervalKm),
+  intervalMonths: toText(record.intervalMonths),
+  parts: record.parts.join(', '),
+  cost: toText(record.cost),
+  workshop: record.workshop,
+  notes: record.notes,
+});
+
+// Service book for one bike: the current odometer, what is due next, and past services
+export default function ServicePanel({ bikeId, onChanged, onError }: ServicePanelProps) {
+  const [log, setLog] = useState<ServiceLog | null>(null);
+  // null = no draft open, 'new' = adding, number = editing that record
+  const [editing, setEditing] = useState<number | 'new' | null>(null);
+  const [draft, setDraft] = useState<Draft>(emptyDraft(null));
+  const [reading, setReading] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setLog(null);
+    fetch(`/api/motorcycles/${bikeId}/service`)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then(setLog)
+      .catch(error => {
+        console.error('Failed to load service records:', error);
+        onError('Gagal memuat catatan servis');
+      });
+  }, [bikeId]);
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setLog(data);
+        onChanged();
+        return true;
+      }
+      onError(data.error || 'Gagal memperbarui catatan servis');
+    } catch (error) {
+      console.error('Service update failed:', error);
+      onError('Gagal memperbarui catatan servis');
+    } finally {
+      setBusy(false);
+    }
+    return false;
+  };
+
+  const saveDraft = async () => {
+    if (draft.serviceType === 'other' && !draft.title.trim()) {
+      onError('Isi nama servis untuk jenis Lainnya');
+      return;
+    }
+    const body = { ...draft, parts: draft.parts.split(',').map(part => part.trim()).filter(Boolean) };
+    const saved = editing === 'new'
+      ? await request(`/api/motorcycles/${bikeId}/service`, 'POST', body)
+      : await request(`/api/motorcycles/${bikeId}/service/${editing}`, 'PUT', body);
+    if (saved) setEditing(null);
+  };
+
+  const addReading = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reading) return;
+    if (await request(`/api/motorcycles/${bikeId}/odometer`, 'POST', { km: reading, date: today() })) setReading('');
+  };
+
+  if (!log) {
+    return (
+      <div className="py-12 flex justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-emerald-500" />
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500';
+  const labelClass = 'text-[9px] font-bold uppercase text-zinc-600';
+
+  const draftForm = (
+    <div className="p-4 bg-white/5 rounded-xl border border-emerald-500/30 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label className={labelClass}>Jenis Servis</label>
+          <select
+            value={draft.serviceType}
+            onChange={e => {
+              const serviceType = e.target.value as ServiceType;
+              setDraft({ ...draft, serviceType, ...typeDefaults(serviceType) });
+            }}
+            className={`${inputClass} appearance-none`}
+          >
+            {SERVICE_TYPES.map(t => (
+              <option key={t.value} value={t.value} className="bg-[#121212]">{t.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Tanggal</label>
+          <input type="date" value={draft.date} onChange={e => setDraft({ ...draft, date: e.target.value })} className={inputClass} />
+        </div>
+        <div className="space-y-1 col-span-2">
+          <label className={labelClass}>Keterangan{draft.serviceType === 'other' && ' (wajib)'}</label>
+          <input type="text" value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} className={inputClass} placeholder="Ganti oli Motul 10W-40" />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Odometer (km)</label>
+          <input type="number" min="0" value={draft.odometer} onChange={e => setDraft({ ...draft, odometer: e.target.value })} className={inputClass} placeholder="12500" />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Biaya (Rp)</label>
+          <input type="number" min="0" value={draft.cost} onChange={e => setDraft({ ...draft, cost: e.target.value })} className={inputClass} placeholder="85000" />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Interval (km)</label>
+          <input type="number" min="1" value={draft.intervalKm} onChange={e => setDraft({ ...draft, intervalKm: e.target.value })} className={inputClass} placeholder="Tidak ada" />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Interval (bulan)</label>
+          <input type="number" min="1" value={draft.intervalMonths} onChange={e => setDraft({ ...draft, intervalMonths: e.target.value })} className={inputClass} placeholder="Tidak ada" />
+        </div>
+        <div className="space-y-1 col-span-2">
+          <label className={labelClass}>Part Dipakai (pisahkan dengan koma)</label>
+          <input type="text" value={draft.parts} onChange={e => setDraft({ ...draft, parts: e.target.value })} className={inputClass} placeholder="Oli 1L, filter oli, ring baut" />
+        </div>
+        <div className="space-y-1 col-span-2">
+          <label className={labelClass}>Bengkel</label>
+          <input type="text" value={draft.workshop} onChange={e => setDraft({ ...draft, workshop: e.target.value })} className={inputClass} placeholder="Nama bengkel / dikerjakan sendiri" />
+        </div>
+        <div className="space-y-1 col-span-2">
+          <label className={labelClass}>Catatan</label>
+          <textarea rows={2} value={draft.notes} onChange={e => setDraft({ ...draft, notes: e.target.value })} className={`${inputClass} resize-none`} />
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={() => setEditing(null)} className="px-3 py-2 rounded-lg bg-white/5 text-xs font-bold flex items-center gap-1.5 hover:bg-white/10">
+          <X className="w-3.5 h-3.5" /> Batal
+        </button>
+        <button type="button" disabled={busy} onClick={saveDraft} className="px-3 py-2 rounded-lg bg-emerald-500 text-black text-xs font-bold flex items-center gap-1.5 hover:bg-emerald-400 disabled:opacity-50">
+          {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />} Simpan
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h4 className="text-[10px] font-bold uppercase tracking-[0.2em] text-zinc-500 border-b border-white/5 pb-2 mb-4">
+          Odometer
+        </h4>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Gauge className="w-5 h-5 text-emerald-500" />
+            <div>
+              <p className="font-mono font-bold">{log.odometer ? formatKm(log.odometer.km) : 'Belum dicatat'}</p>
+              {log.odometer && <p className="text-[10px] text-zinc-500">per {formatDate(log.odometer.date)}</p>}
+            </div>
+          </div>
+          <form onSubmit={addReading} className="flex gap-2">
+            <input
+              type="number"
+              min="0"
+              value={reading}
+              onChange={e => setReading(e.target.value)}
+              className={`${inputClass} w-32`}
+              placeholder="Km sekarang"
+              aria-label="Odometer sekarang"
+            />
+            <button type="submit" disabled={busy || !reading} className="px-3 rounded-lg bg-white/5 text-xs font-bold hover:bg-emerald-500 hover:text-black disabled:opacity-30">
+              Catat
+            </button>
+          </form>
+        </div>
+        {log.readings.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {log.readings.slice(0, 5).map(r => (
+              <span key={r.id} className="flex items-center gap-1 pl-2.5 pr-1 py-1 bg-white/5 rounded-full text-[10px] font-mono text-zinc-400">
+                {formatDate(r.date)}: {formatKm(r.km)}
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => request(`/api/motorcycles/${bikeId}/odometer/${r.id}/delete`, 'POST')}
+                  className="w-4 h-4 rounded-full flex items-center justify-center hover:bg-red-500 hover:text-white"
+                  aria-label="Hapus catatan odometer"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-[10px] font-bold uppercase tracking-[0.2em] text-zinc-500 border-b border-white/5 pb-2 mb-4">
+          Servis Berikutnya
+        </h4>
+        {log.reminders.length === 0 ? (
+          <span className="text-zinc-500 text-xs italic">Catat servis dengan interval untuk mendapat pengingat</span>
+        ) : (
+          <div className="space-y-2">
+            {log.reminders.map(reminder => (
+              <div key={reminder.recordId} className="flex items-center justify-between gap-3 p-3 bg-white/5 rounded-xl border border-white/5">
+                <div className="min-w-0">
+                  <p className="text-sm font-bold truncate">{serviceLabel(reminder)}</p>
+                  <p className="text-[10px] text-zinc-500 font-mono">
+                    {[reminder.dueOdometer != null && formatKm(reminder.dueOdometer), reminder.dueDate && formatDate(reminder.dueDate)].filter(Boolean).join(' atau ')}
+                    {reminderText(reminder) && ` · ${reminderText(reminder)}`}
+                  </p>
+                </div>
+                <ReminderStatus status={reminder.status} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-[10px] font-bold uppercase tracking-[0.2em] text-zinc-500 border-b border-white/5 pb-2 mb-4">
+          Riwayat Servis
+        </h4>
+        <div className="space-y-3">
+          {editing === 'new' ? draftForm : (
+            <button
+              type="button"
+              onClick={() => { setDraft(emptyDraft(log.odometer?.km ?? null)); setEditing('new'); }}
+              className="w-full py-2.5 border-2 border-dashed border-white/10 rounded-xl text-xs font-bold text-zinc-400 flex items-center justify-center gap-2 hover:border-emerald-500/50 hover:text-emerald-500 transition-colors"
+            >
+              <Plus className="w-4 h-4" /> Catat Servis
+            </button>
+          )}
+
+          {log.records.map(record => editing === record.id ? (
+            <React.Fragment key={record.id}>{draftForm}</React.Fragment>
+          ) : (
+            <div key={record.id} className="flex items-start justify-between gap-3 p-3 bg-white/5 rounded-xl border border-white/5">
+              <div className="min-w-0">
+                <p className="text-sm font-bold truncate">{serviceLabel(record)}</p>
+                <p className="text-[10px] text-zinc-500 font-mono">
+                  {formatDate(record.date)}
+                  {record.odometer != null && ` · ${formatKm(record.odometer)}`}
+                  {record.cost != null && ` · ${formatRupiah(record.cost)}`}
+                </p>
+                {record.serviceType !== 'other' && record.title && <p className="text-xs text-zinc-400 mt-1">{record.title}</p>}
+                {record.parts.length > 0 && <p className="text-[11px] text-zinc-500 mt-1">{record.parts.join(', ')}</p>}
+                {record.workshop && (
+                  <p className="text-[11px] text-zinc-500 mt-0.5 flex items-center gap-1"><Wrench className="w-3 h-3" />{record.workshop}</p>
+                )}
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <button type="button" disabled={busy} onClick={() => { setDraft(toDraft(record)); setEditing(record.id); }} className="w-7 h-7 rounded-md bg-white/5 flex items-center justify-center hover:bg-emerald-500 hover:text-black disabled:opacity-30" aria-label="Edit servis">
+                  <Edit3 className="w-3.5 h-3.5" />
+                </button>
+                <button type="button" disabled={busy} onClick={() => request(`/api/motorcycles/${bikeId}/service/${record.id}/delete`, 'POST')} className="w-7 h-7 rounded-md bg-white/5 flex items-center justify-center hover:bg-red-500 hover:text-white disabled:opacity-30" aria-label="Hapus servis">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
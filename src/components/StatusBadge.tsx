@@ -0,0 +1,26 @@
+import React from 'react';
+import { Motorcycle } from '../constants';
+
+type StatusFields = Pick<Motorcycle, 'status' | 'publishAt'>;
+
+// Mirrors the server: published and past its publish time
+export const isPublic = (bike: StatusFields) =>
+  bike.status === 'published' && (!bike.publishAt || new Date(bike.publishAt).getTime() <= Date.now());
+
+export const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('id-ID', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Nothing for a public bike; otherwise draft, archived or when a scheduled bike goes up
+export default function StatusBadge({ bike }: { bike: StatusFields }) {
+  if (isPublic(bike)) return null;
+  const [label, className] = bike.status === 'draft'
+    ? ['Draf', 'bg-amber-500/15 text-amber-400 border-amber-500/30']
+    : bike.status === 'archived'
+      ? ['Arsip', 'bg-white/5 text-zinc-400 border-white/10']
+      : [`Terbit ${formatDateTime(bike.publishAt!)}`, 'bg-sky-500/15 text-sky-400 border-sky-500/30'];
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-[9px] font-bold uppercase tracking-wider border ${className}`}>
+      {label}
+    </span>
+  );
+}
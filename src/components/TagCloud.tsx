@@ -0,0 +1,53 @@
+import React from 'react';
+import { TagCount } from '../constants';
+
+export type TagMode = 'and' | 'or';
+
+interface TagCloudProps {
+  tags: TagCount[];
+  selected: string[];
+  mode: TagMode;
+  onToggle: (slug: string) => void;
+  onModeChange: (mode: TagMode) => void;
+}
+
+// Tags sized by how many builds use them; picking several narrows (Semua) or widens (Salah satu) the grid
+export default function TagCloud({ tags, selected, mode, onToggle, onModeChange }: TagCloudProps) {
+  if (tags.length === 0) return null;
+
+  const max = Math.max(...tags.map(tag => tag.count));
+  const min = Math.min(...tags.map(tag => tag.count));
+  const scale = (count: number) => max === min ? 0.5 : (count - min) / (max - min);
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-2">
+      {tags.map(tag => {
+        const active = selected.includes(tag.slug);
+        return (
+          <button
+            key={tag.slug}
+            onClick={() => onToggle(tag.slug)}
+            style={{ fontSize: `${0.7 + scale(tag.count) * 0.45}rem` }}
+            className={`transition-colors ${active ? 'text-emerald-400 font-bold' : 'text-zinc-500 hover:text-zinc-200'}`}
+            title={`${tag.count} build`}
+          >
+            #{tag.name}
+          </button>
+        );
+      })}
+      {selected.length > 1 && (
+        <div className="flex bg-white/5 p-1 rounded-lg text-[10px] font-bold uppercase">
+          {([['and', 'Semua tag'], ['or', 'Salah satu']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => onModeChange(value)}
+              className={`px-2 py-0.5 rounded-md transition-all ${mode === value ? 'bg-emerald-500 text-black' : 'text-zinc-500 hover:text-white'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { TagCount } from '../constants';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+// Chip editor for a bike's tags. Enter or comma adds the typed tag, Backspace on an empty
+// field removes the last one, and existing tags are suggested as you type.
+export default function TagInput({ tags, onChange }: TagInputProps) {
+  const [text, setText] = useState('');
+  const [suggestions, setSuggestions] = useState<TagCount[]>([]);
+  const [focused, setFocused] = useState(false);
+
+  useEffect(() => {
+    const query = text.trim().replace(/^#/, '');
+    if (!query) {
+      setSuggestions([]);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/tags?${new URLSearchParams({ q: query, limit: '8' })}`, { signal: controller.signal })
+        .then(response => response.json())
+        .then(setSuggestions)
+        .catch(() => {});
+    }, 150);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [text]);
+
+  const add = (name: string) => {
+    const tag = name.trim().replace(/\s+/g, ' ').replace(/^#/, '');
+    setText('');
+    if (!tag || tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) return;
+    onChange([...tags, tag]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      add(text);
+    } else if (e.key === 'Backspace' && !text && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  const visibleSuggestions = suggestions.filter(s => !tags.some(tag => tag.toLowerCase() === s.name.toLowerCase()));
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 focus-within:border-emerald-500 transition-colors">
+        {tags.map(tag => (
+          <span key={tag} className="flex items-center gap-1 pl-2.5 pr-1 py-1 bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 rounded-full text-xs">
+            #{tag}
+            <button
+              type="button"
+              onClick={() => onChange(tags.filter(t => t !== tag))}
+              className="w-4 h-4 rounded-full flex items-center justify-center hover:bg-emerald-500 hover:text-black"
+              aria-label={`Hapus tag ${tag}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          value={text}
+          onChange={e => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          // Leaves time for a click on a suggestion to register
+          onBlur={() => setTimeout(() => setFocused(false), 150)}
+          className="flex-1 min-w-[8rem] bg-transparent py-1 text-sm focus:outline-none"
+          placeholder={tags.length === 0 ? 'Contoh: retro, ban tahu, lampu bulat' : ''}
+        />
+      </div>
+      {focused && visibleSuggestions.length > 0 && (
+        <div className="absolute z-10 mt-1 w-full bg-[#1a1a1a] border border-white/10 rounded-xl overflow-hidden shadow-2xl">
+          {visibleSuggestions.map(suggestion => (
+            <button
+              key={suggestion.slug}
+              type="button"
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => add(suggestion.name)}
+              className="w-full px-4 py-2 text-left text-sm flex justify-between hover:bg-emerald-500/10"
+            >
+              <span>#{suggestion.name}</span>
+              <span className="text-[10px] text-zinc-500 font-mono">{suggestion.count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
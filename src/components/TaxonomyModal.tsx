@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { X, Plus, Trash2, ChevronUp, ChevronDown, Loader2 } from 'lucide-react';
+import { Category, Style } from '../constants';
+
+export type TaxonomyKind = 'categories' | 'styles';
+
+interface TaxonomyModalProps {
+  categories: Category[];
+  styles: Style[];
+  onChange: (kind: TaxonomyKind, items: (Category | Style)[]) => void;
+  onClose: () => void;
+  onError: (message: string) => void;
+}
+
+const TABS: { kind: TaxonomyKind, label: string }[] = [
+  { kind: 'categories', label: 'Merek' },
+  { kind: 'styles', label: 'Gaya' },
+];
+
+// Admin editor for the brand and style lists that drive the filter chips and the form
+export default function TaxonomyModal({ categories, styles, onChange, onClose, onError }: TaxonomyModalProps) {
+  const [kind, setKind] = useState<TaxonomyKind>('categories');
+  const [newName, setNewName] = useState('');
+  const [newLogo, setNewLogo] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const items: (Category | Style)[] = kind === 'categories' ? categories : styles;
+  const hasLogo = kind === 'categories';
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        onChange(kind, data);
+        return true;
+      }
+      onError(data.error || 'Gagal menyimpan perubahan');
+    } catch (error) {
+      console.error('Taxonomy update failed:', error);
+      onError('Gagal menyimpan perubahan');
+    } finally {
+      setBusy(false);
+    }
+    return false;
+  };
+
+  const add = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    if (await request(`/api/${kind}`, 'POST', { name: newName, logo: hasLogo ? newLogo : undefined })) {
+      setNewName('');
+      setNewLogo('');
+    }
+  };
+
+  const move = (index: number, step: number) => {
+    const target = index + step;
+    if (target < 0 || target >= items.length) return;
+    const order = items.map(item => item.id);
+    [order[index], order[target]] = [order[target], order[index]];
+    request(`/api/${kind}/order`, 'PUT', { order });
+  };
+
+  const saveField = (item: Category | Style, field: 'name' | 'logo', value: string) => {
+    const current = field === 'name' ? item.name : (item as Category).logo || '';
+    if (value.trim() === current) return;
+    request(`/api/${kind}/${item.id}`, 'PATCH', { [field]: value });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/95 backdrop-blur-md"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="relative w-full max-w-2xl bg-[#121212] rounded-2xl sm:rounded-3xl border border-white/10 shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+      >
+        <div className="p-5 sm:p-8 border-b border-white/5 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold tracking-tight">Merek & Gaya</h2>
+            <p className="text-xs text-zinc-500 mt-1">Mengganti nama ikut memperbarui semua build yang memakainya.</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors p-1">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="px-5 sm:px-8 pt-5">
+          <div className="flex gap-1 bg-white/5 p-1 rounded-lg w-fit">
+            {TABS.map(tab => (
+              <button
+                key={tab.kind}
+                onClick={() => setKind(tab.kind)}
+                className={`px-3 py-1.5 text-[10px] font-bold uppercase rounded-md transition-all ${kind === tab.kind ? 'bg-emerald-500 text-black' : 'text-zinc-500 hover:text-white'}`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-5 sm:p-8 overflow-y-auto flex-1 space-y-3">
+          {items.map((item, index) => (
+            <div key={`${kind}-${item.id}-${item.name}`} className="flex items-center gap-3 p-3 bg-white/5 rounded-xl border border-white/5">
+              <div className="flex flex-col">
+                <button type="button" disabled={busy || index === 0} onClick={() => move(index, -1)} className="text-zinc-500 hover:text-white disabled:opacity-30" aria-label="Naikkan">
+                  <ChevronUp className="w-4 h-4" />
+                </button>
+                <button type="button" disabled={busy || index === items.length - 1} onClick={() => move(index, 1)} className="text-zinc-500 hover:text-white disabled:opacity-30" aria-label="Turunkan">
+                  <ChevronDown className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="flex-1 min-w-0 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <input
+                  defaultValue={item.name}
+                  onBlur={e => saveField(item, 'name', e.target.value)}
+                  className="bg-transparent border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500"
+                  aria-label="Nama"
+                />
+                {hasLogo && (
+                  <input
+                    type="url"
+                    defaultValue={(item as Category).logo || ''}
+                    onBlur={e => saveField(item, 'logo', e.target.value)}
+                    placeholder="Link logo (opsional)"
+                    className="bg-transparent border border-white/10 rounded-lg px-3 py-2 text-xs focus:outline-none focus:border-emerald-500"
+                    aria-label="Logo"
+                  />
+                )}
+              </div>
+              <span className="text-[10px] text-zinc-500 font-mono shrink-0">{item.bikeCount} build</span>
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => request(`/api/${kind}/${item.id}/delete`, 'POST')}
+                className="w-8 h-8 bg-white/5 rounded-full flex items-center justify-center hover:bg-red-500 hover:text-white transition-colors disabled:opacity-50 shrink-0"
+                aria-label={`Hapus ${item.name}`}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={add} className="p-5 sm:p-8 border-t border-white/5 flex flex-col sm:flex-row gap-2">
+          <input
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            placeholder={hasLogo ? 'Nama merek baru' : 'Nama gaya baru'}
+            className="flex-1 bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:border-emerald-500"
+          />
+          {hasLogo && (
+            <input
+              type="url"
+              value={newLogo}
+              onChange={e => setNewLogo(e.target.value)}
+              placeholder="Link logo (opsional)"
+              className="flex-1 bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:border-emerald-500"
+            />
+          )}
+          <button
+            type="submit"
+            disabled={busy || !newName.trim()}
+            className="px-4 py-2.5 bg-emerald-500 text-black rounded-xl text-xs font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Tambah
+          </button>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
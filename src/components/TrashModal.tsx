@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { X, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { Motorcycle } from '../constants';
+import { FALLBACK_IMAGE } from '../images';
+import ResponsiveImage from './ResponsiveImage';
+
+type TrashedMotorcycle = Motorcycle & { purgeAt: string };
+
+interface TrashModalProps {
+  onClose: () => void;
+  onRestored: (bike: Motorcycle) => void;
+  onError: (message: string) => void;
+}
+
+export default function TrashModal({ onClose, onRestored, onError }: TrashModalProps) {
+  const [items, setItems] = useState<TrashedMotorcycle[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/trash')
+      .then(response => response.json())
+      .then(data => {
+        setItems(data.items || []);
+        setRetentionDays(data.retentionDays);
+      })
+      .catch(error => {
+        console.error('Failed to load trash:', error);
+        onError('Gagal memuat tempat sampah');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const restore = async (bike: TrashedMotorcycle) => {
+    setBusyId(bike.id);
+    try {
+      const response = await fetch(`/api/motorcycles/${bike.id}/restore`, { method: 'POST' });
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setItems(prev => prev.filter(b => b.id !== bike.id));
+        onRestored(data);
+      } else {
+        onError(data.error || 'Gagal memulihkan motor');
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const purge = async (bike: TrashedMotorcycle) => {
+    if (!window.confirm(`Hapus permanen "${bike.name}" beserta semua fotonya? Tindakan ini tidak bisa dibatalkan.`)) return;
+    setBusyId(bike.id);
+    try {
+      const response = await fetch(`/api/motorcycles/${bike.id}/purge`, { method: 'POST' });
+      if (response.ok) {
+        setItems(prev => prev.filter(b => b.id !== bike.id));
+      } else {
+        const data = await response.json().catch(() => ({}));
+        onError(data.error || 'Gagal menghapus permanen');
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const daysLeft = (purgeAt: string) => Math.max(0, Math.ceil((new Date(purgeAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/95 backdrop-blur-md"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="relative w-full max-w-2xl bg-[#121212] rounded-2xl sm:rounded-3xl border border-white/10 shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+      >
+        <div className="p-5 sm:p-8 border-b border-white/5 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold tracking-tight">Tempat Sampah</h2>
+            <p className="text-xs text-zinc-500 mt-1">Build terhapus otomatis dibersihkan setelah {retentionDays} hari.</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors p-1">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-5 sm:p-8 overflow-y-auto flex-1 space-y-3">
+          {loading ? (
+            <div className="py-12 flex justify-center">
+              <Loader2 className="w-8 h-8 animate-spin text-emerald-500" />
+            </div>
+          ) : items.length === 0 ? (
+            <p className="py-12 text-center text-zinc-500 text-sm">Tempat sampah kosong.</p>
+          ) : items.map(bike => (
+            <div key={bike.id} className="flex items-center gap-4 p-3 bg-white/5 rounded-xl border border-white/5">
+              <ResponsiveImage
+                src={bike.image || FALLBACK_IMAGE}
+                alt={bike.name}
+                sizes="64px"
+                className="w-16 h-12 rounded-lg object-cover shrink-0"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="font-bold truncate">{bike.name}</p>
+                <p className="text-[10px] text-zinc-500 font-mono">
+                  Dihapus {new Date(bike.deletedAt!).toLocaleDateString('id-ID')} · {daysLeft(bike.purgeAt)} hari lagi
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  disabled={busyId === bike.id}
+                  onClick={() => restore(bike)}
+                  className="px-3 py-2 rounded-lg bg-white/5 text-xs font-bold flex items-center gap-1.5 hover:bg-emerald-500 hover:text-black transition-colors disabled:opacity-50"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" /> Pulihkan
+                </button>
+                <button
+                  disabled={busyId === bike.id}
+                  onClick={() => purge(bike)}
+                  className="px-3 py-2 rounded-lg bg-red-500/10 text-red-500 text-xs font-bold flex items-center gap-1.5 hover:bg-red-500 hover:text-white transition-colors disabled:opacity-50"
+                  aria-label="Hapus permanen"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
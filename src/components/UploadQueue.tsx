@@ -0,0 +1,43 @@
+import React from 'react';
+import { X, Loader2 } from 'lucide-react';
+import { UploadTask } from '../uploads';
+
+export default function UploadQueue({ uploads, onCancel }: { uploads: UploadTask[], onCancel: (id: number) => void }) {
+  if (uploads.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {uploads.map(task => (
+        <div key={task.id} className="flex items-center gap-3 p-3 bg-white/5 border border-white/10 rounded-xl">
+          <div className="flex-1 min-w-0 space-y-1.5">
+            <div className="flex items-center justify-between gap-2 text-[10px]">
+              <span className="font-bold truncate">{task.fileName}</span>
+              <span className="font-mono text-zinc-500 shrink-0 flex items-center gap-1">
+                {task.progress < 1 ? `${Math.round(task.progress * 100)}%` : (
+                  <>
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                    Memproses
+                  </>
+                )}
+              </span>
+            </div>
+            <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-emerald-500 transition-[width] duration-200"
+                style={{ width: `${task.progress * 100}%` }}
+              />
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => onCancel(task.id)}
+            className="w-7 h-7 rounded-md bg-white/5 flex items-center justify-center hover:bg-red-500 hover:text-white transition-colors shrink-0"
+            aria-label={`Batalkan unggahan ${task.fileName}`}
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
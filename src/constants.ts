@@ -1,12 +1,198 @@
 import { Bike, Gauge, Zap, Shield, Info } from 'lucide-react';
+import { SpecKey, SpecValue } from './specs';
 
-export type Category = 'Yamaha' | 'Suzuki' | 'Honda' | 'Piaggio';
+// Brands; admins manage the list through /api/categories
+export interface Category {
+  id: number;
+  name: string;
+  slug: string;
+  logo: string | null;
+  sortOrder: number;
+  bikeCount: number;
+}
+
+// Build styles (cafe racer, bobber, ...), managed through /api/styles
+export interface Style {
+  id: number;
+  name: string;
+  slug: string;
+  sortOrder: number;
+  bikeCount: number;
+}
+
+export interface MotorcycleImage {
+  id: number;
+  url: string;
+  caption: string;
+  position: number;
+  isCover: boolean;
+  // Original address of an image that was copied from another site
+  sourceUrl: string | null;
+}
+
+export type ModificationCategory =
+  | 'engine'
+  | 'exhaust'
+  | 'intake'
+  | 'suspension'
+  | 'brakes'
+  | 'wheels'
+  | 'electrical'
+  | 'body'
+  | 'paint'
+  | 'other';
+
+export const MODIFICATION_CATEGORIES: { value: ModificationCategory, label: string }[] = [
+  { value: 'engine', label: 'Mesin' },
+  { value: 'exhaust', label: 'Knalpot' },
+  { value: 'intake', label: 'Intake & Karburator' },
+  { value: 'suspension', label: 'Suspensi' },
+  { value: 'brakes', label: 'Rem' },
+  { value: 'wheels', label: 'Kaki-kaki' },
+  { value: 'electrical', label: 'Kelistrikan' },
+  { value: 'body', label: 'Body & Rangka' },
+  { value: 'paint', label: 'Cat' },
+  { value: 'other', label: 'Lainnya' },
+];
+
+export interface ModificationEntry {
+  id: number;
+  date: string | null;
+  partName: string;
+  category: ModificationCategory;
+  cost: number | null;
+  workshop: string;
+  notes: string;
+}
+
+export type ServiceType = 'oil' | 'chain' | 'tyres' | 'brakes' | 'tune-up' | 'tax' | 'other';
+
+// Suggested intervals fill in the form when a type is picked; each record keeps its own
+export const SERVICE_TYPES: { value: ServiceType, label: string, intervalKm: number | null, intervalMonths: number | null }[] = [
+  { value: 'oil', label: 'Ganti Oli', intervalKm: 2000, intervalMonths: 3 },
+  { value: 'chain', label: 'Rantai & Gir', intervalKm: 500, intervalMonths: 1 },
+  { value: 'tyres', label: 'Ban', intervalKm: 15000, intervalMonths: 36 },
+  { value: 'brakes', label: 'Rem', intervalKm: 8000, intervalMonths: 12 },
+  { value: 'tune-up', label: 'Servis Berkala', intervalKm: 4000, intervalMonths: 6 },
+  { value: 'tax', label: 'Pajak STNK', intervalKm: null, intervalMonths: 12 },
+  { value: 'other', label: 'Lainnya', intervalKm: null, intervalMonths: null },
+];
+
+export interface ServiceRecord {
+  id: number;
+  serviceType: ServiceType;
+  title: string;
+  date: string;
+  odometer: number | null;
+  intervalKm: number | null;
+  intervalMonths: number | null;
+  parts: string[];
+  cost: number | null;
+  workshop: string;
+  notes: string;
+}
+
+export interface OdometerReading {
+  id: number;
+  date: string;
+  km: number;
+}
+
+export interface ServiceReminder {
+  recordId: number;
+  serviceType: ServiceType;
+  title: string;
+  lastDate: string;
+  lastOdometer: number | null;
+  dueDate: string | null;
+  dueOdometer: number | null;
+  remainingKm: number | null;
+  remainingDays: number | null;
+  status: 'overdue' | 'due-soon' | 'ok';
+}
+
+export interface ServiceLog {
+  records: ServiceRecord[];
+  readings: OdometerReading[];
+  // Latest known reading, from either an odometer entry or a service record
+  odometer: { km: number, date: string } | null;
+  reminders: ServiceReminder[];
+}
+
+export type CostKind = 'parts' | 'labour';
+
+export const COST_KINDS: { value: CostKind, label: string }[] = [
+  { value: 'parts', label: 'Part' },
+  { value: 'labour', label: 'Jasa' },
+];
+
+export interface CostEntry {
+  id: number;
+  date: string;
+  description: string;
+  kind: CostKind;
+  category: ModificationCategory;
+  amount: number;
+  currency: string;
+  vendor: string;
+  notes: string;
+  receipts: string[];
+}
+
+// One group of a cost report; amounts are never converted, so a group has a row per currency
+export interface CostGroupTotal {
+  key: string;
+  label: string;
+  currency: string;
+  total: number;
+  count: number;
+}
+
+export interface CostTotal {
+  currency: string;
+  total: number;
+  count: number;
+}
+
+export interface CostLedger {
+  entries: CostEntry[];
+  totals: CostTotal[];
+  byCategory: CostGroupTotal[];
+  byMonth: CostGroupTotal[];
+}
+
+export interface User {
+  id: number;
+  username: string;
+  role: 'admin' | 'member';
+}
+
+// Only published bikes show in the showroom; with a publishAt still ahead a published bike is scheduled
+export type MotorcycleStatus = 'draft' | 'published' | 'archived';
+
+export const MOTORCYCLE_STATUSES: { value: MotorcycleStatus, label: string }[] = [
+  { value: 'draft', label: 'Draf' },
+  { value: 'published', label: 'Terbit' },
+  { value: 'archived', label: 'Arsip' },
+];
 
 export interface Motorcycle {
   id: string;
   name: string;
-  category: Category;
+  category: string;
+  style: string | null;
   image: string;
+  ownerId: number | null;
+  deletedAt: string | null;
+  // Changes on every save; sent back in If-Match so a stale form can't overwrite a newer edit
+  updatedAt: string;
+  // The build this one was duplicated from, if any
+  forkedFrom: string | null;
+  status: MotorcycleStatus;
+  publishAt: string | null;
+  // The stock model from the catalog this build started from
+  baseModelId: number | null;
+  images: MotorcycleImage[];
   specs: {
     engine: string;
     power: string;
@@ -14,9 +200,63 @@ export interface Motorcycle {
     weight: string;
     topSpeed: string;
   };
+  specData: Record<SpecKey, SpecValue>;
   modifications: string;
+  modificationLog: ModificationEntry[];
+  tags: string[];
   description: string;
   year: number;
 }
 
+// A stock model from the catalog; category is the brand name
+export interface BaseModel {
+  id: number;
+  category: string;
+  name: string;
+  slug: string;
+  yearFrom: number | null;
+  yearTo: number | null;
+  specs: Motorcycle['specs'];
+  specData: Record<SpecKey, SpecValue>;
+}
+
+export interface TagCount {
+  name: string;
+  slug: string;
+  count: number;
+}
+
+export interface RevisionSnapshot {
+  name: string;
+  category: string;
+  style: string | null;
+  year: number;
+  description: string;
+  image: string;
+  // Missing from revisions saved before tags existed
+  tags?: string[];
+  specs: Motorcycle['specs'];
+}
+
+export interface BuildLineage {
+  // Nearest first; an original that is trashed or not public keeps its place in the chain but
+  // can't be opened, and the name of someone else's unpublished build is left out
+  ancestors: { id: string, name: string | null, available: boolean }[];
+  forks: { id: string, name: string }[];
+}
+
+export interface Revision {
+  id: number;
+  action: 'create' | 'update' | 'rollback' | 'baseline';
+  createdAt: string;
+  editor: { id: number, username: string } | null;
+  snapshot: RevisionSnapshot;
+}
+
+export interface RevisionChange {
+  field: string;
+  before: string | number;
+  after: string | number;
+}
+
 export const MOTORCYCLES: Motorcycle[] = [];
@@ -0,0 +1,81 @@
+// RFC 4180 CSV. Cells that a spreadsheet would run as a formula (=, +, -, @ at the start) are
+// prefixed with a quote so an exported description can't execute anything when opened.
+function csvCell(value: unknown) {
+  if (value == null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: unknown[][]) {
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parses RFC 4180 text into rows of cells. Excel in locales with a decimal comma saves with
+ * semicolons, so the delimiter is whichever of the two the header line uses more. The quote
+ * toCsv puts in front of formula-like cells is taken off again so exports round-trip.
+ */
+export function parseCsv(text: string): string[][] {
+  text = text.replace(/^\uFEFF/, '');
+  const header = text.slice(0, text.search(/\r?\n|$/)).replace(/"[^"]*"/g, '');
+  const delimiter = header.split(';').length > header.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  const endCell = () => {
+    row.push(/^'[=+\-@\t\r]/.test(cell) ? cell.slice(1) : cell);
+    cell = '';
+  };
+  const endRow = () => {
+    endCell();
+    if (row.some(value => value !== '')) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      endCell();
+    } else if (char === '\n' || (char === '\r' && text[i + 1] === '\n')) {
+      if (char === '\r') i++;
+      endRow();
+      line++;
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) throw new Error(`Unterminated quoted field starting before line ${line}`);
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+// Columns of the motorcycle CSV, in export order. Specs are flat columns; tags are comma-separated in one cell.
+export const MOTORCYCLE_CSV_COLUMNS = [
+  'id', 'name', 'year', 'category', 'style',
+  'engine', 'power', 'torque', 'weight', 'topSpeed',
+  'image', 'description', 'modifications', 'tags'
+] as const;
+
+export type MotorcycleCsvColumn = typeof MOTORCYCLE_CSV_COLUMNS[number];
+
+// Header cells are matched loosely: 'Top Speed', 'specs.topSpeed' and 'top_speed' all mean topSpeed
+export function motorcycleCsvColumn(header: string): MotorcycleCsvColumn | null {
+  const key = header.toLowerCase().replace(/[^a-z]/g, '').replace(/^specs?/, '');
+  return MOTORCYCLE_CSV_COLUMNS.find(column => column.toLowerCase() === key) || null;
+}
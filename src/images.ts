@@ -0,0 +1,37 @@
+// Widths produced by the upload pipeline. Uploaded images are stored as
+// /uploads/<base>-<size>.<format>; the URL saved on a bike is always the full JPEG.
+export const IMAGE_SIZES = {
+  thumb: 320,
+  card: 800,
+  full: 1920,
+} as const;
+
+export const FALLBACK_IMAGE = 'https://images.unsplash.com/photo-1558981403-c5f9899a28bc?auto=format&fit=crop&q=80&w=1000';
+
+export type ImageSize = keyof typeof IMAGE_SIZES;
+export type ImageFormat = 'webp' | 'jpg';
+
+const PIPELINE_URL = /^\/uploads\/([^/]+)-full\.jpg$/;
+const VARIANT_URL = new RegExp(`^/uploads/([^/]+)-(${Object.keys(IMAGE_SIZES).join('|')})\\.(webp|jpg)$`);
+
+export function variantUrl(base: string, size: ImageSize, format: ImageFormat) {
+  return `/uploads/${base}-${size}.${format}`;
+}
+
+// The shared file name part of a processed upload, or null for external and legacy URLs
+export function pipelineBase(url: string) {
+  return url.match(PIPELINE_URL)?.[1] ?? null;
+}
+
+// Like pipelineBase, but for the URL of any size and format
+export function variantBase(url: string) {
+  return url.match(VARIANT_URL)?.[1] ?? null;
+}
+
+export function imageSrcSet(url: string, format: ImageFormat) {
+  const base = pipelineBase(url);
+  if (!base) return undefined;
+  return (Object.keys(IMAGE_SIZES) as ImageSize[])
+    .map(size => `${variantUrl(base, size, format)} ${IMAGE_SIZES[size]}w`)
+    .join(', ');
+}
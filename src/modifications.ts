@@ -0,0 +1,22 @@
+// Keyword hints used to categorise parts typed into the old comma-separated field
+const CATEGORY_KEYWORDS: [string, RegExp][] = [
+  ['exhaust', /exhaust|knalpot|muffler|header|silencer/i],
+  ['suspension', /suspens|shock|fork|monoshock|sokbreker|swing ?arm/i],
+  ['brakes', /brake|rem|kaliper|caliper|disc|cakram/i],
+  ['wheels', /wheel|velg|rim|tire|tyre|ban|spoke|jari/i],
+  ['intake', /carb|karbu|filter|intake|injector|throttle/i],
+  ['electrical', /lamp|light|led|cdi|coil|wiring|kabel|aki|battery|speedo/i],
+  ['paint', /paint|cat |cat$|airbrush|powder ?coat|chrome|krom/i],
+  ['body', /tank|tangki|jok|seat|fender|spakbor|body|frame|rangka|handlebar|stang|cover/i],
+  ['engine', /engine|mesin|bore|piston|cam|noken|cylinder|silinder|kopling|clutch|gear/i],
+];
+
+export function guessModificationCategory(partName: string) {
+  const match = CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(partName));
+  return match ? match[0] : 'other';
+}
+
+// "Knalpot, Velg 17" -> ['Knalpot', 'Velg 17']
+export function splitModificationText(text: string) {
+  return text.split(',').map(part => part.trim()).filter(Boolean);
+}
@@ -0,0 +1,29 @@
+// Client-side routes. The server answers every non-API path with index.html, so these are
+// all the app needs to reopen a build or a filtered showroom from a link:
+//   /bike/:id           detail modal for one build
+//   /category/:slug     showroom filtered to a brand
+//   ?q=...              search text, kept on any of the above
+
+export interface Route {
+  bikeId: string | null;
+  category: string | null;
+  q: string;
+}
+
+export function parseRoute(location: { pathname: string, search: string }): Route {
+  const [, section, value] = location.pathname.split('/');
+  const param = value ? decodeURIComponent(value) : null;
+  return {
+    bikeId: section === 'bike' ? param : null,
+    category: section === 'category' ? param : null,
+    q: new URLSearchParams(location.search).get('q') || '',
+  };
+}
+
+export function bikePath(id: string) {
+  return `/bike/${encodeURIComponent(id)}`;
+}
+
+export function listPath(category: string | null) {
+  return category ? `/category/${encodeURIComponent(category)}` : '/';
+}
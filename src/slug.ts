@@ -0,0 +1,5 @@
+// URL-safe form of a name: "Café Racer" -> "cafe-racer". Used for brands, styles and tags.
+export function slugify(name: string) {
+  return name.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
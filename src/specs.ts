@@ -0,0 +1,169 @@
+export type SpecKey = 'engine' | 'power' | 'torque' | 'weight' | 'topSpeed';
+
+export const SPEC_KEYS: SpecKey[] = ['engine', 'power', 'torque', 'weight', 'topSpeed'];
+
+// Specs that are usually quoted with the rpm they peak at ("15 PS @ 8500rpm")
+export const RPM_SPECS: SpecKey[] = ['power', 'torque'];
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export interface SpecValue {
+  raw: string;
+  value: number | null;
+  unit: string | null;
+  // Value converted to the base unit of the spec (cc, hp, Nm, kg, km/h), used for sorting and comparing
+  base: number | null;
+  rpm: number | null;
+  // True when the text is not empty but could not be read as a number and unit
+  unparsed: boolean;
+}
+
+interface UnitDef {
+  unit: string;
+  pattern: RegExp;
+  // Multiply a value in this unit to get the base unit
+  toBase: number;
+}
+
+// Order matters: longer/more specific spellings must come before their prefixes (kgf·m before kg)
+const UNITS: Record<SpecKey, UnitDef[]> = {
+  engine: [
+    { unit: 'cc', pattern: /^(cc|cm3|cm³)\b/i, toBase: 1 },
+    { unit: 'ci', pattern: /^(ci|cui|cu\.? ?in|cubic ?inch(es)?)\b/i, toBase: 16.387064 },
+    { unit: 'L', pattern: /^(l|liter|litre)\b/i, toBase: 1000 },
+  ],
+  power: [
+    { unit: 'hp', pattern: /^(bhp|whp|hp)\b/i, toBase: 1 },
+    { unit: 'PS', pattern: /^(ps|dk|cv)\b/i, toBase: 0.98632 },
+    { unit: 'kW', pattern: /^kw\b/i, toBase: 1.34102 },
+  ],
+  torque: [
+    { unit: 'kgf·m', pattern: /^(kgf|kg)\s*[·.\-]?\s*m\b/i, toBase: 9.80665 },
+    { unit: 'Nm', pattern: /^n\s*[·.\-]?\s*m\b/i, toBase: 1 },
+    { unit: 'lb-ft', pattern: /^(lbs?|ft)\s*[·.\-]?\s*(ft|lbs?)f?\b/i, toBase: 1.355818 },
+  ],
+  weight: [
+    { unit: 'kg', pattern: /^(kg|kilo(gram)?s?)\b/i, toBase: 1 },
+    { unit: 'lb', pattern: /^(lbs?|pounds?)\b/i, toBase: 0.45359237 },
+  ],
+  topSpeed: [
+    { unit: 'km/h', pattern: /^(km\/h|kmh|kph|km\/jam|kpj)(?![a-z])/i, toBase: 1 },
+    { unit: 'mph', pattern: /^mph\b/i, toBase: 1.609344 },
+  ],
+};
+
+const DEFAULT_UNIT: Record<SpecKey, string> = {
+  engine: 'cc',
+  power: 'hp',
+  torque: 'Nm',
+  weight: 'kg',
+  topSpeed: 'km/h',
+};
+
+const DISPLAY_UNIT: Record<UnitSystem, Record<SpecKey, { unit: string, fromBase: number, decimals: number }>> = {
+  metric: {
+    engine: { unit: 'cc', fromBase: 1, decimals: 0 },
+    power: { unit: 'PS', fromBase: 1 / 0.98632, decimals: 1 },
+    torque: { unit: 'Nm', fromBase: 1, decimals: 1 },
+    weight: { unit: 'kg', fromBase: 1, decimals: 0 },
+    topSpeed: { unit: 'km/h', fromBase: 1, decimals: 0 },
+  },
+  imperial: {
+    engine: { unit: 'ci', fromBase: 1 / 16.387064, decimals: 1 },
+    power: { unit: 'hp', fromBase: 1, decimals: 1 },
+    torque: { unit: 'lb-ft', fromBase: 1 / 1.355818, decimals: 1 },
+    weight: { unit: 'lb', fromBase: 1 / 0.45359237, decimals: 0 },
+    topSpeed: { unit: 'mph', fromBase: 1 / 1.609344, decimals: 0 },
+  },
+};
+
+const NUMBER = /(\d{1,3}(?:[.,]\d{3})+(?![\d])|\d+(?:[.,]\d+)?)/;
+
+// "8,500" and "8.500" are thousands, "8,5" is the Indonesian decimal comma
+function toNumber(text: string) {
+  if (/^\d{1,3}([.,]\d{3})+$/.test(text)) {
+    return Number(text.replace(/[.,]/g, ''));
+  }
+  return Number(text.replace(',', '.'));
+}
+
+function parseRpm(text: string) {
+  const match = text.match(new RegExp(NUMBER.source + '\\s*rpm', 'i'));
+  return match ? toNumber(match[1]) : null;
+}
+
+export function emptySpec(raw = ''): SpecValue {
+  return { raw, value: null, unit: null, base: null, rpm: null, unparsed: raw.trim() !== '' };
+}
+
+export function parseSpec(key: SpecKey, raw: string | null | undefined): SpecValue {
+  const text = (raw || '').trim();
+  if (!text) return emptySpec();
+
+  // Look at every number in the text and take the first one followed by a known unit,
+  // so "Evolution 1200cc" and "68 HP @ 5000 rpm" both work
+  const numbers = new RegExp(NUMBER.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = numbers.exec(text))) {
+    const rest = text.slice(match.index + match[0].length).trimStart();
+    if (/^rpm/i.test(rest)) continue;
+    const value = toNumber(match[1]);
+    const unit = UNITS[key].find(def => def.pattern.test(rest));
+    if (unit) {
+      return {
+        raw: text,
+        value,
+        unit: unit.unit,
+        base: value * unit.toBase,
+        rpm: RPM_SPECS.includes(key) ? parseRpm(text) : null,
+        unparsed: false,
+      };
+    }
+  }
+
+  // A lone number ("135") is read in the default unit of the spec
+  if (new RegExp('^' + NUMBER.source + '$').test(text)) {
+    const value = toNumber(text);
+    return {
+      raw: text,
+      value,
+      unit: DEFAULT_UNIT[key],
+      base: value,
+      rpm: null,
+      unparsed: false,
+    };
+  }
+
+  return emptySpec(text);
+}
+
+export function formatSpec(key: SpecKey, spec: SpecValue | undefined, system: UnitSystem) {
+  if (!spec || spec.base === null) return spec?.raw || '-';
+  const display = DISPLAY_UNIT[system][key];
+  const converted = spec.base * display.fromBase;
+  const value = converted.toLocaleString('id-ID', { maximumFractionDigits: display.decimals });
+  return spec.rpm ? `${value} ${display.unit} @ ${spec.rpm.toLocaleString('id-ID')} rpm` : `${value} ${display.unit}`;
+}
+
+// The change from a stock figure in the viewer's unit, signed ("+4 PS", "-12 kg"). Null when either
+// side has no number or the difference rounds to nothing.
+export function formatSpecDelta(key: SpecKey, spec: SpecValue | undefined, stock: SpecValue | undefined, system: UnitSystem) {
+  if (spec?.base == null || stock?.base == null) return null;
+  const display = DISPLAY_UNIT[system][key];
+  const delta = Number(((spec.base - stock.base) * display.fromBase).toFixed(display.decimals));
+  if (delta === 0) return null;
+  return `${delta > 0 ? '+' : '-'}${Math.abs(delta).toLocaleString('id-ID', { maximumFractionDigits: display.decimals })} ${display.unit}`;
+}
+
+export function displayUnit(key: SpecKey, system: UnitSystem) {
+  return DISPLAY_UNIT[system][key].unit;
+}
+
+// Turns a value typed in the viewer's display unit back into the base unit, e.g. for range filters
+export function toBaseUnit(key: SpecKey, value: number, system: UnitSystem) {
+  return value / DISPLAY_UNIT[system][key].fromBase;
+}
+
+export function toDisplayUnit(key: SpecKey, base: number, system: UnitSystem) {
+  return base * DISPLAY_UNIT[system][key].fromBase;
+}
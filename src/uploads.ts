@@ -0,0 +1,49 @@
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+export interface UploadTask {
+  id: number;
+  fileName: string;
+  // 0..1 of the bytes sent; the server still resizes the image after it reaches 1
+  progress: number;
+}
+
+export interface UploadHandle {
+  // Resolves to the stored image URL, or null when the upload was cancelled
+  promise: Promise<string | null>;
+  abort: () => void;
+}
+
+// Sends one file to /api/upload as multipart form data. XHR rather than fetch because
+// fetch can't report upload progress.
+export function uploadImage(file: File, onProgress: (progress: number) => void): UploadHandle {
+  const xhr = new XMLHttpRequest();
+  const promise = new Promise<string | null>((resolve, reject) => {
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      let data: any = null;
+      try {
+        data = JSON.parse(xhr.responseText);
+      } catch {
+        // Handled below as an invalid response
+      }
+      if (xhr.status >= 200 && xhr.status < 300 && data?.images?.[0]) {
+        resolve(data.images[0].imageUrl);
+      } else if (data?.error) {
+        reject(new Error(data.error));
+      } else {
+        reject(new Error(`Server mengembalikan respon tidak valid (${xhr.status})`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Koneksi terputus'));
+    xhr.onabort = () => resolve(null);
+  });
+
+  const body = new FormData();
+  body.append('images', file);
+  xhr.open('POST', '/api/upload');
+  xhr.send(body);
+
+  return { promise, abort: () => xhr.abort() };
+}
@@ -0,0 +1,204 @@
+import type { Motorcycle, MotorcycleStatus } from './constants';
+import { SPEC_KEYS, SpecKey } from './specs';
+import { slugify } from './slug';
+
+// Rules for the bike a client sends to POST /api/motorcycles or PUT/PATCH /api/motorcycles/:id. The
+// server enforces them and the add/edit form runs the same checks before sending, so both report
+// the same message for the same field. Checks that need the database (does the brand exist, is an
+// imported id free) only happen on the server and come back in the same shape.
+
+export type MotorcycleInput = Pick<Motorcycle, 'id' | 'name' | 'category' | 'style' | 'year' | 'image' | 'description' | 'modifications' | 'specs'> & {
+  // Left out on update to keep the bike's tags as they are
+  tags?: string[];
+  // Likewise left out to keep the status; publishAt only counts together with a status
+  status?: MotorcycleStatus;
+  publishAt?: string | null;
+  // The catalog model the build started from; left out to keep it, null for none
+  baseModelId?: number | null;
+};
+
+// Messages keyed by field path: 'name', 'year', 'specs.power'
+export type FieldErrors = Record<string, string>;
+
+export const MIN_YEAR = 1885;
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 30;
+export const STATUS_VALUES: readonly MotorcycleStatus[] = ['draft', 'published', 'archived'];
+
+interface TextRule {
+  kind: 'text';
+  required?: boolean;
+  // Empty means null instead of ''
+  nullable?: boolean;
+  maxLength: number;
+  pattern?: RegExp;
+  patternMessage?: string;
+}
+
+interface IntegerRule {
+  kind: 'integer';
+  min: number;
+  max: () => number;
+}
+
+interface SpecsRule {
+  kind: 'specs';
+  maxLength: number;
+}
+
+interface TagsRule {
+  kind: 'tags';
+}
+
+interface ChoiceRule {
+  kind: 'choice';
+  values: readonly string[];
+}
+
+// An ISO date and time, or empty for none
+interface DateTimeRule {
+  kind: 'datetime';
+}
+
+// The id of a row in another table, or empty for none; the server checks that the row exists
+interface ReferenceRule {
+  kind: 'reference';
+}
+
+// Optional number fields are references; the required ones (year) are plain integers
+type RuleFor<T, Optional extends boolean> = [T] extends [number] ? (Optional extends true ? ReferenceRule : IntegerRule)
+  : [T] extends [string[] | undefined] ? TagsRule
+  : [T] extends [Record<SpecKey, string>] ? SpecsRule
+  : [T] extends [MotorcycleStatus | undefined] ? ChoiceRule
+  : TextRule | DateTimeRule;
+
+export const MOTORCYCLE_SCHEMA: { [K in keyof MotorcycleInput]-?: RuleFor<MotorcycleInput[K], {} extends Pick<MotorcycleInput, K> ? true : false> } = {
+  id: { kind: 'text', required: true, maxLength: 64, pattern: /^[A-Za-z0-9_-]+$/, patternMessage: 'id may only contain letters, digits, - and _' },
+  name: { kind: 'text', required: true, maxLength: 120 },
+  category: { kind: 'text', required: true, maxLength: 60 },
+  style: { kind: 'text', nullable: true, maxLength: 60 },
+  year: { kind: 'integer', min: MIN_YEAR, max: () => new Date().getFullYear() + 1 },
+  image: { kind: 'text', maxLength: 2048, pattern: /^(https?:\/\/|\/uploads\/)/i, patternMessage: 'image must be an http(s) link or an uploaded photo' },
+  description: { kind: 'text', maxLength: 5000 },
+  modifications: { kind: 'text', maxLength: 5000 },
+  specs: { kind: 'specs', maxLength: 60 },
+  tags: { kind: 'tags' },
+  status: { kind: 'choice', values: STATUS_VALUES },
+  publishAt: { kind: 'datetime' },
+  baseModelId: { kind: 'reference' }
+};
+
+// Trims and dedupes tag names; returns an error message for input that can't be stored
+export function normalizeTags(value: unknown): { tags: string[] } | { error: string } {
+  if (value === undefined || value === null) return { tags: [] };
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+    return { error: 'tags must be an array of strings' };
+  }
+  const tags: string[] = [];
+  for (const raw of value as string[]) {
+    const name = raw.trim().replace(/\s+/g, ' ').replace(/^#/, '');
+    if (!name) continue;
+    if (name.length > MAX_TAG_LENGTH || !slugify(name)) {
+      return { error: `Invalid tag: ${raw} (at most ${MAX_TAG_LENGTH} characters, with a letter or digit)` };
+    }
+    if (!tags.some(tag => tag.toLowerCase() === name.toLowerCase())) tags.push(name);
+  }
+  if (tags.length > MAX_TAGS) return { error: `At most ${MAX_TAGS} tags per motorcycle` };
+  return { tags };
+}
+
+function checkText(field: string, rule: TextRule, value: unknown, errors: FieldErrors) {
+  if (value === undefined || value === null) value = '';
+  if (typeof value !== 'string') {
+    errors[field] = `${field} must be text`;
+    return;
+  }
+  const text = value.trim();
+  if (!text) {
+    if (rule.required) errors[field] = `${field} is required`;
+    return rule.nullable ? null : '';
+  }
+  if (text.length > rule.maxLength) {
+    errors[field] = `${field} must be at most ${rule.maxLength} characters`;
+  } else if (rule.pattern && !rule.pattern.test(text)) {
+    errors[field] = rule.patternMessage || `${field} is not valid`;
+  }
+  return text;
+}
+
+function checkInteger(field: string, rule: IntegerRule, value: unknown, errors: FieldErrors) {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  if (number === undefined || number === null || number === '') {
+    errors[field] = `${field} is required`;
+  } else if (typeof number !== 'number' || !Number.isInteger(number) || number < rule.min || number > rule.max()) {
+    errors[field] = `${field} must be a whole number from ${rule.min} to ${rule.max()}`;
+  }
+  return number;
+}
+
+/**
+ * Checks a bike against MOTORCYCLE_SCHEMA and returns it trimmed and with defaults filled in,
+ * or the message for every field that failed. `withId: false` skips the id, for new bikes whose
+ * id the server makes and for updates where it comes from the URL.
+ */
+export function validateMotorcycle(input: unknown, { withId = true } = {}): { bike: MotorcycleInput } | { errors: FieldErrors } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: { '': 'Expected a motorcycle object' } };
+  }
+  const raw = input as Record<string, unknown>;
+  const errors: FieldErrors = {};
+  const bike: Record<string, unknown> = {};
+
+  for (const [field, rule] of Object.entries(MOTORCYCLE_SCHEMA) as [keyof MotorcycleInput, TextRule | IntegerRule | SpecsRule | TagsRule | ChoiceRule | DateTimeRule | ReferenceRule][]) {
+    if (field === 'id' && !withId) continue;
+    const value = raw[field];
+    if (rule.kind === 'choice') {
+      if (value === undefined) continue;
+      if (typeof value !== 'string' || !rule.values.includes(value)) {
+        errors[field] = `${field} must be one of ${rule.values.join(', ')}`;
+      } else {
+        bike[field] = value;
+      }
+    } else if (rule.kind === 'datetime') {
+      if (value === undefined) continue;
+      const time = typeof value === 'string' && value.trim() ? Date.parse(value) : NaN;
+      if (value === null || value === '') {
+        bike[field] = null;
+      } else if (Number.isNaN(time)) {
+        errors[field] = `${field} must be a date and time`;
+      } else {
+        bike[field] = new Date(time).toISOString();
+      }
+    } else if (rule.kind === 'reference') {
+      if (value === undefined) continue;
+      const id = typeof value === 'string' && value.trim() ? Number(value) : value;
+      if (id === null || id === '') {
+        bike[field] = null;
+      } else if (typeof id !== 'number' || !Number.isInteger(id) || id < 1) {
+        errors[field] = `${field} must be an id`;
+      } else {
+        bike[field] = id;
+      }
+    } else if (rule.kind === 'text') {
+      bike[field] = checkText(field, rule, value, errors);
+    } else if (rule.kind === 'integer') {
+      bike[field] = checkInteger(field, rule, value, errors);
+    } else if (rule.kind === 'specs') {
+      if (value !== undefined && value !== null && (typeof value !== 'object' || Array.isArray(value))) {
+        errors.specs = 'specs must be an object';
+        continue;
+      }
+      const specs = (value || {}) as Record<string, unknown>;
+      bike.specs = Object.fromEntries(SPEC_KEYS.map(key => [
+        key,
+        checkText(`specs.${key}`, { kind: 'text', maxLength: rule.maxLength }, specs[key], errors) ?? ''
+      ]));
+    } else if (value !== undefined) {
+      const tags = normalizeTags(value);
+      if ('error' in tags) errors.tags = tags.error;
+      else bike.tags = tags.tags;
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? { errors } : { bike: bike as MotorcycleInput };
+}